@@ -0,0 +1,595 @@
+/**
+ * FPSGameApp
+ *
+ * Sets up the Renderer, Scene, Physics and Entities, and runs the render
+ * loop. Assets come from the loader it is given, so the same app runs in
+ * the browser (entry.ts) and headless under Node (headless.ts).
+ */
+
+import * as THREE from 'three';
+import { AmmoHelper, Ammo } from './core/AmmoLib';
+import { EntityManager } from './core/EntityManager';
+import { Entity } from './core/Entity';
+import ForestLighting from './entities/Level/ForestLighting';
+import WorldClock from './entities/Level/WorldClock';
+import Weather from './entities/Level/Weather';
+import Water from './entities/Level/Water';
+import PropInstances from './entities/Level/PropInstances';
+import Impostors from './entities/Level/Impostors';
+import Sky from './entities/Sky/Sky';
+import ForestNavmesh from './entities/Level/ForestNavmesh';
+import TileManager from './entities/Level/TileManager';
+import LevelRandom from './entities/Level/LevelRandom';
+import Terrain from './entities/Level/Terrain';
+import Biomes from './entities/Level/Biomes';
+import { CONFIG, resolveSeed, type GameMode } from './config/game.config';
+import PlayerControls from './entities/Player/PlayerControls';
+import PlayerPhysics from './entities/Player/PlayerPhysics';
+import Stats from 'three/examples/jsm/libs/stats.module';
+import Input from './core/Input';
+import Weapon from './entities/Player/Weapon';
+import UIManager from './entities/UI/UIManager';
+import AmmoBox from './entities/AmmoBox/AmmoBox';
+import LevelBulletDecals from './entities/Level/BulletDecals';
+import PlayerHealth from './entities/Player/PlayerHealth';
+import PickupCollector from './entities/Player/PickupCollector';
+import GameManager from './entities/Game/GameManager';
+import SpawnManager from './entities/Spawn/SpawnManager';
+import WaveDirector from './entities/Spawn/WaveDirector';
+import MiniMap from './entities/UI/MiniMap';
+import SaveManager from './entities/Game/SaveManager';
+import { readSave, hasSave, clearSave, applySnapshot } from './systems/SaveSystem';
+import { FixedTimestep } from './systems/FixedTimestep';
+import type { SaveSnapshot } from './types/save.types';
+import { HeadlessUIManager, HeadlessMiniMap } from './entities/UI/HeadlessUI';
+import type { Assets } from './GameAssets';
+
+interface MutantAnims {
+  idle?: THREE.AnimationClip;
+  walk?: THREE.AnimationClip;
+  run?: THREE.AnimationClip;
+  attack?: THREE.AnimationClip;
+  die?: THREE.AnimationClip;
+  [key: string]: THREE.AnimationClip | undefined;
+}
+
+/** Renderer surface used by the frame loop */
+interface FrameRenderer {
+  render(scene: THREE.Scene, camera: THREE.Camera): void;
+  setSize(width: number, height: number): void;
+}
+
+/** Stats surface used by the frame loop */
+interface FrameStats {
+  update(): void;
+}
+
+/** Loads the game's assets, reporting progress in percent */
+export type AssetLoader = (onProgress: (percent: number) => void) => Promise<Assets>;
+
+export interface FPSGameOptions {
+  /** Run without WebGL, DOM UI or audio, stepping the simulation manually */
+  headless?: boolean;
+  /** Number of fixed steps to run in headless mode */
+  ticks?: number;
+  /** Frame time in seconds for headless mode (physics still ticks at CONFIG.physics.fixedStep) */
+  timeStep?: number;
+  /** Game mode for headless runs */
+  mode?: GameMode;
+  /** Called with the run's numbers once a headless run has finished */
+  onHeadlessComplete?: (summary: HeadlessSummary) => void;
+}
+
+/** What a headless run reports when it finishes */
+export interface HeadlessSummary {
+  ticks: number;
+  /** Wall-clock duration in seconds */
+  duration: number;
+  /** Entities alive at the end of the run */
+  entities: number;
+}
+
+const DEFAULT_HEADLESS_TICKS = 3600;
+const DEFAULT_HEADLESS_TIMESTEP = 1.0 / 60.0;
+
+/** No-op renderer used in headless mode */
+const headlessRenderer: FrameRenderer = {
+  render: () => {},
+  setSize: () => {},
+};
+
+/** No-op stats panel used in headless mode */
+const headlessStats: FrameStats = {
+  update: () => {},
+};
+
+export class FPSGameApp {
+  private readonly headless: boolean;
+  private readonly ticks: number;
+  private readonly timeStep: number;
+  private readonly headlessMode: GameMode;
+  private readonly onHeadlessComplete: ((summary: HeadlessSummary) => void) | null;
+  private readonly loadAssets: AssetLoader;
+  private lastFrameTime: number | null = null;
+  private assets: Assets = {};
+  private animFrameId = 0;
+  private mutantAnims: MutantAnims = {};
+  private scene!: THREE.Scene;
+  private renderer!: FrameRenderer;
+  // Null when headless; impostors are baked with it
+  private webglRenderer: THREE.WebGLRenderer | null = null;
+  private camera!: THREE.PerspectiveCamera;
+  private listener: THREE.AudioListener | null = null;
+  private stats!: FrameStats;
+  private physicsWorld!: Ammo.btDiscreteDynamicsWorld;
+  // What the world was built from, destroyed after it (world first)
+  private physicsParts: unknown[] = [];
+  private readonly physicsClock = new FixedTimestep(CONFIG.physics.fixedStep, CONFIG.physics.maxSubsteps);
+  private entityManager!: EntityManager;
+
+  constructor(loadAssets: AssetLoader, options: FPSGameOptions = {}) {
+    this.loadAssets = loadAssets;
+    this.headless = options.headless ?? false;
+    this.ticks = options.ticks ?? DEFAULT_HEADLESS_TICKS;
+    this.timeStep = options.timeStep ?? DEFAULT_HEADLESS_TIMESTEP;
+    this.headlessMode = options.mode ?? 'freeroam';
+    this.onHeadlessComplete = options.onHeadlessComplete ?? null;
+
+    AmmoHelper.Init(() => {
+      this.Init();
+    }, 1);
+  }
+
+  Init(): void {
+    if (this.headless) {
+      this.SetupHeadlessGraphics();
+      this.LoadAssets().then(() => {
+        this.BeginGame(null, this.headlessMode);
+        const summary = this.RunHeadless(this.ticks, this.timeStep);
+        this.onHeadlessComplete?.(summary);
+      });
+      return;
+    }
+
+    this.LoadAssets();
+    this.SetupGraphics();
+    this.SetupStartButton();
+  }
+
+  SetupGraphics(): void {
+    this.scene = new THREE.Scene();
+    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    renderer.shadowMap.enabled = true;
+    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+
+    renderer.toneMapping = THREE.ReinhardToneMapping;
+    renderer.toneMappingExposure = 1;
+    // Use outputEncoding for compatibility with three.js versions before r152
+    (renderer as any).outputEncoding = (THREE as any).sRGBEncoding;
+    this.renderer = renderer;
+    this.webglRenderer = renderer;
+
+    this.camera = new THREE.PerspectiveCamera();
+    this.camera.near = 0.01;
+
+    // create an AudioListener and add it to the camera
+    this.listener = new THREE.AudioListener();
+    this.camera.add(this.listener);
+
+    // renderer
+    renderer.setPixelRatio(window.devicePixelRatio);
+
+    this.WindowResizeHanlder();
+    window.addEventListener('resize', this.WindowResizeHanlder);
+
+    document.body.appendChild(renderer.domElement);
+
+    // Stats.js
+    const stats = new Stats();
+    document.body.appendChild(stats.dom);
+    this.stats = stats;
+  }
+
+  /**
+   * Headless graphics: scene and camera only.
+   * Renderer and stats are no-ops and no audio listener is created.
+   */
+  SetupHeadlessGraphics(): void {
+    this.scene = new THREE.Scene();
+    this.renderer = headlessRenderer;
+    this.stats = headlessStats;
+
+    this.camera = new THREE.PerspectiveCamera();
+    this.camera.near = 0.01;
+  }
+
+  SetupPhysics(): void {
+    // Physics configuration
+    const collisionConfiguration = new Ammo.btDefaultCollisionConfiguration();
+    const dispatcher = new Ammo.btCollisionDispatcher(collisionConfiguration);
+    const broadphase = new Ammo.btDbvtBroadphase();
+    const solver = new Ammo.btSequentialImpulseConstraintSolver();
+    this.physicsWorld = new Ammo.btDiscreteDynamicsWorld(
+      dispatcher,
+      broadphase,
+      solver,
+      collisionConfiguration
+    );
+    this.physicsParts = [solver, broadphase, dispatcher, collisionConfiguration];
+
+    const gravity = new Ammo.btVector3(0.0, -9.81, 0.0);
+    this.physicsWorld.setGravity(gravity);
+    Ammo.destroy(gravity);
+    // Note: Ammo.addFunction and getOverlappingPairCache not available in ammo.js 0.0.10
+    // Ghost pair callback disabled - using raycast collision detection instead
+
+    // Physics debug drawer
+    // this.debugDrawer = new DebugDrawer(this.scene, this.physicsWorld);
+    // this.debugDrawer.enable();
+  }
+
+  SetAnim(name: string, obj: THREE.Group): void {
+    const clip = obj.animations[0];
+    this.mutantAnims[name] = clip;
+  }
+
+  OnProgress(p: number): void {
+    if (this.headless) return;
+    const progressbar = document.getElementById('progress');
+    if (progressbar) {
+      progressbar.style.width = `${p}%`;
+    }
+  }
+
+  HideProgress(): void {
+    this.OnProgress(0);
+  }
+
+  SetupStartButton(): void {
+    const startBtn = document.getElementById('start_game');
+    if (startBtn) {
+      startBtn.addEventListener('click', this.StartGame);
+    }
+
+    const waveBtn = document.getElementById('wave_game');
+    if (waveBtn) {
+      waveBtn.addEventListener('click', this.StartWaveGame);
+    }
+
+    const huntBtn = document.getElementById('hunt_game');
+    if (huntBtn) {
+      huntBtn.addEventListener('click', this.StartHuntGame);
+    }
+
+    const continueBtn = document.getElementById('continue_game');
+    if (continueBtn) {
+      continueBtn.addEventListener('click', this.ContinueGame);
+    }
+
+    // Game-over overlay
+    const respawnBtn = document.getElementById('respawn_button');
+    if (respawnBtn) {
+      respawnBtn.addEventListener('click', this.RespawnPlayer);
+    }
+
+    const menuBtn = document.getElementById('menu_button');
+    if (menuBtn) {
+      menuBtn.addEventListener('click', this.ReturnToMenu);
+    }
+
+    // Hunt-over overlay
+    const huntSubmitBtn = document.getElementById('hunt_submit');
+    if (huntSubmitBtn) {
+      huntSubmitBtn.addEventListener('click', this.SubmitHuntScore);
+    }
+
+    const huntMenuBtn = document.getElementById('hunt_menu_button');
+    if (huntMenuBtn) {
+      huntMenuBtn.addEventListener('click', this.ReturnToMenu);
+    }
+  }
+
+  ShowMenu(visible = true): void {
+    if (this.headless) return;
+    const menu = document.getElementById('menu');
+    if (menu) {
+      menu.style.visibility = visible ? 'visible' : 'hidden';
+    }
+
+    // Only offer Continue when there is a loadable save
+    const continueBtn = document.getElementById('continue_game');
+    if (continueBtn) {
+      continueBtn.style.display = visible && hasSave() ? 'inline-block' : 'none';
+    }
+  }
+
+  async LoadAssets(): Promise<void> {
+    this.assets = await this.loadAssets(this.OnProgress.bind(this));
+
+    // Extract mutant anims
+    this.SetAnim('idle', this.assets['idleAnim']);
+    this.SetAnim('walk', this.assets['walkAnim']);
+    this.SetAnim('run', this.assets['runAnim']);
+    this.SetAnim('attack', this.assets['attackAnim']);
+    this.SetAnim('die', this.assets['dieAnim']);
+
+    this.HideProgress();
+    this.ShowMenu();
+  }
+
+  EntitySetup(seed: number = resolveSeed(), mode: GameMode = 'freeroam'): void {
+    this.entityManager = new EntityManager();
+
+    // Level entity with seeded RNG, terrain, biomes, lighting, navmesh, and tile manager
+    const levelEntity = new Entity();
+    levelEntity.SetName('Level');
+    levelEntity.AddComponent(new LevelRandom(seed));
+    const terrain = new Terrain(seed);
+    levelEntity.AddComponent(terrain);
+    levelEntity.AddComponent(new Biomes(seed));
+    levelEntity.AddComponent(new WorldClock());
+    levelEntity.AddComponent(new ForestLighting(this.scene));
+    levelEntity.AddComponent(new Sky(this.scene));
+    levelEntity.AddComponent(new Weather(this.scene));
+    levelEntity.AddComponent(new Water(this.scene));
+    levelEntity.AddComponent(new Impostors(this.webglRenderer));
+    levelEntity.AddComponent(
+      new PropInstances(this.scene, {
+        tree1: this.assets.tree1,
+        tree2: this.assets.tree2,
+        grassBush: this.assets.grassBush,
+        rock: this.assets.rock,
+      })
+    );
+    if (this.assets.decalColor && this.assets.decalNormal && this.assets.decalAlpha) {
+      levelEntity.AddComponent(
+        new LevelBulletDecals(this.scene, this.assets.decalColor, this.assets.decalNormal, this.assets.decalAlpha)
+      );
+    }
+    levelEntity.AddComponent(new ForestNavmesh());
+    // In Wave mode animals come from the wave director, not from tiles.
+    // Headless runs generate tiles inline, as they never yield to a worker.
+    levelEntity.AddComponent(
+      new TileManager(
+        this.scene, this.physicsWorld, this.assets, this.entityManager, mode !== 'wave', this.mutantAnims, !this.headless
+      )
+    );
+    this.entityManager.Add(levelEntity);
+
+    // Player spawns at center of forest
+    const playerEntity = new Entity();
+    playerEntity.SetName('Player');
+    playerEntity.AddComponent(new PlayerPhysics(this.physicsWorld, Ammo));
+    playerEntity.AddComponent(new PlayerControls(this.camera, this.scene));
+    // Pass all weapon assets to Weapon component
+    const weaponAssets = {
+      pistol: this.assets['pistol'],
+      smg: this.assets['smg'],
+      assaultRifle: this.assets['assaultRifle'],
+      smg2: this.assets['smg2'],
+      minigun: this.assets['minigun'],
+      shotgun: this.assets['shotgun'],
+      grenadeLauncher: this.assets['grenadeLauncher'],
+    };
+    playerEntity.AddComponent(
+      new Weapon(
+        this.camera,
+        weaponAssets,
+        this.assets['muzzleFlash'],
+        this.physicsWorld,
+        this.assets['ak47Shot'],
+        this.listener
+      )
+    );
+    playerEntity.AddComponent(new PlayerHealth());
+    playerEntity.AddComponent(new PickupCollector());
+    playerEntity.SetPosition(new THREE.Vector3(0, 1.5, 0));
+    this.entityManager.Add(playerEntity);
+
+    const uimanagerEntity = new Entity();
+    uimanagerEntity.SetName('UIManager');
+    if (this.headless) {
+      uimanagerEntity.AddComponent(new HeadlessUIManager());
+      uimanagerEntity.AddComponent(new HeadlessMiniMap());
+    } else {
+      uimanagerEntity.AddComponent(new UIManager());
+      uimanagerEntity.AddComponent(new MiniMap());
+    }
+    this.entityManager.Add(uimanagerEntity);
+
+    // Game Manager for score tracking and weapon progression
+    const gameManagerEntity = new Entity();
+    gameManagerEntity.SetName('GameManager');
+    gameManagerEntity.AddComponent(new GameManager(mode));
+    if (!this.headless) {
+      gameManagerEntity.AddComponent(new SaveManager());
+    }
+    this.entityManager.Add(gameManagerEntity);
+
+    // Spawn Manager for rabbits and foxes
+    const spawnManagerEntity = new Entity();
+    spawnManagerEntity.SetName('SpawnManager');
+    spawnManagerEntity.AddComponent(new SpawnManager(this.scene, this.physicsWorld, this.assets, this.mutantAnims));
+    if (mode === 'wave') {
+      spawnManagerEntity.AddComponent(new WaveDirector());
+    }
+    this.entityManager.Add(spawnManagerEntity);
+
+    const ammoLocations = [
+      [15, 0.0, 15],
+      [-15, 0.0, -15],
+      [20, 0.0, -10],
+    ];
+
+    ammoLocations.forEach((loc, i) => {
+      const box = new Entity();
+      box.SetName(`AmmoBox${i}`);
+      box.AddComponent(
+        new AmmoBox(
+          this.scene,
+          this.assets['ammobox'].clone(),
+          this.assets['ammoboxShape'],
+          this.physicsWorld
+        )
+      );
+      box.SetPosition(new THREE.Vector3(loc[0], loc[1] + terrain.GetHeight(loc[0], loc[2]), loc[2]));
+      this.entityManager.Add(box);
+    });
+
+    this.entityManager.EndSetup();
+
+    this.scene.add(this.camera);
+    // Headless runs are stepped by RunHeadless instead of the frame loop
+    if (!this.headless) {
+      this.animFrameId = window.requestAnimationFrame(this.OnAnimationFrameHandler);
+    }
+  }
+
+  StartGame = (): void => {
+    // A new run replaces the previous save
+    clearSave();
+    this.BeginGame(null, 'freeroam');
+  };
+
+  StartWaveGame = (): void => {
+    clearSave();
+    this.BeginGame(null, 'wave');
+  };
+
+  StartHuntGame = (): void => {
+    clearSave();
+    this.BeginGame(null, 'hunt');
+  };
+
+  ContinueGame = (): void => {
+    const snapshot = readSave();
+    if (!snapshot) {
+      this.ShowMenu();
+      return;
+    }
+    this.BeginGame(snapshot, snapshot.mode ?? 'freeroam');
+  };
+
+  RespawnPlayer = (): void => {
+    const gameManager = this.entityManager?.Get('GameManager')?.GetComponent('GameManager') as
+      | { Respawn(): void }
+      | undefined;
+    gameManager?.Respawn();
+  };
+
+  SubmitHuntScore = (): void => {
+    const input = document.getElementById('hunt_name') as HTMLInputElement | null;
+    const gameManager = this.entityManager?.Get('GameManager')?.GetComponent('GameManager') as
+      | { SubmitHuntScore(name: string): void }
+      | undefined;
+    gameManager?.SubmitHuntScore(input?.value ?? '');
+  };
+
+  ReturnToMenu = (): void => {
+    window.cancelAnimationFrame(this.animFrameId);
+
+    // The run is over - nothing to continue
+    clearSave();
+
+    // Tear down entities so their DOM/window listeners are released
+    [...this.entityManager.GetAll()].forEach((entity) => this.entityManager.Remove(entity));
+    this.ClearWorld();
+
+    this.ShowMenu();
+  };
+
+  /**
+   * Empty the scene and swap in a fresh physics world, so nothing from the
+   * last run stays behind the menu or leaks into the next one.
+   */
+  ClearWorld(): void {
+    this.scene.clear();
+    if (this.physicsWorld) {
+      Ammo.destroy(this.physicsWorld);
+      this.physicsParts.forEach((part) => Ammo.destroy(part));
+    }
+    this.SetupPhysics();
+  }
+
+  BeginGame(snapshot: SaveSnapshot | null, mode: GameMode): void {
+    if (!this.headless) {
+      window.cancelAnimationFrame(this.animFrameId);
+    }
+    Input.ClearEventListners();
+
+    // Create entities and physics; time left over from the last run is
+    // not stepped into the new world
+    this.ClearWorld();
+    this.physicsClock.reset();
+    this.EntitySetup(snapshot?.seed ?? undefined, mode);
+
+    // Restore saved state once every component is initialized
+    if (snapshot) {
+      applySnapshot(this.entityManager, snapshot);
+    }
+
+    this.ShowMenu(false);
+  }
+
+  // resize
+  WindowResizeHanlder = (): void => {
+    const { innerHeight, innerWidth } = window;
+    this.renderer.setSize(innerWidth, innerHeight);
+    this.camera.aspect = innerWidth / innerHeight;
+    this.camera.updateProjectionMatrix();
+  };
+
+  // render loop
+  OnAnimationFrameHandler = (t: number): void => {
+    if (this.lastFrameTime === null) {
+      this.lastFrameTime = t;
+    }
+
+    const delta = t - this.lastFrameTime;
+    let timeElapsed = Math.min(1.0 / 30.0, delta * 0.001);
+    this.Step(timeElapsed);
+    this.lastFrameTime = t;
+
+    this.animFrameId = window.requestAnimationFrame(this.OnAnimationFrameHandler);
+  };
+
+  /**
+   * One fixed physics tick: advance the world by exactly one step, then
+   * let components react to it (ground contacts, triggers).
+   */
+  PhysicsUpdate = (timeStep: number): void => {
+    this.physicsWorld.stepSimulation(timeStep, 0);
+    this.entityManager.PhysicsUpdate(this.physicsWorld, timeStep);
+  };
+
+  Step(elapsedTime: number): void {
+    this.physicsClock.advance(elapsedTime, this.PhysicsUpdate);
+    this.entityManager.Interpolate(this.physicsClock.alpha);
+    // this.debugDrawer.update();
+
+    this.entityManager.Update(elapsedTime);
+
+    this.renderer.render(this.scene, this.camera);
+    this.stats.update();
+  }
+
+  /**
+   * Step the game at a fixed timestep for a number of ticks.
+   * Used by headless mode to run the simulation without a frame loop.
+   */
+  RunHeadless(ticks: number, timeStep: number): HeadlessSummary {
+    console.log(`Starting headless run for ${ticks} ticks (dt=${timeStep.toFixed(4)}s).`);
+    const startTime = performance.now();
+
+    for (let i = 0; i < ticks; i++) {
+      this.Step(timeStep);
+    }
+
+    const duration = (performance.now() - startTime) / 1000;
+    console.log(`Headless run completed in ${duration.toFixed(2)}s`);
+    console.log(`Ticks per second: ${(ticks / Math.max(duration, 0.001)).toFixed(0)}`);
+    console.log(`Entities alive: ${this.entityManager.count}`);
+
+    return { ticks, duration, entities: this.entityManager.count };
+  }
+}
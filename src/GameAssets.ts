@@ -0,0 +1,237 @@
+/**
+ * Game Assets
+ *
+ * The models, textures and sounds the game loads at startup, plus the
+ * models prefabs.json declares. Only the
+ * browser entry imports this module: the three.js loaders need a DOM, so
+ * the Node runner (headless.ts) hands FPSGameApp placeholders instead.
+ */
+
+import * as THREE from 'three';
+import { createConvexHullShape } from './core/AmmoLib';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
+import { getPrefabAssetUrls } from './config/prefabs.config';
+
+import mutant from './assets/animations/mutant.fbx';
+import idleAnim from './assets/animations/mutant breathing idle.fbx';
+import attackAnim from './assets/animations/mutant punch.fbx';
+import walkAnim from './assets/animations/mutant walking.fbx';
+import runAnim from './assets/animations/mutant run.fbx';
+import dieAnim from './assets/animations/mutant dying.fbx';
+
+// Weapon models
+import pistol from '../public/models/weapons/pistol.glb';
+import smg from '../public/models/weapons/smg.glb';
+import assaultRifle from '../public/models/weapons/assault_rifle.glb';
+import smg2 from '../public/models/weapons/smg2.glb';
+import muzzleFlash from './assets/muzzle_flash.glb';
+// Legacy AK47 for backwards compat
+import ak47 from './assets/guns/ak47/ak47.glb';
+// New weapons
+import minigun from './assets/minigun.glb';
+import shotgun from './assets/shotgun.glb';
+import grenadeLauncher from './assets/grenade_launcher.glb';
+
+// Environment models
+import tree1 from './assets/tree1.glb';
+import tree2 from './assets/tree2.glb';
+import grassBush from './assets/grass_bush.glb';
+import rock from './assets/rock.glb';
+// Shot sound
+import ak47Shot from './assets/sounds/ak47_shot.wav';
+
+// Dinosaurs
+import trex from './assets/dinos/Trex.fbx';
+import apatosaurus from './assets/dinos/Apatosaurus.fbx';
+
+// Ammo box
+import ammobox from './assets/ammo/AmmoBox.fbx';
+import ammoboxTexD from './assets/ammo/AmmoBox_D.tga.png';
+import ammoboxTexN from './assets/ammo/AmmoBox_N.tga.png';
+import ammoboxTexM from './assets/ammo/AmmoBox_M.tga.png';
+import ammoboxTexR from './assets/ammo/AmmoBox_R.tga.png';
+import ammoboxTexAO from './assets/ammo/AmmoBox_AO.tga.png';
+
+// Bullet Decal
+import decalColor from './assets/decals/decal_c.jpg';
+import decalNormal from './assets/decals/decal_n.jpg';
+import decalAlpha from './assets/decals/decal_a.jpg';
+
+// Sky
+import skyTex from './assets/sky.jpg';
+
+// Ground
+import grass from './assets/grass.png';
+
+export interface Assets {
+  rabbit?: any;
+  fox?: any;
+  mutant?: THREE.Group;
+  idleAnim?: THREE.Group;
+  walkAnim?: THREE.Group;
+  runAnim?: THREE.Group;
+  attackAnim?: THREE.Group;
+  dieAnim?: THREE.Group;
+  pistol?: THREE.Object3D;
+  smg?: THREE.Object3D;
+  assaultRifle?: THREE.Object3D;
+  smg2?: THREE.Object3D;
+  ak47?: any;
+  minigun?: THREE.Object3D;
+  shotgun?: THREE.Object3D;
+  grenadeLauncher?: THREE.Object3D;
+  muzzleFlash?: THREE.Object3D;
+  ak47Shot?: AudioBuffer;
+  trex?: THREE.Group;
+  apatosaurus?: THREE.Group;
+  ammobox?: THREE.Group;
+  ammoboxTexD?: THREE.Texture;
+  ammoboxTexN?: THREE.Texture;
+  ammoboxTexM?: THREE.Texture;
+  ammoboxTexR?: THREE.Texture;
+  ammoboxTexAO?: THREE.Texture;
+  decalColor?: THREE.Texture;
+  decalNormal?: THREE.Texture;
+  decalAlpha?: THREE.Texture;
+  skyTex?: THREE.Texture;
+  ammoboxShape?: Ammo.btConvexHullShape;
+  // Environment models
+  tree1?: THREE.Object3D;
+  tree2?: THREE.Object3D;
+  grassBush?: THREE.Object3D;
+  rock?: THREE.Object3D;
+  // Ground texture
+  grass?: THREE.Texture;
+  [key: string]: any;
+}
+
+function promiseProgress(
+  proms: Promise<any>[],
+  progress_cb: (percent: number) => void
+): Promise<any[]> {
+  let d = 0;
+  progress_cb(0);
+  for (const p of proms) {
+    p.then(() => {
+      d++;
+      progress_cb((d / proms.length) * 100);
+    });
+  }
+  return Promise.all(proms);
+}
+
+function addAsset<T>(
+  assets: Assets,
+  asset: string,
+  loader: { loadAsync: (url: string) => Promise<T> },
+  name: string
+): Promise<void> {
+  return loader.loadAsync(asset).then((result) => {
+    assets[name] = result;
+  });
+}
+
+/**
+ * Load every asset, reporting progress in percent. Model scenes are
+ * extracted and the ammo box is dressed and given its collision shape.
+ */
+export async function loadGameAssets(onProgress: (percent: number) => void): Promise<Assets> {
+  const gltfLoader = new GLTFLoader();
+  const fbxLoader = new FBXLoader();
+  const audioLoader = new THREE.AudioLoader();
+  const texLoader = new THREE.TextureLoader();
+  const assets: Assets = {};
+  const promises: Promise<void>[] = [];
+
+  // Animal models declared in prefabs.json (rabbit, fox and modded ones)
+  for (const [key, url] of Object.entries(getPrefabAssetUrls())) {
+    promises.push(/\.fbx$/i.test(url)
+      ? addAsset(assets, url, fbxLoader, key)
+      : addAsset(assets, url, gltfLoader, key));
+  }
+  // Mutant
+  promises.push(addAsset(assets, mutant, fbxLoader, 'mutant'));
+  promises.push(addAsset(assets, idleAnim, fbxLoader, 'idleAnim'));
+  promises.push(addAsset(assets, walkAnim, fbxLoader, 'walkAnim'));
+  promises.push(addAsset(assets, runAnim, fbxLoader, 'runAnim'));
+  promises.push(addAsset(assets, attackAnim, fbxLoader, 'attackAnim'));
+  promises.push(addAsset(assets, dieAnim, fbxLoader, 'dieAnim'));
+  // Dinosaurs
+  promises.push(addAsset(assets, trex, fbxLoader, 'trex'));
+  promises.push(addAsset(assets, apatosaurus, fbxLoader, 'apatosaurus'));
+  // Weapons
+  promises.push(addAsset(assets, pistol, gltfLoader, 'pistol'));
+  promises.push(addAsset(assets, smg, gltfLoader, 'smg'));
+  promises.push(addAsset(assets, assaultRifle, gltfLoader, 'assaultRifle'));
+  promises.push(addAsset(assets, smg2, gltfLoader, 'smg2'));
+  promises.push(addAsset(assets, ak47, gltfLoader, 'ak47')); // Legacy
+  promises.push(addAsset(assets, minigun, gltfLoader, 'minigun'));
+  promises.push(addAsset(assets, shotgun, gltfLoader, 'shotgun'));
+  promises.push(addAsset(assets, grenadeLauncher, gltfLoader, 'grenadeLauncher'));
+  promises.push(addAsset(assets, muzzleFlash, gltfLoader, 'muzzleFlash'));
+  // Environment models
+  promises.push(addAsset(assets, tree1, gltfLoader, 'tree1'));
+  promises.push(addAsset(assets, tree2, gltfLoader, 'tree2'));
+  promises.push(addAsset(assets, grassBush, gltfLoader, 'grassBush'));
+  promises.push(addAsset(assets, rock, gltfLoader, 'rock'));
+  promises.push(addAsset(assets, ak47Shot, audioLoader, 'ak47Shot'));
+  // Ammo box
+  promises.push(addAsset(assets, ammobox, fbxLoader, 'ammobox'));
+  promises.push(addAsset(assets, ammoboxTexD, texLoader, 'ammoboxTexD'));
+  promises.push(addAsset(assets, ammoboxTexN, texLoader, 'ammoboxTexN'));
+  promises.push(addAsset(assets, ammoboxTexM, texLoader, 'ammoboxTexM'));
+  promises.push(addAsset(assets, ammoboxTexR, texLoader, 'ammoboxTexR'));
+  promises.push(addAsset(assets, ammoboxTexAO, texLoader, 'ammoboxTexAO'));
+  // Decal
+  promises.push(addAsset(assets, decalColor, texLoader, 'decalColor'));
+  promises.push(addAsset(assets, decalNormal, texLoader, 'decalNormal'));
+  promises.push(addAsset(assets, decalAlpha, texLoader, 'decalAlpha'));
+
+  promises.push(addAsset(assets, skyTex, texLoader, 'skyTex'));
+  promises.push(addAsset(assets, grass, texLoader, 'grass'));
+
+  await promiseProgress(promises, onProgress);
+
+  assets['muzzleFlash'] = assets['muzzleFlash'].scene;
+
+  // Extract weapon scenes
+  assets['pistol'] = assets['pistol'].scene;
+  assets['smg'] = assets['smg'].scene;
+  assets['assaultRifle'] = assets['assaultRifle'].scene;
+  assets['smg2'] = assets['smg2'].scene;
+  assets['minigun'] = assets['minigun'].scene;
+  assets['shotgun'] = assets['shotgun'].scene;
+  assets['grenadeLauncher'] = assets['grenadeLauncher'].scene;
+
+  // Extract environment model scenes
+  assets['tree1'] = assets['tree1'].scene;
+  assets['tree2'] = assets['tree2'].scene;
+  assets['grassBush'] = assets['grassBush'].scene;
+  assets['rock'] = assets['rock'].scene;
+
+  assets['ak47'].scene.animations = assets['ak47'].animations;
+
+  // Set ammo box textures and other props
+  assets['ammobox'].scale.set(0.01, 0.01, 0.01);
+  assets['ammobox'].traverse((child) => {
+    child.castShadow = true;
+    child.receiveShadow = true;
+
+    if ((child as THREE.Mesh).isMesh) {
+      (child as THREE.Mesh).material = new THREE.MeshStandardMaterial({
+        map: assets['ammoboxTexD'],
+        aoMap: assets['ammoboxTexAO'],
+        normalMap: assets['ammoboxTexN'],
+        metalness: 1,
+        metalnessMap: assets['ammoboxTexM'],
+        roughnessMap: assets['ammoboxTexR'],
+        color: new THREE.Color(0.4, 0.4, 0.4),
+      });
+    }
+  });
+
+  assets['ammoboxShape'] = createConvexHullShape(assets['ammobox']);
+
+  return assets;
+}
@@ -9,8 +9,9 @@
 import type {
   EntityAnimationConfig,
   AnimationActionName,
+  AnimalType,
 } from '../types/animation.types';
-import type { AnimalConfig, BehaviorConfig } from '../types/entity.types';
+import type { AnimalConfig, BehaviorConfig, ActivityCurve } from '../types/entity.types';
 
 // ============================================================================
 // RABBIT CONFIGURATION
@@ -58,6 +59,10 @@ export const RABBIT_ENTITY_CONFIG: AnimalConfig = {
   baseScale: 0.35,
   colliderRadius: 0.8,
   colliderYOffset: 0.3,
+  scoreValue: 10,
+  hitZones: [
+    { zone: 'head', min: { y: 0.6, z: 0.2 }, multiplier: 2.0 },
+  ],
 };
 
 /**
@@ -125,6 +130,11 @@ export const FOX_ENTITY_CONFIG: AnimalConfig = {
   baseScale: 0.35,
   colliderRadius: 0.8,
   colliderYOffset: 0.2,
+  scoreValue: 25,
+  hitZones: [
+    { zone: 'head', min: { y: 0.55, z: 0.25 }, multiplier: 2.0 },
+    { zone: 'legs', max: { y: 0.2 }, multiplier: 0.75 },
+  ],
 };
 
 /**
@@ -168,7 +178,7 @@ export const MUTANT_ANIMATION_CONFIG: EntityAnimationConfig<'mutant'> = {
  * Mutant entity configuration.
  */
 export const MUTANT_ENTITY_CONFIG: AnimalConfig = {
-  name: 'CharacterController',
+  name: 'MutantController',
   animalType: 'mutant',
   health: 100,
   maxHealth: 100,
@@ -176,6 +186,11 @@ export const MUTANT_ENTITY_CONFIG: AnimalConfig = {
   baseScale: 0.01,
   colliderRadius: 0.5,
   colliderYOffset: 1.0,
+  scoreValue: 40,
+  hitZones: [
+    { zone: 'head', min: { y: 1.3 }, multiplier: 2.5 },
+    { zone: 'legs', max: { y: 0.7 }, multiplier: 0.75 },
+  ],
 };
 
 /**
@@ -185,7 +200,7 @@ export const MUTANT_BEHAVIOR_CONFIG: BehaviorConfig = {
   type: 'predator',
   viewDistance: 20.0,
   attackDistance: 2.2,
-  attackDamage: 25,
+  attackDamage: 10,
   chaseSpeed: 0.015,
 };
 
@@ -243,6 +258,13 @@ export const TREX_ENTITY_CONFIG: AnimalConfig = {
   colliderYOffset: 1.5,
   healthBarYOffset: 4.0,
   healthBarScale: 3.0,
+  scoreValue: 100,
+  hitZones: [
+    { zone: 'head', min: { y: 5.0, z: 2.0 }, multiplier: 2.0 },
+    { zone: 'legs', max: { y: 2.0 }, multiplier: 0.5 },
+  ],
+  armor: 2, // Thick hide shrugs off pellets
+  resistances: { explosion: 0.75 },
 };
 
 /**
@@ -307,6 +329,12 @@ export const APATOSAURUS_ENTITY_CONFIG: AnimalConfig = {
   colliderYOffset: 1.0,
   healthBarYOffset: 6.0,
   healthBarScale: 4.0,
+  scoreValue: 50,
+  hitZones: [
+    { zone: 'head', min: { y: 5.0, z: 3.0 }, multiplier: 2.5 },
+    { zone: 'legs', max: { y: 2.5 }, multiplier: 0.5 },
+  ],
+  resistances: { bullet: 0.8 },
 };
 
 /**
@@ -355,6 +383,52 @@ export const BEHAVIOR_CONFIGS = {
   apatosaurus: APATOSAURUS_BEHAVIOR_CONFIG,
 } as const;
 
+/**
+ * Activity by hour of day. Controllers rest instead of roaming when
+ * activity is low, and tiles roll more of an animal when it is high.
+ */
+export const ACTIVITY_CURVES: Record<AnimalType, ActivityCurve> = {
+  // Most active at dawn and late afternoon, asleep at night
+  rabbit: [
+    { hour: 0, level: 0.1 },
+    { hour: 5, level: 0.5 },
+    { hour: 7, level: 1.2 },
+    { hour: 12, level: 1.0 },
+    { hour: 18, level: 1.2 },
+    { hour: 20, level: 0.5 },
+    { hour: 22, level: 0.1 },
+  ],
+  // Hunts at dusk
+  fox: [
+    { hour: 0, level: 0.8 },
+    { hour: 6, level: 0.8 },
+    { hour: 12, level: 0.5 },
+    { hour: 17, level: 1.2 },
+    { hour: 19, level: 2.0 },
+    { hour: 21, level: 1.5 },
+  ],
+  // Nocturnal
+  mutant: [
+    { hour: 0, level: 1.5 },
+    { hour: 6, level: 0.8 },
+    { hour: 12, level: 0.5 },
+    { hour: 18, level: 0.8 },
+    { hour: 22, level: 1.5 },
+  ],
+  trex: [
+    { hour: 0, level: 0.4 },
+    { hour: 8, level: 1.0 },
+    { hour: 18, level: 1.0 },
+    { hour: 22, level: 0.4 },
+  ],
+  apatosaurus: [
+    { hour: 0, level: 0.3 },
+    { hour: 7, level: 1.0 },
+    { hour: 19, level: 1.0 },
+    { hour: 22, level: 0.3 },
+  ],
+};
+
 // ============================================================================
 // TYPE EXPORTS
 // ============================================================================
@@ -386,3 +460,23 @@ export function getEntityConfig(type: ConfiguredAnimalType): AnimalConfig {
 export function getBehaviorConfig(type: ConfiguredAnimalType): BehaviorConfig {
   return BEHAVIOR_CONFIGS[type];
 }
+
+/**
+ * Get an animal's activity level at an hour of day (linear between keys).
+ */
+export function getActivityLevel(type: AnimalType, hour: number): number {
+  // Prefab spawn tables name curves in JSON, so the type may be unknown
+  const curve = ACTIVITY_CURVES[type] ?? [];
+  if (curve.length === 0) return 1;
+
+  const h = ((hour % 24) + 24) % 24;
+  let next = curve.findIndex((key) => key.hour > h);
+  if (next === -1) next = 0;
+  const prev = (next - 1 + curve.length) % curve.length;
+
+  const a = curve[prev];
+  const b = curve[next];
+  const span = (b.hour - a.hour + 24) % 24 || 24;
+  const t = ((h - a.hour + 24) % 24) / span;
+  return a.level + (b.level - a.level) * t;
+}
@@ -0,0 +1,121 @@
+/**
+ * Biome Configuration
+ *
+ * Biomes stretch across several tiles and are picked from a low-frequency
+ * "climate" (moisture and ruggedness noise) over world coordinates. Each
+ * biome sits at a point in climate space; a position's mix of biomes
+ * falls off with distance from those points, which is what blends props,
+ * spawns, ground colour and light at the borders. Spawn rates per biome
+ * are part of each prefab's spawn table (prefabs.json).
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BiomeType = 'forest' | 'meadow' | 'badlands' | 'dinoValley';
+
+/** Inclusive count range per tile */
+export interface CountRange {
+  readonly min: number;
+  readonly max: number;
+}
+
+/** Chance per tile of each weapon pickup; at most one weapon is placed */
+export interface WeaponPickupChances {
+  readonly ak47: number;
+  readonly gatling: number;
+  readonly nuke: number;
+}
+
+export interface BiomeDefinition {
+  /** Where the biome sits in climate space, each axis -1..1 */
+  readonly moisture: number;
+  readonly ruggedness: number;
+
+  /** Ground colour multiplied over the grass texture */
+  readonly groundColor: number;
+
+  /** Multiplier on the sun and sky light colours */
+  readonly lightTint: number;
+
+  /** Props per tile */
+  readonly trees: CountRange;
+  readonly bushes: CountRange;
+  readonly rocks: CountRange;
+
+  /** Chance that a tree is the tall pine (tree2) rather than tree1 */
+  readonly pineChance: number;
+
+  /** Weapon lying on each tile beside the ammo box */
+  readonly weaponPickups: WeaponPickupChances;
+}
+
+export interface BiomeConfig {
+  /** Size of a biome in metres (noise wavelength); tiles are 40 m */
+  readonly wavelength: number;
+
+  /** Climate distance over which neighbouring biomes blend */
+  readonly blendWidth: number;
+
+  readonly biomes: Readonly<Record<BiomeType, BiomeDefinition>>;
+}
+
+// ============================================================================
+// BIOME CONFIG
+// ============================================================================
+
+export const BIOME_CONFIG: BiomeConfig = {
+  wavelength: 240,
+  blendWidth: 0.2,
+  biomes: {
+    // The original tile mix
+    forest: {
+      moisture: 0.4,
+      ruggedness: -0.1,
+      groundColor: 0xffffff,
+      lightTint: 0xf2fff2,
+      trees: { min: 5, max: 8 },
+      bushes: { min: 3, max: 6 },
+      rocks: { min: 1, max: 3 },
+      pineChance: 0.5,
+      weaponPickups: { ak47: 0.25, gatling: 0.12, nuke: 0.03 },
+    },
+    // Open grass, lots of rabbits for the foxes
+    meadow: {
+      moisture: -0.3,
+      ruggedness: -0.6,
+      groundColor: 0xf0ffb0,
+      lightTint: 0xfffbe8,
+      trees: { min: 0, max: 2 },
+      bushes: { min: 8, max: 14 },
+      rocks: { min: 0, max: 1 },
+      pineChance: 0.2,
+      weaponPickups: { ak47: 0.25, gatling: 0.12, nuke: 0.03 },
+    },
+    // Dry and stony; mutants lurk among the rocks
+    badlands: {
+      moisture: -0.5,
+      ruggedness: 0.5,
+      groundColor: 0xc8a878,
+      lightTint: 0xffe8cc,
+      trees: { min: 0, max: 1 },
+      bushes: { min: 0, max: 2 },
+      rocks: { min: 5, max: 9 },
+      pineChance: 0.8,
+      weaponPickups: { ak47: 0.25, gatling: 0.12, nuke: 0.03 },
+    },
+    // Lush lowland where the dinosaurs gather
+    dinoValley: {
+      moisture: 0.5,
+      ruggedness: 0.6,
+      groundColor: 0xc8ffc0,
+      lightTint: 0xf0fff0,
+      trees: { min: 2, max: 4 },
+      bushes: { min: 5, max: 8 },
+      rocks: { min: 2, max: 4 },
+      pineChance: 0.1,
+      weaponPickups: { ak47: 0.25, gatling: 0.12, nuke: 0.03 },
+    },
+  },
+};
@@ -0,0 +1,99 @@
+/**
+ * Day/Night Configuration
+ *
+ * Length of a day and the lighting palette at key hours. The world clock
+ * blends linearly between neighbouring keyframes, wrapping at midnight.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Lighting at one hour of the day (colours as hex) */
+export interface DayKeyframe {
+  /** Hour of day, 0-24 */
+  readonly hour: number;
+
+  /** Sun (or moon, at night) colour and intensity */
+  readonly sunColor: number;
+  readonly sunIntensity: number;
+
+  /** Hemisphere light sky/ground colours and intensity */
+  readonly skyColor: number;
+  readonly groundColor: number;
+  readonly hemiIntensity: number;
+
+  /** Sky dome gradient; the horizon colour is also used for fog and background */
+  readonly zenithColor: number;
+  readonly horizonColor: number;
+}
+
+export interface DayNightConfig {
+  /** Real seconds for a full 24 hour day */
+  readonly dayLength: number;
+
+  /** Hour a new game starts at */
+  readonly startHour: number;
+
+  /** Hours of sunrise and sunset (sun on the horizon) */
+  readonly sunrise: number;
+  readonly sunset: number;
+
+  /** Keyframes sorted by hour */
+  readonly keyframes: readonly DayKeyframe[];
+}
+
+// ============================================================================
+// DAY/NIGHT CONFIG
+// ============================================================================
+
+export const DAY_NIGHT_CONFIG: DayNightConfig = {
+  dayLength: 600,
+  startHour: 9,
+  sunrise: 6,
+  sunset: 18,
+  keyframes: [
+    {
+      hour: 0,
+      sunColor: 0x8fa8ff, sunIntensity: 0.15,
+      skyColor: 0x1b2440, groundColor: 0x0b0f14, hemiIntensity: 0.25,
+      zenithColor: 0x02040c, horizonColor: 0x0b1426,
+    },
+    {
+      hour: 5,
+      sunColor: 0x8fa8ff, sunIntensity: 0.1,
+      skyColor: 0x2a3350, groundColor: 0x111418, hemiIntensity: 0.3,
+      zenithColor: 0x0b1230, horizonColor: 0x2a2f4a,
+    },
+    {
+      hour: 6.5,
+      sunColor: 0xffb070, sunIntensity: 0.6,
+      skyColor: 0x8a9ac0, groundColor: 0x4a3a2a, hemiIntensity: 0.35,
+      zenithColor: 0x3d6cc0, horizonColor: 0xf0a070,
+    },
+    {
+      hour: 9,
+      sunColor: 0xfff4e5, sunIntensity: 1.2,
+      skyColor: 0x6b8cff, groundColor: 0x6b5a3a, hemiIntensity: 0.45,
+      zenithColor: 0x0077ff, horizonColor: 0x87ceeb,
+    },
+    {
+      hour: 16,
+      sunColor: 0xfff4e5, sunIntensity: 1.2,
+      skyColor: 0x6b8cff, groundColor: 0x6b5a3a, hemiIntensity: 0.45,
+      zenithColor: 0x0077ff, horizonColor: 0x87ceeb,
+    },
+    {
+      hour: 18.5,
+      sunColor: 0xff9a50, sunIntensity: 0.7,
+      skyColor: 0x9a8ab0, groundColor: 0x4a3a2a, hemiIntensity: 0.35,
+      zenithColor: 0x30508f, horizonColor: 0xf08a50,
+    },
+    {
+      hour: 20,
+      sunColor: 0x8fa8ff, sunIntensity: 0.12,
+      skyColor: 0x2a3350, groundColor: 0x111418, hemiIntensity: 0.28,
+      zenithColor: 0x0b1230, horizonColor: 0x1d2440,
+    },
+  ],
+};
@@ -0,0 +1,98 @@
+/**
+ * Game Configuration
+ *
+ * Global settings shared by all systems.
+ */
+
+// ============================================================================
+// GAME CONFIG INTERFACE
+// ============================================================================
+
+/**
+ * Selectable game mode.
+ * - freeroam: endless forest, animals come with each tile
+ * - wave: escalating waves from the wave director (see waves.config)
+ * - hunt: score as much as possible before the timer runs out
+ */
+export type GameMode = 'freeroam' | 'wave' | 'hunt';
+
+/** What survives a respawn after death */
+export interface RespawnConfig {
+  /** Keep owned weapons and ammo (otherwise back to the starting weapon) */
+  keepWeapons: boolean;
+
+  /** Keep kills, score and unlocked tiers (otherwise a fresh run) */
+  keepProgress: boolean;
+
+  /** Where the player comes back: a ground position and the height above it */
+  spawnPoint: { x: number; z: number; height: number };
+}
+
+/** Timed Hunt mode settings */
+export interface HuntConfig {
+  /** Length of a hunt in seconds */
+  duration: number;
+
+  /** Number of entries kept on the local leaderboard */
+  leaderboardSize: number;
+
+  /** Maximum length of a leaderboard name */
+  maxNameLength: number;
+}
+
+/** Physics tick settings */
+export interface PhysicsConfig {
+  /** Length of one physics tick in seconds */
+  fixedStep: number;
+
+  /** Most ticks run per frame; a slower frame drops the rest of its time */
+  maxSubsteps: number;
+}
+
+export interface GameConfig {
+  /**
+   * World seed for the Level's random service.
+   * Same seed gives the same forest, spawns and AI decisions.
+   * Set to null to pick a new seed each run.
+   */
+  seed: number | null;
+
+  /** Respawn behaviour after player death */
+  respawn: RespawnConfig;
+
+  /** Hunt mode timer and leaderboard */
+  hunt: HuntConfig;
+
+  /** Fixed physics timestep */
+  physics: PhysicsConfig;
+}
+
+// ============================================================================
+// GAME CONFIG
+// ============================================================================
+
+export const CONFIG: GameConfig = {
+  seed: 12347,
+  respawn: {
+    keepWeapons: false,
+    keepProgress: false,
+    // The run's start point; the terrain is flattened around the origin
+    spawnPoint: { x: 0, z: 0, height: 1.5 },
+  },
+  hunt: {
+    duration: 180,
+    leaderboardSize: 10,
+    maxNameLength: 12,
+  },
+  physics: {
+    fixedStep: 1 / 60,
+    maxSubsteps: 5,
+  },
+};
+
+/**
+ * Resolve the seed for a new run (configured seed or time-based).
+ */
+export function resolveSeed(): number {
+  return CONFIG.seed ?? (Date.now() >>> 0);
+}
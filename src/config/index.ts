@@ -24,6 +24,9 @@ export {
   getAnimationConfig,
   getEntityConfig,
   getBehaviorConfig,
+  // Schedules
+  ACTIVITY_CURVES,
+  getActivityLevel,
   // Types
   type ConfiguredAnimalType,
 } from './animals.config';
@@ -32,17 +35,92 @@ export {
 export {
   WEAPONS,
   WEAPON_TIERS,
-  WEAPON_THRESHOLDS,
+  WEAPON_PROGRESSION,
   WEAPON_ANIMATION_CONFIG,
   getWeaponConfig,
-  getWeaponForKills,
+  isUnlockConditionMet,
+  isWeaponUnlocked,
+  getUnlockedWeapons,
   getAllWeaponKeys,
   isValidWeaponKey,
   // Types
   type WeaponKey,
   type WeaponFireType,
   type WeaponConfig,
+  type WeaponUnlockCondition,
+  type WeaponUnlockRule,
+  type ProgressionStats,
   type WeaponAnimationName,
   type WeaponAnimationConfig,
   type Vector3Like,
 } from './weapons.config';
+
+// Game config
+export {
+  CONFIG,
+  resolveSeed,
+  type GameConfig,
+  type GameMode,
+  type HuntConfig,
+  type RespawnConfig,
+  type PhysicsConfig,
+} from './game.config';
+
+// Scoring config
+export { SCORING_CONFIG, type ScoringConfig } from './scoring.config';
+
+// Wave mode config
+export {
+  WAVE_CONFIG,
+  getWaveDefinition,
+  type WaveAnimalType,
+  type WaveDefinition,
+  type WaveConfig,
+} from './waves.config';
+
+// Day/night config
+export {
+  DAY_NIGHT_CONFIG,
+  type DayKeyframe,
+  type DayNightConfig,
+} from './daynight.config';
+
+// Weather config
+export {
+  WEATHER_CONFIG,
+  type WeatherType,
+  type WeatherEffects,
+  type WeatherConfig,
+} from './weather.config';
+
+// Terrain config
+export { TERRAIN_CONFIG, type TerrainConfig } from './terrain.config';
+
+// Biome config
+export {
+  BIOME_CONFIG,
+  type BiomeType,
+  type BiomeDefinition,
+  type BiomeConfig,
+  type CountRange,
+} from './biomes.config';
+
+// Water config
+export { WATER_CONFIG, type WaterConfig } from './water.config';
+
+// Level of detail config
+export { LOD_CONFIG, type LodConfig } from './lod.config';
+
+// Prefabs
+export {
+  PREFABS,
+  parsePrefabs,
+  getPrefab,
+  getSpawnablePrefabs,
+  getPrefabAssetUrls,
+  type PrefabParam,
+  type PrefabComponent,
+  type PrefabRespawn,
+  type PrefabSpawn,
+  type PrefabDefinition,
+} from './prefabs.config';
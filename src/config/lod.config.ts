@@ -0,0 +1,81 @@
+/**
+ * Level of Detail Configuration
+ *
+ * How many tiles are kept alive around the player and how much each one
+ * costs with distance. Props swap to simplified meshes and then to
+ * camera-facing impostors; animals tick their animation and AI less often
+ * and are drawn as impostors far away.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LodConfig {
+  /** Tiles kept loaded around the player's tile */
+  readonly tiles: {
+    /** Tiles ahead, in the direction the player faces */
+    readonly forwardDepth: number;
+    /** Tiles behind */
+    readonly backDepth: number;
+    /** Tiles to either side */
+    readonly sideWidth: number;
+  };
+
+  /** Trees, bushes and rocks */
+  readonly props: {
+    /** Distance beyond which props use the simplified mesh */
+    readonly simplifiedDistance: number;
+    /** Distance beyond which props are drawn as impostors */
+    readonly impostorDistance: number;
+    /** Grid cells along a model's longest side when simplifying */
+    readonly simplifyCells: number;
+    /** Seconds between re-sorting props into detail levels */
+    readonly refreshInterval: number;
+  };
+
+  /** Animal animation and AI */
+  readonly animals: {
+    /** Animals within this distance update every frame */
+    readonly fullRateRadius: number;
+    /** Seconds between updates beyond the full-rate radius */
+    readonly throttledInterval: number;
+    /** Distance beyond which animals are drawn as impostors */
+    readonly impostorDistance: number;
+    /** Seconds between updates while drawn as an impostor */
+    readonly impostorInterval: number;
+  };
+
+  /** Baked impostor textures */
+  readonly impostor: {
+    /** Texture width and height in pixels */
+    readonly textureSize: number;
+  };
+}
+
+// ============================================================================
+// LOD CONFIG
+// ============================================================================
+
+export const LOD_CONFIG: LodConfig = {
+  tiles: {
+    forwardDepth: 6,
+    backDepth: 3,
+    sideWidth: 3,
+  },
+  props: {
+    simplifiedDistance: 50,
+    impostorDistance: 110,
+    simplifyCells: 12,
+    refreshInterval: 0.5,
+  },
+  animals: {
+    fullRateRadius: 50,
+    throttledInterval: 0.2,
+    impostorDistance: 120,
+    impostorInterval: 1,
+  },
+  impostor: {
+    textureSize: 128,
+  },
+};
@@ -0,0 +1,273 @@
+/**
+ * Prefab Configuration
+ *
+ * Entity archetypes: which components an entity is built from and what
+ * goes into each component's constructor, which models it loads and where
+ * and how often it spawns. The definitions live in prefabs.json so new
+ * archetypes (e.g. another animal on an existing controller and a new
+ * model) need no code; PrefabFactory builds them, the tile generator and
+ * spawn manager read their spawn tables and the asset loader loads their
+ * models. The JSON is checked when this module loads; broken entries are
+ * logged and left out.
+ */
+
+import prefabData from './prefabs.json';
+import { BIOME_CONFIG, type BiomeType } from './biomes.config';
+import type { AnimalType } from '../types/animation.types';
+
+// ============================================================================
+// PREFAB TYPES
+// ============================================================================
+
+/**
+ * One constructor argument. Object forms are resolved when the prefab is
+ * built; anything else is passed through as written.
+ * - { ref }: a value supplied by the spawner (scene, physicsWorld,
+ *   mutantClips, position)
+ * - { arg }: a per-spawn argument, e.g. a pickup's weaponKey
+ * - { model }: a fresh skinned clone of an asset, carrying its animation
+ *   clips unless animations is false
+ * - { asset }: an asset as loaded, shared
+ * - { assets }: several assets as an object keyed by asset key
+ */
+export type PrefabParam =
+  | { readonly ref: string }
+  | { readonly arg: string }
+  | { readonly model: string; readonly animations?: boolean }
+  | { readonly asset: string }
+  | { readonly assets: readonly string[] }
+  | string
+  | number
+  | boolean
+  | null;
+
+/** A component and its constructor arguments */
+export interface PrefabComponent {
+  /** Registered component type (see registerPrefabComponent) */
+  readonly type: string;
+
+  readonly params: readonly PrefabParam[];
+}
+
+/** Respawning through the spawn manager after a death */
+export interface PrefabRespawn {
+  /** Most alive at once from the spawn manager */
+  readonly max: number;
+
+  /** Chance to come back as another prefab instead, by prefab key */
+  readonly as: Readonly<Record<string, number>>;
+}
+
+/** Where and how often a prefab spawns on its own */
+export interface PrefabSpawn {
+  /**
+   * Expected count per tile in each biome; missing biomes are 0. The
+   * fraction is rolled, so 1.5 means one plus a 50% chance of a second.
+   */
+  readonly biomes: Readonly<Partial<Record<BiomeType, number>>>;
+
+  /** Distance kept from the tile edge */
+  readonly margin: number;
+
+  /** Activity curve that scales tile spawns by time of day (none: always 1) */
+  readonly activity?: AnimalType;
+
+  /** Most alive across the loaded tiles (none: uncapped) */
+  readonly tileCap?: number;
+
+  /**
+   * Whether streamed-out tile entities are parked for reuse. Only entities
+   * with an AnimalController can be; others are destroyed regardless.
+   */
+  readonly pooled: boolean;
+
+  /** Respawning after a death (none: not respawned) */
+  readonly respawn?: PrefabRespawn;
+}
+
+/** An entity archetype */
+export interface PrefabDefinition {
+  /** Entity name prefix; spawned entities get a unique suffix */
+  readonly name: string;
+
+  /** Asset keys that must be loaded for the prefab to be built (default: its own assets) */
+  readonly requires: readonly string[];
+
+  /**
+   * Models the prefab brings, by asset key: a URL relative to the page
+   * (files under public/), loaded as FBX for .fbx and glTF otherwise.
+   */
+  readonly assets: Readonly<Record<string, string>>;
+
+  readonly components: readonly PrefabComponent[];
+
+  /** Spawn table entry (none: only spawned on request) */
+  readonly spawn?: PrefabSpawn;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+type JsonObject = Record<string, unknown>;
+
+const PARAM_KEYS = ['ref', 'arg', 'model', 'asset', 'assets'];
+
+const BIOME_TYPES = Object.keys(BIOME_CONFIG.biomes) as BiomeType[];
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/** Why a constructor argument is malformed, or null */
+function paramProblem(param: unknown): string | null {
+  if (!isObject(param)) return null;
+
+  const kind = Object.keys(param).find((key) => PARAM_KEYS.includes(key));
+  if (!kind) {
+    return `parameter ${JSON.stringify(param)} has none of ${PARAM_KEYS.join(', ')}`;
+  }
+  if (kind === 'assets' ? !isStringArray(param.assets) : typeof param[kind] !== 'string') {
+    return `parameter '${kind}' must be ${kind === 'assets' ? 'a list of asset keys' : 'a string'}`;
+  }
+  if (kind === 'model' && param.animations !== undefined && typeof param.animations !== 'boolean') {
+    return "parameter 'animations' must be true or false";
+  }
+  return null;
+}
+
+/** Why a spawn section is malformed, or null */
+function spawnProblem(spawn: unknown): string | null {
+  if (!isObject(spawn)) return 'spawn must be an object';
+
+  if (!isObject(spawn.biomes)) return 'spawn.biomes must map biomes to counts';
+  for (const [biome, count] of Object.entries(spawn.biomes)) {
+    if (!BIOME_TYPES.includes(biome as BiomeType)) return `spawn.biomes: unknown biome '${biome}'`;
+    if (!isCount(count)) return `spawn.biomes.${biome} must be a count`;
+  }
+
+  if (spawn.margin !== undefined && !isCount(spawn.margin)) return 'spawn.margin must be a distance';
+  if (spawn.activity !== undefined && typeof spawn.activity !== 'string') return 'spawn.activity must be an animal type';
+  if (spawn.tileCap !== undefined && !isCount(spawn.tileCap)) return 'spawn.tileCap must be a count';
+  if (spawn.pooled !== undefined && typeof spawn.pooled !== 'boolean') return 'spawn.pooled must be true or false';
+
+  if (spawn.respawn !== undefined) {
+    const respawn = spawn.respawn;
+    if (!isObject(respawn) || !isCount(respawn.max)) return 'spawn.respawn.max must be a count';
+    if (respawn.as !== undefined) {
+      if (!isObject(respawn.as) || !Object.values(respawn.as).every((chance) => isCount(chance) && chance <= 1)) {
+        return 'spawn.respawn.as must map prefab keys to chances (0-1)';
+      }
+    }
+  }
+  return null;
+}
+
+/** Why a prefab entry is malformed, or null */
+function prefabProblem(entry: unknown): string | null {
+  if (!isObject(entry)) return 'not an object';
+  if (typeof entry.name !== 'string' || entry.name === '') return 'name must be a non-empty string';
+  if (entry.requires !== undefined && !isStringArray(entry.requires)) return 'requires must be a list of asset keys';
+
+  if (entry.assets !== undefined) {
+    if (!isObject(entry.assets) || !Object.values(entry.assets).every((url) => typeof url === 'string')) {
+      return 'assets must map asset keys to URLs';
+    }
+  }
+
+  if (!Array.isArray(entry.components) || entry.components.length === 0) return 'components must be a non-empty list';
+  for (const component of entry.components) {
+    if (!isObject(component) || typeof component.type !== 'string') return 'each component needs a type';
+    if (!Array.isArray(component.params)) return `component '${component.type}' needs a params list`;
+    for (const param of component.params) {
+      const problem = paramProblem(param);
+      if (problem) return `component '${component.type}': ${problem}`;
+    }
+  }
+
+  return entry.spawn === undefined ? null : spawnProblem(entry.spawn);
+}
+
+/**
+ * Check prefab JSON and fill in defaults. Malformed entries are logged and
+ * skipped so one broken prefab does not take the others with it.
+ */
+export function parsePrefabs(data: unknown): Record<string, PrefabDefinition> {
+  const prefabs: Record<string, PrefabDefinition> = {};
+  if (!isObject(data)) {
+    console.error('Prefabs: expected an object of prefabs by key');
+    return prefabs;
+  }
+
+  for (const [key, entry] of Object.entries(data)) {
+    const problem = prefabProblem(entry);
+    if (problem) {
+      console.error(`Prefabs: skipping '${key}': ${problem}`);
+      continue;
+    }
+
+    const prefab = entry as JsonObject;
+    const assets = (prefab.assets as Record<string, string> | undefined) ?? {};
+    const spawn = prefab.spawn as JsonObject | undefined;
+    const respawn = spawn?.respawn as JsonObject | undefined;
+    prefabs[key] = {
+      name: prefab.name as string,
+      requires: (prefab.requires as string[] | undefined) ?? Object.keys(assets),
+      assets,
+      components: prefab.components as PrefabComponent[],
+      spawn: spawn && {
+        biomes: spawn.biomes as Partial<Record<BiomeType, number>>,
+        margin: (spawn.margin as number | undefined) ?? 5,
+        activity: spawn.activity as AnimalType | undefined,
+        tileCap: spawn.tileCap as number | undefined,
+        pooled: (spawn.pooled as boolean | undefined) ?? true,
+        respawn: respawn && {
+          max: respawn.max as number,
+          as: (respawn.as as Record<string, number> | undefined) ?? {},
+        },
+      },
+    };
+  }
+
+  return prefabs;
+}
+
+// ============================================================================
+// PREFABS
+// ============================================================================
+
+export const PREFABS: Readonly<Record<string, PrefabDefinition>> = parsePrefabs(prefabData);
+
+/**
+ * Get a prefab by key.
+ */
+export function getPrefab(key: string): PrefabDefinition | undefined {
+  return PREFABS[key];
+}
+
+/**
+ * Keys of the prefabs with a spawn table entry, in prefabs.json order
+ * (which is also the order tiles roll them in).
+ */
+export function getSpawnablePrefabs(): string[] {
+  return Object.keys(PREFABS).filter((key) => PREFABS[key].spawn);
+}
+
+/**
+ * Every model URL prefabs declare, by asset key.
+ */
+export function getPrefabAssetUrls(): Record<string, string> {
+  const urls: Record<string, string> = {};
+  for (const prefab of Object.values(PREFABS)) {
+    Object.assign(urls, prefab.assets);
+  }
+  return urls;
+}
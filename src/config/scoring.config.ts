@@ -0,0 +1,71 @@
+/**
+ * Scoring Configuration
+ *
+ * Bonuses and multipliers applied on top of AnimalConfig.scoreValue.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScoringConfig {
+  /** Kill streak: every `killsPerStep` kills raises the multiplier */
+  readonly streak: {
+    readonly killsPerStep: number;
+    readonly multiplierStep: number;
+    readonly maxMultiplier: number;
+    /** Seconds without a kill before the streak is lost */
+    readonly timeout: number;
+  };
+
+  /** Kills this close together count as one multi-kill */
+  readonly multiKill: {
+    /** Seconds between kills */
+    readonly window: number;
+    /** Bonus per extra kill in the chain, as a fraction of the base score */
+    readonly bonusPerKill: number;
+    /** Popup label by chain length (longest listed label is reused beyond) */
+    readonly labels: Readonly<Record<number, string>>;
+  };
+
+  /** Bonus for kills from far away */
+  readonly longRange: {
+    readonly distance: number;
+    readonly bonus: number;
+  };
+
+  /** Bonus for a killing blow to the head */
+  readonly headshot: {
+    readonly bonus: number;
+  };
+}
+
+// ============================================================================
+// SCORING CONFIG
+// ============================================================================
+
+export const SCORING_CONFIG: ScoringConfig = {
+  streak: {
+    killsPerStep: 5,
+    multiplierStep: 0.5,
+    maxMultiplier: 3,
+    timeout: 10,
+  },
+  multiKill: {
+    window: 1.0,
+    bonusPerKill: 0.5,
+    labels: {
+      2: 'DOUBLE KILL',
+      3: 'TRIPLE KILL',
+      4: 'MULTI KILL',
+      6: 'MASSACRE',
+    },
+  },
+  longRange: {
+    distance: 40,
+    bonus: 0.5,
+  },
+  headshot: {
+    bonus: 0.5,
+  },
+};
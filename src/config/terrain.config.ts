@@ -0,0 +1,71 @@
+/**
+ * Terrain Configuration
+ *
+ * Shape of the procedural ground. Heights come from fractal value noise
+ * over world coordinates, so every tile meets its neighbours exactly.
+ * Hollows below the water level become lakes; rivers are carved in.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TerrainConfig {
+  /** Height of the tallest hills above/below zero, in metres */
+  readonly amplitude: number;
+
+  /** Size of the largest hills, in metres */
+  readonly wavelength: number;
+
+  /** Number of noise layers; each adds finer detail */
+  readonly octaves: number;
+
+  /** Amplitude falloff per octave */
+  readonly persistence: number;
+
+  /** Frequency growth per octave */
+  readonly lacunarity: number;
+
+  /** Height samples per tile side (cells, not vertices) */
+  readonly resolution: number;
+
+  /** Steepest walkable slope (rise over run) for navigation */
+  readonly maxWalkableSlope: number;
+
+  /** Radius around the origin kept flat for the player spawn */
+  readonly flatSpawnRadius: number;
+
+  /** Height of lakes and rivers; ground below it is underwater */
+  readonly waterLevel: number;
+
+  /** River channels carved along a noise contour */
+  readonly rivers: {
+    /** Distance between river bends, in metres */
+    readonly wavelength: number;
+    /** Channel half-width in noise units (about 300x in metres) */
+    readonly width: number;
+    /** Riverbed depth below the water level */
+    readonly depth: number;
+  };
+}
+
+// ============================================================================
+// TERRAIN CONFIG
+// ============================================================================
+
+export const TERRAIN_CONFIG: TerrainConfig = {
+  amplitude: 4,
+  wavelength: 80,
+  octaves: 3,
+  persistence: 0.45,
+  lacunarity: 2.1,
+  resolution: 16,
+  maxWalkableSlope: 0.7,
+  flatSpawnRadius: 6,
+  waterLevel: -1.6,
+  rivers: {
+    wavelength: 300,
+    width: 0.03,
+    depth: 1.2,
+  },
+};
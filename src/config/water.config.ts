@@ -0,0 +1,83 @@
+/**
+ * Water Configuration
+ *
+ * Look of the lake/river surface, how the player swims and how often
+ * animals go to the shore to drink. The water level itself and the river
+ * channels belong to the terrain (see terrain.config.ts).
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WaterConfig {
+  /** Surface shading */
+  readonly surface: {
+    /** Colour of the water body seen through the surface */
+    readonly color: number;
+    /** How much of the water colour covers the lakebed (0 clear, 1 opaque) */
+    readonly tint: number;
+    /** Ripple normal strength */
+    readonly waveStrength: number;
+    /** Ripple animation speed */
+    readonly waveSpeed: number;
+    /** How far ripples shift the reflected and refracted images (texture space) */
+    readonly distortion: number;
+    /** Resolution of the reflection and refraction passes, relative to the screen */
+    readonly passScale: number;
+    /** Overlap kept past the surface when clipping the passes */
+    readonly clipBias: number;
+  };
+
+  /** Player swimming */
+  readonly swim: {
+    /** Fraction of the body under water before the player swims */
+    readonly immersion: number;
+    /** Gravity multiplier while swimming (buoyancy) */
+    readonly gravityScale: number;
+    /** Upward speed while holding the swim-up key (Space) */
+    readonly swimUpSpeed: number;
+    /** Multiplier on horizontal move speed */
+    readonly speedMultiplier: number;
+    /** Vertical velocity damping per second */
+    readonly verticalDrag: number;
+  };
+
+  /** Animals visiting the shore */
+  readonly drinking: {
+    /** Seconds between drinks, at random within the range */
+    readonly interval: { readonly min: number; readonly max: number };
+    /** Seconds spent drinking */
+    readonly duration: number;
+    /** How far an animal will go to find water */
+    readonly searchRadius: number;
+  };
+}
+
+// ============================================================================
+// WATER CONFIG
+// ============================================================================
+
+export const WATER_CONFIG: WaterConfig = {
+  surface: {
+    color: 0x1d4f5c,
+    tint: 0.55,
+    waveStrength: 0.08,
+    waveSpeed: 1.2,
+    distortion: 0.02,
+    passScale: 0.5,
+    clipBias: 0.1,
+  },
+  swim: {
+    immersion: 0.5,
+    gravityScale: 0.15,
+    swimUpSpeed: 2.5,
+    speedMultiplier: 0.45,
+    verticalDrag: 2.0,
+  },
+  drinking: {
+    interval: { min: 60, max: 120 },
+    duration: 4,
+    searchRadius: 40,
+  },
+};
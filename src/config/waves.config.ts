@@ -0,0 +1,81 @@
+/**
+ * Wave Mode Configuration
+ *
+ * Wave composition and timing for the round-based survival mode.
+ * Waves past the hand-authored list keep escalating from the last one.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Prefab key (see prefabs.json) of an animal the wave director spawns */
+export type WaveAnimalType = string;
+
+/** Number of each animal in a wave */
+export type WaveDefinition = Readonly<Partial<Record<WaveAnimalType, number>>>;
+
+export interface WaveConfig {
+  /** Seconds before the first wave */
+  readonly firstWaveDelay: number;
+
+  /** Seconds between a cleared wave and the next one */
+  readonly intermission: number;
+
+  /** Seconds between individual spawns within a wave */
+  readonly spawnInterval: number;
+
+  /** Distance range from the player at which wave animals appear */
+  readonly spawnDistance: { readonly min: number; readonly max: number };
+
+  /** Depth below the ground at which a wave animal counts as lost */
+  readonly lostDepth: number;
+
+  /** Hand-authored waves, in order */
+  readonly waves: readonly WaveDefinition[];
+
+  /** Extra animals added per wave past the authored list */
+  readonly growthPerWave: WaveDefinition;
+}
+
+// ============================================================================
+// WAVE CONFIG
+// ============================================================================
+
+export const WAVE_CONFIG: WaveConfig = {
+  firstWaveDelay: 5,
+  intermission: 10,
+  spawnInterval: 0.75,
+  spawnDistance: { min: 15, max: 35 },
+  lostDepth: 10,
+  waves: [
+    { rabbit: 5 },
+    { rabbit: 8, fox: 1 },
+    { rabbit: 8, fox: 2, apatosaurus: 1 },
+    { rabbit: 10, fox: 3, mutant: 1 },
+    { rabbit: 6, fox: 3, mutant: 1, trex: 1 },
+    { rabbit: 10, fox: 4, mutant: 2, apatosaurus: 2, trex: 1 },
+  ],
+  growthPerWave: { rabbit: 2, fox: 1, mutant: 0.5, trex: 0.34, apatosaurus: 0.5 },
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get the composition of a wave (1-based).
+ * Fractional growth accumulates, so a T-Rex is added every third wave.
+ */
+export function getWaveDefinition(wave: number): WaveDefinition {
+  const { waves, growthPerWave } = WAVE_CONFIG;
+  const authored = waves[Math.min(wave, waves.length) - 1] ?? {};
+  const extraWaves = Math.max(0, wave - waves.length);
+  if (extraWaves === 0) return authored;
+
+  const result: Partial<Record<WaveAnimalType, number>> = { ...authored };
+  (Object.keys(growthPerWave) as WaveAnimalType[]).forEach((type) => {
+    result[type] = (authored[type] ?? 0) + Math.floor((growthPerWave[type] ?? 0) * extraWaves);
+  });
+  return result;
+}
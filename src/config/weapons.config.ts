@@ -5,7 +5,7 @@
  * Uses ClipMatcher pattern for animation name resolution (same as animals).
  */
 
-import type { ClipMatcher } from '../types/animation.types';
+import type { ClipMatcher, AnimalType } from '../types/animation.types';
 
 // ============================================================================
 // WEAPON TYPES
@@ -255,11 +255,43 @@ export const WEAPONS: Record<WeaponKey, WeaponConfig> = {
 // WEAPON TIERS AND UNLOCKS
 // ============================================================================
 
-/** Order of weapon unlocks */
-export const WEAPON_TIERS: readonly WeaponKey[] = ['rifle', 'ak47', 'shotgun', 'gatling', 'grenadeLauncher', 'nuke'];
+/** A single requirement for unlocking a weapon */
+export type WeaponUnlockCondition =
+  /** Total kills of any animal */
+  | { readonly type: 'kills'; readonly count: number }
+  /** Kills of one animal type */
+  | { readonly type: 'animalKills'; readonly animal: AnimalType; readonly count: number }
+  /** Total score (sum of AnimalConfig.scoreValue) */
+  | { readonly type: 'score'; readonly score: number };
+
+/** Unlock rule - the weapon is granted once ALL conditions hold */
+export interface WeaponUnlockRule {
+  readonly weapon: WeaponKey;
+  readonly conditions: readonly WeaponUnlockCondition[];
+}
 
-/** Kill thresholds for each weapon tier */
-export const WEAPON_THRESHOLDS: readonly number[] = [0, 5, 15, 30, 50, 75];
+/** Player progress that unlock rules are evaluated against */
+export interface ProgressionStats {
+  readonly kills: number;
+  readonly animalKills: Readonly<Partial<Record<AnimalType, number>>>;
+  readonly score: number;
+}
+
+/**
+ * Weapon progression, in tier order.
+ * The first entry (no conditions) is the starting weapon. The kill
+ * thresholds are the ones GameManager used to hardcode; the other weapons
+ * are found as pickups.
+ */
+export const WEAPON_PROGRESSION: readonly WeaponUnlockRule[] = [
+  { weapon: 'rifle', conditions: [] },
+  { weapon: 'ak47', conditions: [{ type: 'kills', count: 15 }] },
+  { weapon: 'gatling', conditions: [{ type: 'kills', count: 30 }] },
+  { weapon: 'nuke', conditions: [{ type: 'kills', count: 50 }] },
+];
+
+/** Order of weapon unlocks (derived from WEAPON_PROGRESSION) */
+export const WEAPON_TIERS: readonly WeaponKey[] = WEAPON_PROGRESSION.map((rule) => rule.weapon);
 
 // ============================================================================
 // ANIMATION CONFIG
@@ -313,24 +345,38 @@ export function getWeaponConfig(weaponKey: string): WeaponConfig {
 }
 
 /**
- * Get the appropriate weapon key for a given kill count.
+ * Check a single unlock condition against player progress.
  */
-export function getWeaponForKills(kills: number): WeaponKey {
-  let tierIndex = 0;
-  for (let i = WEAPON_THRESHOLDS.length - 1; i >= 0; i--) {
-    if (kills >= WEAPON_THRESHOLDS[i]) {
-      tierIndex = i;
-      break;
-    }
+export function isUnlockConditionMet(condition: WeaponUnlockCondition, stats: ProgressionStats): boolean {
+  switch (condition.type) {
+    case 'kills':
+      return stats.kills >= condition.count;
+    case 'animalKills':
+      return (stats.animalKills[condition.animal] ?? 0) >= condition.count;
+    case 'score':
+      return stats.score >= condition.score;
   }
-  return WEAPON_TIERS[tierIndex];
+}
+
+/**
+ * Check whether all conditions of an unlock rule hold.
+ */
+export function isWeaponUnlocked(rule: WeaponUnlockRule, stats: ProgressionStats): boolean {
+  return rule.conditions.every((condition) => isUnlockConditionMet(condition, stats));
+}
+
+/**
+ * Get every weapon unlocked by the given progress, in tier order.
+ */
+export function getUnlockedWeapons(stats: ProgressionStats): WeaponKey[] {
+  return WEAPON_PROGRESSION.filter((rule) => isWeaponUnlocked(rule, stats)).map((rule) => rule.weapon);
 }
 
 /**
  * Get all weapon keys.
  */
 export function getAllWeaponKeys(): readonly WeaponKey[] {
-  return WEAPON_TIERS;
+  return Object.keys(WEAPONS) as WeaponKey[];
 }
 
 /**
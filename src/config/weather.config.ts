@@ -0,0 +1,78 @@
+/**
+ * Weather Configuration
+ *
+ * Weather states, how long they last and what they do to the world.
+ * Each state's values are blended in from the clear-sky values while it
+ * builds up, so 'clear' is also the baseline for every effect.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WeatherType = 'clear' | 'rain' | 'fog' | 'wind';
+
+/** Visual and gameplay effects of a weather state at full strength */
+export interface WeatherEffects {
+  /** Relative chance of being picked as the next weather */
+  readonly weight: number;
+
+  /** scene.fog near/far distances */
+  readonly fogNear: number;
+  readonly fogFar: number;
+
+  /** Multiplier on animal hearing distances (e.g. rabbit flee distance) */
+  readonly hearing: number;
+
+  /** Multiplier on animal sight distances (e.g. fox view distance) */
+  readonly visibility: number;
+
+  /** Wind acceleration in m/s^2 applied to projectiles */
+  readonly windStrength: number;
+
+  /** Rain particle opacity, 0 = none */
+  readonly rain: number;
+}
+
+export interface WeatherConfig {
+  /** Weather a new game starts with */
+  readonly initial: WeatherType;
+
+  /** How long a weather state lasts, in seconds */
+  readonly duration: { readonly min: number; readonly max: number };
+
+  /** Seconds to fade one state out and the next one in */
+  readonly transition: number;
+
+  /** Rain particle field around the player */
+  readonly rainParticles: {
+    readonly count: number;
+    readonly radius: number;
+    readonly height: number;
+    readonly speed: number;
+  };
+
+  readonly states: Readonly<Record<WeatherType, WeatherEffects>>;
+}
+
+// ============================================================================
+// WEATHER CONFIG
+// ============================================================================
+
+export const WEATHER_CONFIG: WeatherConfig = {
+  initial: 'clear',
+  duration: { min: 60, max: 150 },
+  transition: 8,
+  rainParticles: {
+    count: 6000,
+    radius: 30,
+    height: 25,
+    speed: 18,
+  },
+  states: {
+    clear: { weight: 4, fogNear: 60, fogFar: 200, hearing: 1, visibility: 1, windStrength: 0, rain: 0 },
+    rain: { weight: 2, fogNear: 30, fogFar: 120, hearing: 0.5, visibility: 0.8, windStrength: 2, rain: 1 },
+    fog: { weight: 2, fogNear: 5, fogFar: 45, hearing: 1, visibility: 0.4, windStrength: 0, rain: 0 },
+    wind: { weight: 2, fogNear: 60, fogFar: 200, hearing: 0.8, visibility: 1, windStrength: 8, rain: 0 },
+  },
+};
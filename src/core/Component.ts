@@ -6,7 +6,7 @@
  */
 
 import type { IComponent, IEntity, ComponentName } from '../types/entity.types';
-import type { GameEvent } from '../types/events.types';
+import type { GameEvent, Unsubscribe } from '../types/events.types';
 
 export class Component implements IComponent {
   /**
@@ -67,6 +67,38 @@ export class Component implements IComponent {
     this.parent?.Broadcast(msg);
   }
 
+  /**
+   * Listen for a world event on the global channel.
+   * The subscription ends when the parent entity is cleaned up.
+   *
+   * @param topic - The event topic
+   * @param handler - Called with each event
+   * @returns A handle that ends the subscription early
+   */
+  Subscribe<T extends GameEvent>(topic: T['topic'], handler: (msg: T) => void): Unsubscribe {
+    const events = this.parent?.parent?.events;
+    if (!events) {
+      console.warn(`${this.name}: cannot listen for '${topic}' before being added to the entity manager`);
+      return () => {};
+    }
+    return events.Subscribe(topic, handler, null, this.parent);
+  }
+
+  /**
+   * Send a world event to every subscriber on the global channel.
+   *
+   * @param msg - The event to send
+   * @param deferred - Deliver at the start of the next frame instead of now
+   */
+  Publish(msg: GameEvent, deferred: boolean = false): void {
+    const events = this.parent?.parent?.events;
+    if (deferred) {
+      events?.Post(msg);
+    } else {
+      events?.Emit(msg);
+    }
+  }
+
   /**
    * Update the component each frame.
    * Override in subclasses to implement per-frame logic.
@@ -88,6 +120,17 @@ export class Component implements IComponent {
     // Override in subclass
   }
 
+  /**
+   * Interpolation callback.
+   * Called once per frame after the physics ticks, before Update, so
+   * rendered objects can sit between the previous and current tick.
+   *
+   * @param _alpha - 0 at the previous physics tick, 1 at the latest
+   */
+  Interpolate(_alpha: number): void {
+    // Override in subclass
+  }
+
   /**
    * Cleanup resources when the entity is removed.
    * Override in subclasses to dispose of Three.js objects, physics bodies, etc.
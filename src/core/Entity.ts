@@ -13,7 +13,7 @@ import type {
   IComponent,
   ComponentName,
 } from '../types/entity.types';
-import type { GameEvent, EventTopic, EventHandler } from '../types/events.types';
+import type { GameEvent, Unsubscribe } from '../types/events.types';
 
 export class Entity implements IEntity {
   /** Unique entity ID (set by EntityManager) */
@@ -34,10 +34,6 @@ export class Entity implements IEntity {
   /** Parent entity manager */
   parent: IEntityManager | null = null;
 
-  /** Event handlers by topic */
-  private eventHandlers: Map<EventTopic, Array<EventHandler<EventTopic>>> =
-    new Map();
-
   /** Whether entity is active (updated each frame) */
   active: boolean = true;
 
@@ -71,6 +67,7 @@ export class Entity implements IEntity {
   AddComponent(component: IComponent): void {
     component.SetParent(this);
     this.components[component.name] = component;
+    this.parent?.OnComponentAdded(this, component);
   }
 
   /**
@@ -99,6 +96,7 @@ export class Entity implements IEntity {
    */
   SetPosition(position: Vector3): void {
     this._position.copy(position);
+    this.parent?.OnEntityMoved(this);
   }
 
   /**
@@ -116,28 +114,25 @@ export class Entity implements IEntity {
   }
 
   /**
-   * Register an event handler for a specific topic.
+   * Register an event handler for a specific topic on this entity's
+   * channel. The handler is dropped on Cleanup.
    */
   RegisterEventHandler<T extends GameEvent>(
     handler: (msg: T) => void,
     topic: T['topic']
-  ): void {
-    if (!this.eventHandlers.has(topic)) {
-      this.eventHandlers.set(topic, []);
+  ): Unsubscribe {
+    if (!this.parent) {
+      console.warn(`Entity ${this._name}: cannot listen for '${topic}' before being added to the entity manager`);
+      return () => {};
     }
-    this.eventHandlers.get(topic)!.push(handler as EventHandler<EventTopic>);
+    return this.parent.events.Subscribe(topic, handler, this);
   }
 
   /**
-   * Broadcast an event to all registered handlers.
+   * Broadcast an event to all handlers on this entity's channel.
    */
   Broadcast(msg: GameEvent): void {
-    const handlers = this.eventHandlers.get(msg.topic);
-    if (!handlers) return;
-
-    for (const handler of handlers) {
-      handler(msg);
-    }
+    this.parent?.events.Emit(msg, this);
   }
 
   /**
@@ -149,6 +144,15 @@ export class Entity implements IEntity {
     }
   }
 
+  /**
+   * Interpolate - blend components between physics ticks.
+   */
+  Interpolate(alpha: number): void {
+    for (const key in this.components) {
+      this.components[key].Interpolate(alpha);
+    }
+  }
+
   /**
    * Update all components.
    */
@@ -165,6 +169,7 @@ export class Entity implements IEntity {
     for (const key in this.components) {
       this.components[key].Cleanup?.();
     }
+    this.parent?.events.Release(this);
   }
 }
 
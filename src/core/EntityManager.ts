@@ -5,7 +5,12 @@
  * Handles entity registration, updates, and removal.
  */
 
-import type { IEntity, IEntityManager } from '../types/entity.types';
+import type { IEntity, IEntityManager, IComponent, ComponentName } from '../types/entity.types';
+import { SpatialHash } from '../systems/SpatialHash';
+import { EventBus } from './EventBus';
+
+/** Grid cell size until the tile manager sets it to the tile size */
+const DEFAULT_CELL_SIZE = 40;
 
 export class EntityManager implements IEntityManager {
   /** Counter for generating unique entity IDs */
@@ -14,11 +19,54 @@ export class EntityManager implements IEntityManager {
   /** All managed entities */
   private entities: IEntity[] = [];
 
+  /** Managed entities by name (first added wins on duplicates) */
+  private readonly byName = new Map<string, IEntity>();
+
+  /** Managed entities by the names of their components */
+  private readonly byComponent = new Map<ComponentName, Set<IEntity>>();
+
+  /** Managed entities by where they stand, for proximity queries */
+  readonly spatial = new SpatialHash<IEntity>(DEFAULT_CELL_SIZE);
+
+  /** World and entity event channels */
+  readonly events = new EventBus();
+
   /**
    * Get an entity by name.
    */
   Get(name: string): IEntity | undefined {
-    return this.entities.find((entity) => entity.name === name);
+    return this.byName.get(name);
+  }
+
+  /**
+   * Get the entities that have every one of the given components,
+   * e.g. Query(['RabbitController', 'HealthBar']).
+   */
+  Query(components: readonly ComponentName[]): IEntity[] {
+    if (components.length === 0) return [];
+
+    // Walk the smallest index, check the rest
+    let smallest: Set<IEntity> | undefined;
+    for (const name of components) {
+      const set = this.byComponent.get(name);
+      if (!set || set.size === 0) return [];
+      if (!smallest || set.size < smallest.size) smallest = set;
+    }
+
+    const result: IEntity[] = [];
+    for (const entity of smallest!) {
+      if (components.every((name) => this.byComponent.get(name)!.has(entity))) {
+        result.push(entity);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Number of entities with a component.
+   */
+  CountWith(component: ComponentName): number {
+    return this.byComponent.get(component)?.size ?? 0;
   }
 
   /**
@@ -39,6 +87,31 @@ export class EntityManager implements IEntityManager {
     (entity as { SetParent: (p: IEntityManager) => void }).SetParent(this);
 
     this.entities.push(entity);
+
+    if (!this.byName.has(entity.name!)) {
+      this.byName.set(entity.name!, entity);
+    }
+    for (const key in entity.components) {
+      this.indexComponent(entity, entity.components[key]);
+    }
+    this.spatial.insert(entity);
+  }
+
+  /**
+   * Index a component attached to an entity that is already managed.
+   * Called by Entity.AddComponent.
+   */
+  OnComponentAdded(entity: IEntity, component: IComponent): void {
+    if (this.entities.indexOf(entity) === -1) return;
+    this.indexComponent(entity, component);
+  }
+
+  /**
+   * Refile a managed entity in the spatial index after it moved.
+   * Called by Entity.SetPosition.
+   */
+  OnEntityMoved(entity: IEntity): void {
+    this.spatial.update(entity);
   }
 
   /**
@@ -64,9 +137,23 @@ export class EntityManager implements IEntityManager {
   }
 
   /**
-   * Update all active entities.
+   * Blend active entities between the last two physics ticks.
+   */
+  Interpolate(alpha: number): void {
+    for (const entity of this.entities) {
+      if (entity.active !== false) {
+        entity.Interpolate(alpha);
+      }
+    }
+  }
+
+  /**
+   * Update all active entities, after delivering events posted since the
+   * last frame.
    */
   Update(deltaTime: number): void {
+    this.events.Flush();
+
     for (const entity of this.entities) {
       if (entity.active !== false) {
         entity.Update(deltaTime);
@@ -76,13 +163,17 @@ export class EntityManager implements IEntityManager {
 
   /**
    * Remove an entity from the manager.
+   * Pooled entities are removed without cleanup so they can be re-added.
    */
-  Remove(entity: IEntity): void {
+  Remove(entity: IEntity, cleanup: boolean = true): void {
     const idx = this.entities.indexOf(entity);
     if (idx > -1) {
       // Cleanup entity before removal
-      (entity as { Cleanup?: () => void }).Cleanup?.();
+      if (cleanup) {
+        (entity as { Cleanup?: () => void }).Cleanup?.();
+      }
       this.entities.splice(idx, 1);
+      this.unindex(entity);
     }
   }
 
@@ -106,6 +197,36 @@ export class EntityManager implements IEntityManager {
   get count(): number {
     return this.entities.length;
   }
+
+  // ============================================================================
+  // INDEXES
+  // ============================================================================
+
+  private indexComponent(entity: IEntity, component: IComponent): void {
+    let set = this.byComponent.get(component.name);
+    if (!set) {
+      set = new Set();
+      this.byComponent.set(component.name, set);
+    }
+    set.add(entity);
+  }
+
+  private unindex(entity: IEntity): void {
+    this.spatial.remove(entity);
+
+    for (const key in entity.components) {
+      this.byComponent.get(entity.components[key].name)?.delete(entity);
+    }
+
+    if (entity.name !== null && this.byName.get(entity.name) === entity) {
+      this.byName.delete(entity.name);
+      // Hand the name to a remaining namesake, as a linear search would
+      const namesake = this.entities.find((other) => other.name === entity.name);
+      if (namesake) {
+        this.byName.set(entity.name, namesake);
+      }
+    }
+  }
 }
 
 // Also export as default for backwards compatibility
@@ -0,0 +1,9 @@
+/**
+ * Environment
+ *
+ * Whether the game has a page to draw on. Headless Node runs have no
+ * document, so canvas labels, screen overlays and input listeners are
+ * left out there.
+ */
+
+export const HAS_DOM = typeof document !== 'undefined';
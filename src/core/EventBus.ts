@@ -0,0 +1,144 @@
+/**
+ * Event Bus
+ *
+ * World-level messaging on the GameEvent union. The global channel carries
+ * world events (kills, deaths, respawns) to whoever subscribed, so senders
+ * no longer look up the entity that should hear them. Each entity also has
+ * its own channel for events aimed at it, such as hits.
+ *
+ * Subscriptions return an unsubscribe handle and belong to an owner
+ * entity; Release drops everything an entity owns when it is cleaned up.
+ */
+
+import type { IEntity } from '../types/entity.types';
+import type { GameEvent, EventTopic, Unsubscribe } from '../types/events.types';
+
+interface Subscription {
+  handler: (event: GameEvent) => void;
+  owner: IEntity | null;
+}
+
+/** Handlers by topic on one channel */
+type Channel = Map<EventTopic, Subscription[]>;
+
+interface QueuedEvent {
+  event: GameEvent;
+  scope: IEntity | null;
+}
+
+export class EventBus {
+  /** Handlers for world events */
+  private readonly global: Channel = new Map();
+
+  /** Handlers for events aimed at one entity */
+  private readonly scoped = new Map<IEntity, Channel>();
+
+  /** Events waiting for the next Flush */
+  private queue: QueuedEvent[] = [];
+
+  /**
+   * Listen for a topic on the global channel, or on an entity's channel
+   * when `scope` is given. The subscription is dropped when `owner` (the
+   * scope by default) is released.
+   */
+  Subscribe<T extends GameEvent>(
+    topic: T['topic'],
+    handler: (event: T) => void,
+    scope: IEntity | null = null,
+    owner: IEntity | null = scope
+  ): Unsubscribe {
+    const channel = this.channelFor(scope, true)!;
+    if (!channel.has(topic)) {
+      channel.set(topic, []);
+    }
+
+    const subscription: Subscription = { handler: handler as (event: GameEvent) => void, owner };
+    channel.get(topic)!.push(subscription);
+
+    return () => {
+      const subscriptions = channel.get(topic);
+      const idx = subscriptions?.indexOf(subscription) ?? -1;
+      if (idx > -1) {
+        subscriptions!.splice(idx, 1);
+      }
+    };
+  }
+
+  /**
+   * Deliver an event now, on the global channel or an entity's channel.
+   */
+  Emit(event: GameEvent, scope: IEntity | null = null): void {
+    const subscriptions = this.channelFor(scope, false)?.get(event.topic);
+    if (!subscriptions || subscriptions.length === 0) return;
+
+    // Copy so handlers may unsubscribe while the event is delivered
+    for (const subscription of subscriptions.slice()) {
+      subscription.handler(event);
+    }
+  }
+
+  /**
+   * Deliver an event at the next Flush, e.g. to leave the entity list
+   * alone while entities are being updated.
+   */
+  Post(event: GameEvent, scope: IEntity | null = null): void {
+    this.queue.push({ event, scope });
+  }
+
+  /**
+   * Deliver queued events. Events posted meanwhile wait for the next Flush.
+   */
+  Flush(): void {
+    if (this.queue.length === 0) return;
+
+    const queued = this.queue;
+    this.queue = [];
+    for (const { event, scope } of queued) {
+      this.Emit(event, scope);
+    }
+  }
+
+  /**
+   * Drop an entity's channel, every subscription it owns and its queued
+   * events.
+   */
+  Release(entity: IEntity): void {
+    this.scoped.delete(entity);
+    this.queue = this.queue.filter((queued) => queued.scope !== entity);
+
+    this.dropOwned(this.global, entity);
+    for (const channel of this.scoped.values()) {
+      this.dropOwned(channel, entity);
+    }
+  }
+
+  /**
+   * Drop every subscription and queued event.
+   */
+  Clear(): void {
+    this.global.clear();
+    this.scoped.clear();
+    this.queue = [];
+  }
+
+  private dropOwned(channel: Channel, owner: IEntity): void {
+    for (const subscriptions of channel.values()) {
+      for (let i = subscriptions.length - 1; i >= 0; i--) {
+        if (subscriptions[i].owner === owner) {
+          subscriptions.splice(i, 1);
+        }
+      }
+    }
+  }
+
+  private channelFor(scope: IEntity | null, create: boolean): Channel | undefined {
+    if (!scope) return this.global;
+
+    let channel = this.scoped.get(scope);
+    if (!channel && create) {
+      channel = new Map();
+      this.scoped.set(scope, channel);
+    }
+    return channel;
+  }
+}
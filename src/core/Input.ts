@@ -38,6 +38,8 @@ export type KeyCode =
   | 'Digit3'
   | 'Digit4';
 
+import { HAS_DOM } from './Environment';
+
 class Input {
   private _keyMap: KeyMap = {};
   private events: EventRegistration[] = [];
@@ -47,14 +49,24 @@ class Input {
     this.AddKeyUpListener(this._onKeyUp);
   }
 
+  private get document(): Document | null {
+    return HAS_DOM ? document : null;
+  }
+
+  private get body(): HTMLElement | null {
+    return this.document?.body ?? null;
+  }
+
   /**
    * Internal method to register event listeners with cleanup tracking.
    */
   private _addEventListener(
-    element: EventTarget,
+    element: EventTarget | null,
     type: string,
     callback: EventListener
   ): void {
+    // No document in headless Node runs - nothing to listen to
+    if (!element) return;
     element.addEventListener(type, callback);
     this.events.push({ element, type, callback });
   }
@@ -63,49 +75,49 @@ class Input {
    * Add a keydown event listener.
    */
   AddKeyDownListener(callback: (event: KeyboardEvent) => void): void {
-    this._addEventListener(document, 'keydown', callback as EventListener);
+    this._addEventListener(this.document, 'keydown', callback as EventListener);
   }
 
   /**
    * Add a keyup event listener.
    */
   AddKeyUpListener(callback: (event: KeyboardEvent) => void): void {
-    this._addEventListener(document, 'keyup', callback as EventListener);
+    this._addEventListener(this.document, 'keyup', callback as EventListener);
   }
 
   /**
    * Add a mousemove event listener.
    */
   AddMouseMoveListener(callback: (event: MouseEvent) => void): void {
-    this._addEventListener(document, 'mousemove', callback as EventListener);
+    this._addEventListener(this.document, 'mousemove', callback as EventListener);
   }
 
   /**
    * Add a click event listener.
    */
   AddClickListener(callback: (event: MouseEvent) => void): void {
-    this._addEventListener(document.body, 'click', callback as EventListener);
+    this._addEventListener(this.body, 'click', callback as EventListener);
   }
 
   /**
    * Add a mousedown event listener.
    */
   AddMouseDownListener(callback: (event: MouseEvent) => void): void {
-    this._addEventListener(document.body, 'mousedown', callback as EventListener);
+    this._addEventListener(this.body, 'mousedown', callback as EventListener);
   }
 
   /**
    * Add a mouseup event listener.
    */
   AddMouseUpListener(callback: (event: MouseEvent) => void): void {
-    this._addEventListener(document.body, 'mouseup', callback as EventListener);
+    this._addEventListener(this.body, 'mouseup', callback as EventListener);
   }
 
   /**
    * Add a wheel event listener.
    */
   AddWheelListener(callback: (event: WheelEvent) => void): void {
-    this._addEventListener(document.body, 'wheel', callback as EventListener);
+    this._addEventListener(this.body, 'wheel', callback as EventListener);
   }
 
   /**
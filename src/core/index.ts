@@ -6,6 +6,7 @@
 export { default as Entity } from './Entity';
 export { default as EntityManager } from './EntityManager';
 export { default as Component } from './Component';
+export { EventBus } from './EventBus';
 
 // FSM
 export {
@@ -18,6 +19,7 @@ export {
 
 // Input
 export { default as Input, type KeyCode } from './Input';
+export { HAS_DOM } from './Environment';
 
 // Physics
 export {
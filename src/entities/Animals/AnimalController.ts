@@ -9,6 +9,7 @@
  * - Collision detection
  * - Health and damage handling
  * - Blood pool effects
+ * - Distance-based update throttling and impostors
  * - Cleanup lifecycle
  *
  * Subclasses only need to implement:
@@ -24,26 +25,60 @@
 import * as THREE from 'three';
 import Component from '../../core/Component';
 import { Entity } from '../../core/Entity';
+import { HAS_DOM } from '../../core/Environment';
 import { FiniteStateMachine, type IState } from '../../core/FiniteStateMachine';
 import { AnimationController } from '../../systems/AnimationController';
 import { AmmoHelper, Ammo, CollisionFilterGroups } from '../../core/AmmoLib';
-import type { IEntity, AnimalConfig, BehaviorConfig } from '../../types/entity.types';
+import type { IEntity, AnimalConfig, BehaviorConfig, HitZone } from '../../types/entity.types';
 import type {
   EntityAnimationConfig,
   AnimationActionName,
+  WeaponKey,
+  AnimalType,
 } from '../../types/animation.types';
-import type { HitEvent } from '../../types/events.types';
+import type { HitEvent, AnimalKilledEvent, AnimalDiedEvent } from '../../types/events.types';
 import HealthBar from '../UI/HealthBar';
 import DamageText from '../UI/DamageText';
+import { SeededRandom } from '../../systems/SeededRandom';
+import { resolveDamage } from '../../systems/Damage';
+import { WATER_CONFIG } from '../../config/water.config';
+import { LOD_CONFIG } from '../../config/lod.config';
+import type { Impostor } from '../../systems/Lod';
 
 // Forward declare these types - they'll be properly typed when those files are migrated
 interface NavmeshComponent {
   GetRandomNode(position: THREE.Vector3, radius: number): THREE.Vector3 | null;
   FindPath(from: THREE.Vector3, to: THREE.Vector3): THREE.Vector3[] | null;
+  FindShore?(position: THREE.Vector3, range: number): { position: THREE.Vector3; water: THREE.Vector3 } | null;
 }
 
+interface RandomService {
+  GetStream(name: string): SeededRandom;
+}
+
+interface WorldClockService {
+  GetActivity(type: AnimalType): number;
+}
+
+interface WeatherService {
+  GetHearingMultiplier(): number;
+  GetVisibilityMultiplier(): number;
+}
+
+interface TerrainService {
+  GetHeight(x: number, z: number): number;
+}
+
+interface ImpostorService {
+  Get(key: string, object: THREE.Object3D): Impostor | null;
+  GetSpriteMaterial(key: string, object: THREE.Object3D): THREE.SpriteMaterial | null;
+}
+
+/** How often an animal updates: every frame, throttled, or throttled and drawn as an impostor */
+type AnimalLod = 'full' | 'throttled' | 'impostor';
+
 interface HealthBarComponent {
-  container: { visible: boolean };
+  container: { visible: boolean } | null;
   Initialize(): void;
 }
 
@@ -92,12 +127,53 @@ export abstract class AnimalController<TState extends string> extends Component
   /** Player entity reference */
   protected player: IEntity | null = null;
 
+  /** Time of day service from the Level entity */
+  protected clock: WorldClockService | null = null;
+
+  /** Weather service from the Level entity */
+  protected weather: WeatherService | null = null;
+
+  /** Ground height service from the Level entity */
+  protected terrain: TerrainService | null = null;
+
+  // ============================================================================
+  // DRINKING
+  // ============================================================================
+
+  /** Seconds until the animal next goes looking for water */
+  protected thirstTimer: number = 0;
+
+  /** Seconds left drinking at the shore */
+  protected drinkTimer: number = 0;
+
+  /** Water the animal is walking to, set while heading for the shore */
+  private drinkTarget: THREE.Vector3 | null = null;
+
+  /** Seeded RNG for AI decisions (shared 'ai' stream of the Level) */
+  public rng: SeededRandom = new SeededRandom(Date.now());
+
   /** Whether Initialize has been called */
   protected initialized: boolean = false;
 
   /** Blood pool mesh (created on death) */
   protected bloodPool: THREE.Mesh | null = null;
 
+  // ============================================================================
+  // LEVEL OF DETAIL
+  // ============================================================================
+
+  /** Baked views service from the Level entity */
+  protected impostors: ImpostorService | null = null;
+
+  /** Current update rate, from distance to the player */
+  private lod: AnimalLod = 'full';
+
+  /** Time since the last throttled update */
+  private lodTimer: number = 0;
+
+  /** Billboard shown instead of the model far away */
+  private impostor: THREE.Sprite | null = null;
+
   // ============================================================================
   // HEALTH
   // ============================================================================
@@ -117,6 +193,9 @@ export abstract class AnimalController<TState extends string> extends Component
   /** Whether the animal is dead */
   public isDead: boolean = false;
 
+  /** Most recent hit, reported with the kill for scoring */
+  protected lastHit: { weapon?: WeaponKey; zone: HitZone; from?: IEntity } | null = null;
+
   // ============================================================================
   // TEMP OBJECTS (reused for performance)
   // ============================================================================
@@ -195,6 +274,15 @@ export abstract class AnimalController<TState extends string> extends Component
     const level = this.FindEntity('Level');
     this.navmesh = level?.GetComponent('Navmesh') as NavmeshComponent | undefined ?? null;
     this.player = this.FindEntity('Player') ?? null;
+    const random = level?.GetComponent('Random') as RandomService | undefined;
+    if (random) {
+      this.rng = random.GetStream('ai');
+    }
+    this.clock = level?.GetComponent('WorldClock') as WorldClockService | undefined ?? null;
+    this.weather = level?.GetComponent('Weather') as WeatherService | undefined ?? null;
+    this.terrain = level?.GetComponent('Terrain') as TerrainService | undefined ?? null;
+    this.impostors = level?.GetComponent('Impostors') as ImpostorService | undefined ?? null;
+    this.thirstTimer = this.rollThirst();
 
     // Register for hit events
     this.parent!.RegisterEventHandler(this.TakeHit, 'hit');
@@ -324,6 +412,35 @@ export abstract class AnimalController<TState extends string> extends Component
     this.animationController.play(name, { loop, clampWhenFinished: !loop });
   }
 
+  // ============================================================================
+  // SCHEDULE
+  // ============================================================================
+
+  /**
+   * Whether to stay put instead of roaming, rolled against the
+   * animal's activity curve for the current hour.
+   */
+  isResting(): boolean {
+    if (this.drinkTimer > 0) return true;
+
+    const activity = this.clock?.GetActivity(this.getAnimalConfig().animalType) ?? 1;
+    return !this.rng.chance(Math.min(1, activity));
+  }
+
+  /**
+   * Weather multiplier for how far the animal hears the player.
+   */
+  protected getHearingMultiplier(): number {
+    return this.weather?.GetHearingMultiplier() ?? 1;
+  }
+
+  /**
+   * Weather multiplier for how far the animal sees the player.
+   */
+  protected getVisibilityMultiplier(): number {
+    return this.weather?.GetVisibilityMultiplier() ?? 1;
+  }
+
   // ============================================================================
   // NAVIGATION
   // ============================================================================
@@ -334,17 +451,68 @@ export abstract class AnimalController<TState extends string> extends Component
   navigateToRandomPoint(radius: number = 20): void {
     if (!this.navmesh) return;
 
+    // Thirsty animals head for the shore instead
+    if (this.thirstTimer <= 0 && this.navigateToWater()) return;
+
     const node = this.navmesh.GetRandomNode(this.model.position, radius);
     if (node) {
       this.path = this.navmesh.FindPath(this.model.position, node) || [];
     }
   }
 
+  /**
+   * Navigate to the nearest shoreline. Returns false (and puts off the
+   * thirst) when there is no water in reach.
+   */
+  navigateToWater(): boolean {
+    const shore = this.navmesh?.FindShore?.(this.model.position, WATER_CONFIG.drinking.searchRadius);
+    if (!shore) {
+      this.thirstTimer = this.rollThirst();
+      return false;
+    }
+
+    this.path = this.navmesh!.FindPath(this.model.position, shore.position) || [];
+    this.drinkTarget = shore.water;
+    return true;
+  }
+
   /**
    * Clear the current navigation path.
    */
   clearPath(): void {
     this.path = [];
+    this.drinkTarget = null;
+  }
+
+  private rollThirst(): number {
+    const { min, max } = WATER_CONFIG.drinking.interval;
+    return this.rng.range(min, max);
+  }
+
+  /**
+   * Count down thirst, and start drinking on reaching the shore. Idle
+   * states keep the animal resting while it drinks.
+   */
+  protected updateDrinking(deltaTime: number): void {
+    if (this.drinkTimer > 0) {
+      this.drinkTimer -= deltaTime;
+      return;
+    }
+    this.thirstTimer -= deltaTime;
+
+    if (!this.drinkTarget || this.path.length > 0) return;
+
+    // Arrived (or gave up) - only drink if the water is within reach
+    const toWater = this.tempVec.copy(this.drinkTarget).sub(this.model.position);
+    toWater.y = 0;
+    this.drinkTarget = null;
+    if (toWater.lengthSq() > 25) return;
+
+    if (toWater.lengthSq() > 0.001) {
+      this.model.quaternion.setFromUnitVectors(this.forwardVec, toWater.normalize());
+    }
+    this.drinkTimer = WATER_CONFIG.drinking.duration;
+    this.thirstTimer = this.rollThirst();
   }
 
   /**
@@ -357,21 +525,31 @@ export abstract class AnimalController<TState extends string> extends Component
     target.y = 0;
 
     if (target.lengthSq() > 0.09) { // 0.3 * 0.3
+      // Throttled updates take long steps; stop at the waypoint
+      const step = Math.min(this.getMoveSpeed() * deltaTime, target.length());
       target.normalize();
 
       // Rotate to face movement direction
       this.tempRot.setFromUnitVectors(this.forwardVec, target);
-      this.model.quaternion.slerp(this.tempRot, 6.0 * deltaTime);
+      this.model.quaternion.slerp(this.tempRot, Math.min(6.0 * deltaTime, 1));
 
       // Move forward
-      const speed = this.getMoveSpeed();
-      this.model.position.add(target.multiplyScalar(speed * deltaTime));
+      this.model.position.add(target.multiplyScalar(step));
     } else {
       // Reached waypoint
       this.path.shift();
     }
   }
 
+  /**
+   * Put the model's feet on the terrain surface.
+   */
+  protected snapToGround(): void {
+    if (!this.terrain) return;
+    const pos = this.model.position;
+    pos.y = this.terrain.GetHeight(pos.x, pos.z);
+  }
+
   /**
    * Get current movement speed.
    * Override to modify based on state (e.g., chase speed).
@@ -410,8 +588,10 @@ export abstract class AnimalController<TState extends string> extends Component
   TakeHit = (msg: HitEvent): void => {
     if (this.isDead) return;
 
-    this.health = Math.max(0, this.health - msg.amount);
-    this.showDamageEffects(msg.amount);
+    const damage = resolveDamage(msg, this.getAnimalConfig(), this.model);
+    this.lastHit = { weapon: msg.weapon, zone: damage.zone, from: msg.from };
+    this.health = Math.max(0, this.health - damage.amount);
+    this.showDamageEffects(damage.amount, damage.zone === 'head');
 
     if (this.health <= 0) {
       this.handleDeath();
@@ -435,44 +615,46 @@ export abstract class AnimalController<TState extends string> extends Component
   protected notifyManagers(): void {
     const config = this.getAnimalConfig();
 
-    // Notify GameManager
-    const gameManager = this.FindEntity('GameManager');
-    if (gameManager) {
-      gameManager.Broadcast({
-        topic: 'animal_killed',
-        entity: this.parent!,
-        type: config.animalType as 'rabbit' | 'fox' | 'mutant',
-      });
-    }
-
-    // Notify SpawnManager
-    const spawnManager = this.FindEntity('SpawnManager');
-    if (spawnManager) {
-      spawnManager.Broadcast({
-        topic: 'animal_died',
-        entity: this.parent!,
-        type: config.animalType as 'rabbit' | 'fox' | 'mutant',
-        position: this.model.position.clone(),
-      });
-    }
+    // Scoring (GameManager)
+    const killer = this.lastHit?.from;
+    const event: AnimalKilledEvent = {
+      topic: 'animal_killed',
+      entity: this.parent!,
+      type: config.animalType,
+      weapon: this.lastHit?.weapon,
+      distance: killer ? killer.position.distanceTo(this.model.position) : undefined,
+      zone: this.lastHit?.zone,
+    };
+    this.Publish(event);
+
+    // Respawn queue and waves (SpawnManager, WaveDirector)
+    const died: AnimalDiedEvent = {
+      topic: 'animal_died',
+      entity: this.parent!,
+      type: config.animalType,
+      position: this.model.position.clone(),
+    };
+    this.Publish(died);
   }
 
   /**
    * Show damage visual effects.
    */
-  protected showDamageEffects(amount: number): void {
-    // Show damage text
-    const textEntity = new Entity();
-    textEntity.SetPosition(this.model.position);
-    const damageText = new DamageText(new THREE.Vector3(0, 0, 0), amount, this.scene); // Position relative to entity
-    textEntity.AddComponent(damageText);
-
-    // Add to manager via parent's manager
-    if (this.parent && this.parent.parent) {
-      this.parent.parent.Add(textEntity);
-    } else {
-      // Fallback or error
-      damageText.Initialize(); // Force init but it won't update
+  protected showDamageEffects(amount: number, headshot: boolean = false): void {
+    // Show damage text (drawn on a canvas, so not in headless runs)
+    if (HAS_DOM) {
+      const textEntity = new Entity();
+      textEntity.SetPosition(this.model.position);
+      const damageText = new DamageText(new THREE.Vector3(0, 0, 0), amount, this.scene, headshot); // Position relative to entity
+      textEntity.AddComponent(damageText);
+
+      // Add to manager via parent's manager
+      if (this.parent && this.parent.parent) {
+        this.parent.parent.Add(textEntity);
+      } else {
+        // Fallback or error
+        damageText.Initialize(); // Force init but it won't update
+      }
     }
 
     // Flash red
@@ -531,7 +713,7 @@ export abstract class AnimalController<TState extends string> extends Component
     const bloodPool = new THREE.Mesh(geometry, material);
     bloodPool.rotation.x = -Math.PI / 2;
     bloodPool.position.copy(this.model.position);
-    bloodPool.position.y = 0.02;
+    bloodPool.position.y += 0.02;
     this.scene.add(bloodPool);
     this.bloodPool = bloodPool;
   }
@@ -546,6 +728,12 @@ export abstract class AnimalController<TState extends string> extends Component
   override Update(deltaTime: number): void {
     if (!this.initialized) return;
 
+    // Distant animals update less often, catching up on the skipped time
+    this.lodTimer += deltaTime;
+    if (this.lodTimer < this.updateLod()) return;
+    deltaTime = this.lodTimer;
+    this.lodTimer = 0;
+
     // Update animations
     this.animationController.update(deltaTime);
 
@@ -557,16 +745,162 @@ export abstract class AnimalController<TState extends string> extends Component
 
     // Move along path
     this.moveAlongPath(deltaTime);
+    this.updateDrinking(deltaTime);
 
     // Update FSM
     this.stateMachine?.Update(deltaTime);
 
+    // Stand on the terrain
+    this.snapToGround();
+
     // Update collider
     this.updateColliderPosition();
 
     // Sync entity position
     this.parent!.SetPosition(this.model.position);
     this.parent!.SetRotation(this.model.quaternion);
+    this.impostor?.position.copy(this.model.position);
+  }
+
+  // ============================================================================
+  // LEVEL OF DETAIL
+  // ============================================================================
+
+  /**
+   * Pick the update rate for the distance to the player.
+   * Returns the seconds to wait between updates.
+   */
+  private updateLod(): number {
+    const { fullRateRadius, throttledInterval, impostorDistance, impostorInterval } = LOD_CONFIG.animals;
+    const distance = this.player ? this.model.position.distanceTo(this.player.position) : 0;
+
+    let lod: AnimalLod = 'full';
+    if (distance >= impostorDistance) {
+      lod = 'impostor';
+    } else if (distance >= fullRateRadius) {
+      lod = 'throttled';
+    }
+    if (lod !== this.lod) {
+      this.setLod(lod);
+    }
+
+    if (lod === 'impostor') return impostorInterval;
+    if (lod === 'throttled') return throttledInterval;
+    return 0;
+  }
+
+  /**
+   * Switch shadows and the impostor for an update rate. Only animals
+   * updating every frame cast shadows.
+   */
+  private setLod(lod: AnimalLod): void {
+    this.lod = lod;
+
+    this.model.traverse((child) => {
+      if ((child as THREE.Mesh).isMesh) {
+        child.castShadow = lod === 'full';
+      }
+    });
+
+    if (lod === 'impostor' && this.showImpostor()) {
+      this.model.visible = false;
+    } else {
+      this.model.visible = true;
+      if (this.impostor) {
+        this.scene.remove(this.impostor);
+      }
+    }
+  }
+
+  /**
+   * Put the impostor in place of the model, baking the animal's view on
+   * first use. False if no view can be baked.
+   */
+  private showImpostor(): boolean {
+    if (!this.impostor) {
+      const key = `animal:${this.animalType}`;
+      const material = this.impostors?.GetSpriteMaterial(key, this.model);
+      const view = this.impostors?.Get(key, this.model);
+      if (!material || !view) return false;
+
+      this.impostor = new THREE.Sprite(material);
+      this.impostor.scale.set(view.width, view.height, 1);
+      this.impostor.center.set(0.5, -view.minY / view.height);
+    }
+
+    this.impostor.position.copy(this.model.position);
+    this.scene.add(this.impostor);
+    return true;
+  }
+
+  // ============================================================================
+  // POOLING
+  // ============================================================================
+
+  /** Animal type, used to key entity pools */
+  get animalType(): AnimalType {
+    return this.getAnimalConfig().animalType;
+  }
+
+  /**
+   * Take the animal out of the world so its entity can be pooled. The
+   * model, animations and hit handler are kept for Reset().
+   */
+  Release(): void {
+    this.setLod('full');
+    this.lodTimer = 0;
+
+    // Same collider teardown as dying
+    this.onDeath();
+    this.removeBloodPool();
+    this.scene.remove(this.model);
+    this.animationController.stopAll();
+    this.clearPath();
+    this.drinkTimer = 0;
+
+    const healthBar = this.GetComponent('HealthBar') as HealthBarComponent | undefined;
+    if (healthBar?.container) {
+      healthBar.container.visible = false;
+    }
+  }
+
+  /**
+   * Bring a pooled animal back at its entity's position, at full health
+   * and in its initial state.
+   */
+  Reset(): void {
+    const config = this.getAnimalConfig();
+    this.health = config.health;
+    this.maxHealth = config.maxHealth;
+    this.isDead = false;
+    this.lastHit = null;
+    this.thirstTimer = this.rollThirst();
+    this.drinkTimer = 0;
+
+    this.model.position.copy(this.parent!.position);
+    this.scene.add(this.model);
+    if (!this.ghostObj) {
+      this.createCollider();
+    }
+
+    const healthBar = this.GetComponent('HealthBar') as HealthBarComponent | undefined;
+    if (healthBar?.container) {
+      healthBar.container.visible = true;
+    }
+
+    // Fresh states, so no timers or targets carry over
+    this.stateMachine = this.createStateMachine();
+    this.stateMachine.SetState(this.getInitialState());
+
+    this.onReset();
+  }
+
+  /**
+   * Hook for subclass state to reset.
+   * Called at the end of Reset().
+   */
+  protected onReset(): void {
+    // Override in subclass if needed
   }
 
   // ============================================================================
@@ -593,12 +927,12 @@ export abstract class AnimalController<TState extends string> extends Component
       this.ghostObj = null;
     }
 
-    // Remove blood pool
-    if (this.bloodPool && this.scene) {
-      this.scene.remove(this.bloodPool);
-      this.bloodPool.geometry.dispose();
-      (this.bloodPool.material as THREE.Material).dispose();
-      this.bloodPool = null;
+    this.removeBloodPool();
+
+    // The sprite material is shared per animal type
+    if (this.impostor) {
+      this.scene.remove(this.impostor);
+      this.impostor = null;
     }
 
     // Remove model
@@ -609,4 +943,13 @@ export abstract class AnimalController<TState extends string> extends Component
     // Dispose animation controller
     this.animationController.dispose();
   }
+
+  private removeBloodPool(): void {
+    if (this.bloodPool && this.scene) {
+      this.scene.remove(this.bloodPool);
+      this.bloodPool.geometry.dispose();
+      (this.bloodPool.material as THREE.Material).dispose();
+      this.bloodPool = null;
+    }
+  }
 }
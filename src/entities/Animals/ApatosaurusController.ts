@@ -36,7 +36,7 @@ class IdleState extends State<ApatosaurusState, ApatosaurusController> {
   private waitTime: number = 0;
 
   override Enter(_prevState: IState<ApatosaurusState, ApatosaurusController> | null): void {
-    this.waitTime = Math.random() * 5 + 3; // Wait 3-8 seconds (relaxed)
+    this.waitTime = this.parent.proxy.rng.range(3, 8); // Wait 3-8 seconds (relaxed)
     this.parent.proxy.playAnimation('idle');
   }
 
@@ -49,9 +49,13 @@ class IdleState extends State<ApatosaurusState, ApatosaurusController> {
       return;
     }
 
-    // Done waiting, wander somewhere
+    // Done waiting, wander somewhere (or keep resting at this hour)
     if (this.waitTime <= 0) {
-      this.parent.SetState('wander');
+      if (this.parent.proxy.isResting()) {
+        this.waitTime = this.parent.proxy.rng.range(3, 8);
+      } else {
+        this.parent.SetState('wander');
+      }
     }
   }
 }
@@ -241,7 +245,7 @@ export default class ApatosaurusController extends AnimalController<ApatosaurusS
     fleeDir.y = 0;
 
     if (fleeDir.lengthSq() < 0.001) {
-      fleeDir.set(Math.random() - 0.5, 0, Math.random() - 0.5);
+      fleeDir.set(this.rng.spread(1), 0, this.rng.spread(1));
     }
     fleeDir.normalize();
 
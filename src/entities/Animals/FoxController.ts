@@ -36,7 +36,7 @@ class IdleState extends State<FoxState, FoxController> {
   private waitTime: number = 0;
 
   override Enter(_prevState: IState<FoxState, FoxController> | null): void {
-    this.waitTime = Math.random() * 2 + 1; // Wait 1-3 seconds
+    this.waitTime = this.parent.proxy.rng.range(1, 3); // Wait 1-3 seconds
     this.parent.proxy.playAnimation('idle');
   }
 
@@ -49,9 +49,13 @@ class IdleState extends State<FoxState, FoxController> {
       return;
     }
 
-    // Done waiting, patrol somewhere
+    // Done waiting, patrol somewhere (or keep resting at this hour)
     if (this.waitTime <= 0) {
-      this.parent.SetState('patrol');
+      if (this.parent.proxy.isResting()) {
+        this.waitTime = this.parent.proxy.rng.range(1, 3);
+      } else {
+        this.parent.SetState('patrol');
+      }
     }
   }
 }
@@ -287,9 +291,8 @@ export default class FoxController extends AnimalController<FoxState> {
     super.notifyManagers();
 
     // 40% chance to drop a weapon when fox dies
-    const spawnManager = this.FindEntity('SpawnManager');
-    if (spawnManager && Math.random() < 0.4) {
-      spawnManager.Broadcast({
+    if (this.rng.chance(0.4)) {
+      this.Publish({
         topic: 'fox_weapon_drop',
         position: this.model.position.clone(),
       });
@@ -314,7 +317,9 @@ export default class FoxController extends AnimalController<FoxState> {
     const dz = playerPos.z - foxPos.z;
     const distSq = dx * dx + dz * dz;
 
-    return distSq <= FOX_BEHAVIOR_CONFIG.viewDistance! ** 2;
+    // Fog cuts the view range
+    const viewDistance = FOX_BEHAVIOR_CONFIG.viewDistance! * this.getVisibilityMultiplier();
+    return distSq <= viewDistance ** 2;
   }
 
   /**
@@ -361,6 +366,8 @@ export default class FoxController extends AnimalController<FoxState> {
       this.player.Broadcast({
         topic: 'hit',
         amount: FOX_BEHAVIOR_CONFIG.attackDamage!,
+        from: this.parent!,
+        damageType: 'melee',
       });
     }
   }
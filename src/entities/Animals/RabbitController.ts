@@ -36,7 +36,7 @@ class IdleState extends State<RabbitState, RabbitController> {
   private waitTime: number = 0;
 
   override Enter(_prevState: IState<RabbitState, RabbitController> | null): void {
-    this.waitTime = Math.random() * 3 + 1; // Wait 1-4 seconds
+    this.waitTime = this.parent.proxy.rng.range(1, 4); // Wait 1-4 seconds
     this.parent.proxy.playAnimation('idle');
   }
 
@@ -49,9 +49,13 @@ class IdleState extends State<RabbitState, RabbitController> {
       return;
     }
 
-    // Done waiting, wander somewhere
+    // Done waiting, wander somewhere (or keep resting at this hour)
     if (this.waitTime <= 0) {
-      this.parent.SetState('wander');
+      if (this.parent.proxy.isResting()) {
+        this.waitTime = this.parent.proxy.rng.range(1, 4);
+      } else {
+        this.parent.SetState('wander');
+      }
     }
   }
 }
@@ -221,12 +225,12 @@ export default class RabbitController extends AnimalController<RabbitState> {
   // ============================================================================
 
   /**
-   * Check if player is within flee distance.
+   * Check if player is within flee distance (shorter in rain).
    */
   isPlayerNear(): boolean {
     if (!this.player) return false;
     const dist = this.model.position.distanceTo(this.player.Position);
-    return dist < RABBIT_BEHAVIOR_CONFIG.fleeDistance!;
+    return dist < RABBIT_BEHAVIOR_CONFIG.fleeDistance! * this.getHearingMultiplier();
   }
 
   /**
@@ -241,7 +245,7 @@ export default class RabbitController extends AnimalController<RabbitState> {
     fleeDir.y = 0;
 
     if (fleeDir.lengthSq() < 0.001) {
-      fleeDir.set(Math.random() - 0.5, 0, Math.random() - 0.5);
+      fleeDir.set(this.rng.spread(1), 0, this.rng.spread(1));
     }
     fleeDir.normalize();
 
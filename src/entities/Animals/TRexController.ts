@@ -36,7 +36,7 @@ class IdleState extends State<TRexState, TRexController> {
   private waitTime: number = 0;
 
   override Enter(_prevState: IState<TRexState, TRexController> | null): void {
-    this.waitTime = Math.random() * 3 + 2; // Wait 2-5 seconds (slower)
+    this.waitTime = this.parent.proxy.rng.range(2, 5); // Wait 2-5 seconds (slower)
     this.parent.proxy.playAnimation('idle');
   }
 
@@ -49,9 +49,13 @@ class IdleState extends State<TRexState, TRexController> {
       return;
     }
 
-    // Done waiting, patrol somewhere
+    // Done waiting, patrol somewhere (or keep resting at this hour)
     if (this.waitTime <= 0) {
-      this.parent.SetState('patrol');
+      if (this.parent.proxy.isResting()) {
+        this.waitTime = this.parent.proxy.rng.range(2, 5);
+      } else {
+        this.parent.SetState('patrol');
+      }
     }
   }
 }
@@ -287,9 +291,8 @@ export default class TRexController extends AnimalController<TRexState> {
     super.notifyManagers();
 
     // 60% chance to drop a weapon when T-Rex dies (more rewarding)
-    const spawnManager = this.FindEntity('SpawnManager');
-    if (spawnManager && Math.random() < 0.6) {
-      spawnManager.Broadcast({
+    if (this.rng.chance(0.6)) {
+      this.Publish({
         topic: 'fox_weapon_drop',
         position: this.model.position.clone(),
       });
@@ -360,6 +363,8 @@ export default class TRexController extends AnimalController<TRexState> {
       this.player.Broadcast({
         topic: 'hit',
         amount: TREX_BEHAVIOR_CONFIG.attackDamage!,
+        from: this.parent!,
+        damageType: 'melee',
       });
     }
   }
@@ -1,12 +1,34 @@
 /**
  * Game Manager Component
  *
- * Tracks game progression, kill count, and weapon tier upgrades.
+ * Tracks game progression (kills, per-animal kills, score) and grants
+ * weapons when their unlock rules in WEAPON_PROGRESSION are met.
+ * Ends the run on player death and handles respawn.
+ * Also holds the selected game mode for the run and, in Hunt mode,
+ * runs the hunt timer and records the final score on the leaderboard.
  */
 
 import Component from '../../core/Component';
-import type { AnimalKilledEvent, WeaponUpgradeEvent } from '../../types/events.types';
+import { WEAPONS, WEAPON_PROGRESSION, isWeaponUnlocked, type ProgressionStats } from '../../config/weapons.config';
+import { ENTITY_CONFIGS } from '../../config/animals.config';
+import { CONFIG, type GameMode } from '../../config/game.config';
+import {
+  readLeaderboard,
+  qualifiesForLeaderboard,
+  addLeaderboardEntry,
+  sanitizeLeaderboardName,
+} from '../../systems/Leaderboard';
+import { ComboScorer } from '../../systems/ComboScorer';
+import type {
+  AnimalKilledEvent,
+  WeaponUpgradeEvent,
+  PlayerDiedEvent,
+  PlayerRespawnEvent,
+  HuntEndedEvent,
+} from '../../types/events.types';
+import type { AnimalType } from '../../types/animation.types';
 import type { IEntity } from '../../types/entity.types';
+import type { ComponentSaveData, LeaderboardEntry } from '../../types/save.types';
 
 // ============================================================================
 // TYPES
@@ -15,8 +37,46 @@ import type { IEntity } from '../../types/entity.types';
 /** UI Manager interface */
 interface UIManagerComponent {
   SetScore(kills: number): void;
-  SetWeaponName(name: string): void;
+  ShowScorePopup(points: number, multiplier: number, labels: string[]): void;
   ShowUpgradeNotification(weaponName: string): void;
+  ShowGameOver(stats: RunStats): void;
+  HideGameOver(): void;
+  SetHuntStatus(secondsLeft: number, score: number): void;
+  ShowHuntResults(results: HuntResults, leaderboard: LeaderboardEntry[], canSubmit: boolean): void;
+  ShowLeaderboard(leaderboard: LeaderboardEntry[], highlightRank: number): void;
+}
+
+/** Stats shown on the game-over screen */
+interface RunStats {
+  kills: number;
+  score: number;
+  timeSurvived: number;
+  animalKills: Partial<Record<AnimalType, number>>;
+  weaponName: string;
+  wave?: number;
+}
+
+/** Results shown when a hunt ends */
+interface HuntResults {
+  score: number;
+  kills: number;
+  animalKills: Partial<Record<AnimalType, number>>;
+  timeUp: boolean;
+}
+
+/** Wave director interface */
+interface WaveDirectorComponent {
+  GetWave(): number;
+}
+
+/** PlayerPhysics interface */
+interface PlayerPhysicsComponent {
+  Teleport(x: number, y: number, z: number): void;
+}
+
+/** Terrain height interface */
+interface TerrainService {
+  GetHeight(x: number, z: number): number;
 }
 
 // ============================================================================
@@ -26,6 +86,9 @@ interface UIManagerComponent {
 export default class GameManager extends Component {
   override name = 'GameManager';
 
+  /** Game mode chosen in the menu */
+  private readonly mode: GameMode;
+
   // ============================================================================
   // STATE
   // ============================================================================
@@ -33,14 +96,32 @@ export default class GameManager extends Component {
   /** Total kills */
   private kills: number = 0;
 
-  /** Current weapon tier (0-3) */
+  /** Kills per animal type */
+  private animalKills: Partial<Record<AnimalType, number>> = {};
+
+  /** Total score (AnimalConfig.scoreValue plus combo bonuses) */
+  private score: number = 0;
+
+  /** Streak and multi-kill tracking for scoring */
+  private readonly scorer: ComboScorer = new ComboScorer();
+
+  /** Highest granted tier index in WEAPON_PROGRESSION */
   private currentWeaponTier: number = 0;
 
-  /** Kill thresholds for weapon tiers */
-  private readonly weaponThresholds: readonly number[] = [0, 15, 30, 50];
+  /** Tier indices already granted (rules can be met out of order) */
+  private grantedTiers: Set<number> = new Set([0]);
 
-  /** Weapon names for each tier */
-  private readonly weaponNames: readonly string[] = ['Hunting Rifle', 'AK-47', 'Gatling Gun', 'NUKE'];
+  /** Seconds survived in the current run */
+  private runTime: number = 0;
+
+  /** Whether the player is dead and the game-over screen is up */
+  private gameOver: boolean = false;
+
+  /** Last whole second shown on the hunt timer */
+  private shownHuntSeconds: number = -1;
+
+  /** Whether this hunt's score was already put on the leaderboard */
+  private huntSubmitted: boolean = false;
 
   // ============================================================================
   // REFERENCES
@@ -48,6 +129,17 @@ export default class GameManager extends Component {
 
   private uimanager: UIManagerComponent | null = null;
   private player: IEntity | null = null;
+  private waveDirector: WaveDirectorComponent | null = null;
+  private terrain: TerrainService | null = null;
+
+  // ============================================================================
+  // CONSTRUCTOR
+  // ============================================================================
+
+  constructor(mode: GameMode = 'freeroam') {
+    super();
+    this.mode = mode;
+  }
 
   // ============================================================================
   // INITIALIZATION
@@ -57,67 +149,259 @@ export default class GameManager extends Component {
     const uiEntity = this.FindEntity('UIManager');
     this.uimanager = uiEntity?.GetComponent('UIManager') as UIManagerComponent | undefined ?? null;
     this.player = this.FindEntity('Player') ?? null;
+    this.waveDirector = this.FindEntity('SpawnManager')?.GetComponent('WaveDirector') as WaveDirectorComponent | undefined ?? null;
+    this.terrain = this.FindEntity('Level')?.GetComponent('Terrain') as TerrainService | undefined ?? null;
 
-    // Listen for animal kills
-    this.parent!.RegisterEventHandler(this.onAnimalKilled, 'animal_killed');
+    // Listen for animal kills and player death
+    this.Subscribe('animal_killed', this.onAnimalKilled);
+    this.Subscribe('player_died', this.onPlayerDied);
 
     // Initial UI update
-    if (this.uimanager) {
-      this.uimanager.SetScore(this.kills);
-      this.uimanager.SetWeaponName(this.weaponNames[0]);
-    }
+    this.uimanager?.SetScore(this.kills);
+    this.updateHuntStatus();
   }
 
   // ============================================================================
   // EVENT HANDLERS
   // ============================================================================
 
-  private onAnimalKilled = (_msg: AnimalKilledEvent): void => {
+  private onAnimalKilled = (msg: AnimalKilledEvent): void => {
+    // Stats are frozen once the run is over
+    if (this.gameOver) return;
+
     this.kills++;
+    this.animalKills[msg.type] = (this.animalKills[msg.type] ?? 0) + 1;
+
+    const award = this.scorer.registerKill({
+      baseScore: ENTITY_CONFIGS[msg.type]?.scoreValue ?? 0,
+      time: this.runTime,
+      distance: msg.distance,
+      zone: msg.zone,
+    });
+    this.score += award.points;
+
     this.uimanager?.SetScore(this.kills);
+    this.uimanager?.ShowScorePopup(award.points, award.multiplier, award.labels);
+    this.updateHuntStatus(true);
     this.checkWeaponUpgrade();
   };
 
+  private onPlayerDied = (_msg: PlayerDiedEvent): void => {
+    if (this.gameOver) return;
+    this.scorer.reset();
+
+    // A hunt has no respawn - dying just ends it early
+    if (this.mode === 'hunt') {
+      this.endHunt(false);
+      return;
+    }
+
+    this.gameOver = true;
+
+    const topTier = WEAPON_PROGRESSION[this.currentWeaponTier];
+    this.uimanager?.ShowGameOver({
+      kills: this.kills,
+      score: this.score,
+      timeSurvived: this.runTime,
+      animalKills: { ...this.animalKills },
+      weaponName: WEAPONS[topTier.weapon].name,
+      wave: this.waveDirector?.GetWave(),
+    });
+  };
+
+  // ============================================================================
+  // RESPAWN
+  // ============================================================================
+
+  /**
+   * Bring the player back after death.
+   * What is kept is controlled by CONFIG.respawn.
+   */
+  Respawn(): void {
+    // Hunts end for good
+    if (!this.gameOver || this.mode === 'hunt') return;
+    this.gameOver = false;
+
+    const { keepWeapons, keepProgress, spawnPoint } = CONFIG.respawn;
+
+    // Back to the start point, away from whatever killed the player
+    const playerPhysics = this.player?.GetComponent('PlayerPhysics') as PlayerPhysicsComponent | undefined;
+    const groundY = this.terrain?.GetHeight(spawnPoint.x, spawnPoint.z) ?? 0;
+    playerPhysics?.Teleport(spawnPoint.x, groundY + spawnPoint.height, spawnPoint.z);
+
+    if (!keepProgress) {
+      this.kills = 0;
+      this.animalKills = {};
+      this.score = 0;
+      this.currentWeaponTier = 0;
+      this.grantedTiers = new Set([0]);
+      this.runTime = 0;
+    }
+
+    const respawnEvent: PlayerRespawnEvent = {
+      topic: 'player_respawn',
+      keepWeapons,
+      keepProgress,
+    };
+    this.Publish(respawnEvent);
+
+    this.uimanager?.HideGameOver();
+    this.uimanager?.SetScore(this.kills);
+  }
+
+  /**
+   * Whether the run has ended (player dead).
+   */
+  IsGameOver(): boolean {
+    return this.gameOver;
+  }
+
+  // ============================================================================
+  // HUNT MODE
+  // ============================================================================
+
+  private getHuntSecondsLeft(): number {
+    return Math.max(0, Math.ceil(CONFIG.hunt.duration - this.runTime));
+  }
+
+  /**
+   * Refresh the hunt timer/score HUD when the shown second changes.
+   */
+  private updateHuntStatus(force: boolean = false): void {
+    if (this.mode !== 'hunt') return;
+
+    const seconds = this.getHuntSecondsLeft();
+    if (force || seconds !== this.shownHuntSeconds) {
+      this.shownHuntSeconds = seconds;
+      this.uimanager?.SetHuntStatus(seconds, this.score);
+    }
+  }
+
+  private endHunt(timeUp: boolean): void {
+    this.gameOver = true;
+
+    // Freeze the player the same way death does
+    if (timeUp) {
+      const endEvent: HuntEndedEvent = {
+        topic: 'hunt_ended',
+        score: this.score,
+      };
+      this.Publish(endEvent);
+    }
+
+    this.uimanager?.ShowHuntResults(
+      {
+        score: this.score,
+        kills: this.kills,
+        animalKills: { ...this.animalKills },
+        timeUp,
+      },
+      readLeaderboard(),
+      qualifiesForLeaderboard(this.score)
+    );
+  }
+
+  /**
+   * Put the finished hunt on the leaderboard under the given name.
+   * Only works once per hunt, and only if the score placed.
+   */
+  SubmitHuntScore(name: string): void {
+    if (this.mode !== 'hunt' || !this.gameOver || this.huntSubmitted) return;
+    if (!qualifiesForLeaderboard(this.score)) return;
+
+    this.huntSubmitted = true;
+    const rank = addLeaderboardEntry({
+      name: sanitizeLeaderboardName(name),
+      score: this.score,
+      kills: this.kills,
+      date: Date.now(),
+    });
+    this.uimanager?.ShowLeaderboard(readLeaderboard(), rank);
+  }
+
   // ============================================================================
   // WEAPON PROGRESSION
   // ============================================================================
 
   private checkWeaponUpgrade(): void {
-    // Find the highest tier we qualify for
-    let newTier = 0;
-    for (let i = this.weaponThresholds.length - 1; i >= 0; i--) {
-      if (this.kills >= this.weaponThresholds[i]) {
-        newTier = i;
-        break;
-      }
-    }
+    const stats = this.GetProgressionStats();
 
-    if (newTier > this.currentWeaponTier) {
-      this.currentWeaponTier = newTier;
-      const weaponName = this.weaponNames[newTier];
+    WEAPON_PROGRESSION.forEach((rule, tier) => {
+      if (this.grantedTiers.has(tier) || !isWeaponUnlocked(rule, stats)) return;
+
+      this.grantedTiers.add(tier);
+      this.currentWeaponTier = Math.max(this.currentWeaponTier, tier);
+      const weaponName = WEAPONS[rule.weapon].name;
 
       // Notify player about weapon upgrade
       if (this.player) {
         const upgradeEvent: WeaponUpgradeEvent = {
           topic: 'weapon_upgrade',
-          tier: newTier,
-          weaponName: weaponName,
+          tier,
+          weaponKey: rule.weapon,
+          weaponName,
         };
         this.player.Broadcast(upgradeEvent);
       }
 
       // Show upgrade notification in UI
-      if (this.uimanager) {
-        this.uimanager.ShowUpgradeNotification(weaponName);
-        this.uimanager.SetWeaponName(weaponName);
-      }
+      this.uimanager?.ShowUpgradeNotification(weaponName);
+    });
+  }
+
+  // ============================================================================
+  // SAVE / LOAD
+  // ============================================================================
+
+  SaveState(): ComponentSaveData {
+    return {
+      kills: this.kills,
+      animalKills: { ...this.animalKills },
+      score: this.score,
+      weaponTier: this.currentWeaponTier,
+      grantedTiers: [...this.grantedTiers],
+      runTime: this.runTime,
+    };
+  }
+
+  LoadState(data: ComponentSaveData): void {
+    if (typeof data.kills === 'number') {
+      this.kills = data.kills;
+    }
+    if (typeof data.score === 'number') {
+      this.score = data.score;
     }
+    if (typeof data.runTime === 'number') {
+      this.runTime = data.runTime;
+    }
+    if (data.animalKills && typeof data.animalKills === 'object') {
+      this.animalKills = { ...(data.animalKills as Partial<Record<AnimalType, number>>) };
+    }
+    if (typeof data.weaponTier === 'number') {
+      this.currentWeaponTier = Math.min(data.weaponTier, WEAPON_PROGRESSION.length - 1);
+    }
+    if (Array.isArray(data.grantedTiers)) {
+      this.grantedTiers = new Set(data.grantedTiers.filter((t): t is number => typeof t === 'number'));
+    } else {
+      // Older saves only stored the highest tier
+      this.grantedTiers = new Set(Array.from({ length: this.currentWeaponTier + 1 }, (_, i) => i));
+    }
+
+    this.uimanager?.SetScore(this.kills);
+    this.updateHuntStatus(true);
   }
 
   // ============================================================================
   // ACCESSORS
   // ============================================================================
 
+  /**
+   * Get the game mode of this run.
+   */
+  GetMode(): GameMode {
+    return this.mode;
+  }
+
   /**
    * Get current kill count.
    */
@@ -131,4 +415,39 @@ export default class GameManager extends Component {
   GetCurrentWeaponTier(): number {
     return this.currentWeaponTier;
   }
+
+  /**
+   * Get current score.
+   */
+  GetScore(): number {
+    return this.score;
+  }
+
+  /**
+   * Get progress counters used by weapon unlock rules.
+   */
+  GetProgressionStats(): ProgressionStats {
+    return {
+      kills: this.kills,
+      animalKills: this.animalKills,
+      score: this.score,
+    };
+  }
+
+  // ============================================================================
+  // UPDATE
+  // ============================================================================
+
+  override Update(deltaTime: number): void {
+    if (this.gameOver) return;
+
+    this.runTime += deltaTime;
+
+    if (this.mode === 'hunt') {
+      this.updateHuntStatus();
+      if (this.runTime >= CONFIG.hunt.duration) {
+        this.endHunt(true);
+      }
+    }
+  }
 }
@@ -0,0 +1,128 @@
+/**
+ * Save Manager Component
+ *
+ * Autosaves the game to localStorage on an interval and when the tab
+ * is hidden or closed. Snapshot building lives in systems/SaveSystem.
+ */
+
+import Component from '../../core/Component';
+import { createSnapshot, writeSave, clearSave } from '../../systems/SaveSystem';
+import type { IEntityManager } from '../../types/entity.types';
+import type { GameMode } from '../../config/game.config';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Level random service interface */
+interface RandomService {
+  GetSeed(): number;
+}
+
+/** Game manager interface */
+interface GameManagerComponent {
+  GetMode(): GameMode;
+  IsGameOver(): boolean;
+}
+
+/** Player health interface */
+interface PlayerHealthComponent {
+  isAlive(): boolean;
+}
+
+// ============================================================================
+// SAVE MANAGER COMPONENT
+// ============================================================================
+
+export default class SaveManager extends Component {
+  override name = 'SaveManager';
+
+  // ============================================================================
+  // CONFIGURATION
+  // ============================================================================
+
+  /** Seconds between autosaves */
+  private readonly autosaveInterval: number = 10;
+
+  // ============================================================================
+  // STATE
+  // ============================================================================
+
+  private autosaveTimer: number = 0;
+
+  // ============================================================================
+  // REFERENCES
+  // ============================================================================
+
+  private random: RandomService | null = null;
+  private playerHealth: PlayerHealthComponent | null = null;
+  private gameManager: GameManagerComponent | null = null;
+
+  // ============================================================================
+  // INITIALIZATION
+  // ============================================================================
+
+  override Initialize(): void {
+    this.random = this.FindEntity('Level')?.GetComponent('Random') as RandomService | undefined ?? null;
+    this.playerHealth = this.FindEntity('Player')?.GetComponent('PlayerHealth') as PlayerHealthComponent | undefined ?? null;
+    this.gameManager = this.GetComponent('GameManager') as GameManagerComponent | undefined ?? null;
+
+    window.addEventListener('beforeunload', this.onPageHide);
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+  }
+
+  // ============================================================================
+  // EVENT HANDLERS
+  // ============================================================================
+
+  private onPageHide = (): void => {
+    this.Save();
+  };
+
+  private onVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.Save();
+    }
+  };
+
+  // ============================================================================
+  // SAVE
+  // ============================================================================
+
+  /**
+   * Write a snapshot now. A dead player's run or a finished hunt is
+   * not resumable, so the slot is cleared instead.
+   */
+  Save(): void {
+    const entityManager = this.parent?.parent as IEntityManager | null | undefined;
+    if (!entityManager) return;
+
+    if ((this.playerHealth && !this.playerHealth.isAlive()) || this.gameManager?.IsGameOver()) {
+      clearSave();
+      return;
+    }
+
+    writeSave(createSnapshot(entityManager, this.random?.GetSeed() ?? null, this.gameManager?.GetMode()));
+  }
+
+  // ============================================================================
+  // UPDATE
+  // ============================================================================
+
+  override Update(deltaTime: number): void {
+    this.autosaveTimer += deltaTime;
+    if (this.autosaveTimer >= this.autosaveInterval) {
+      this.autosaveTimer = 0;
+      this.Save();
+    }
+  }
+
+  // ============================================================================
+  // CLEANUP
+  // ============================================================================
+
+  override Cleanup(): void {
+    window.removeEventListener('beforeunload', this.onPageHide);
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+  }
+}
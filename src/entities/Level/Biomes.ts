@@ -0,0 +1,143 @@
+/**
+ * Biomes Component
+ *
+ * Biome map service on the Level entity. Tiles ask it what to grow and
+ * spawn, the ground mesh asks it for per-vertex colour and lighting asks
+ * it for a tint at the player, all from the same blended weights so the
+ * borders between biomes fade rather than cut.
+ */
+
+import * as THREE from 'three';
+import Component from '../../core/Component';
+import { BIOME_CONFIG, type BiomeType, type BiomeDefinition } from '../../config/biomes.config';
+import { hashSeed } from '../../systems/SeededRandom';
+import { valueNoise } from '../../systems/TerrainNoise';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Share of each biome at a position; sums to 1 */
+export type BiomeWeights = Record<BiomeType, number>;
+
+const BIOME_TYPES = Object.keys(BIOME_CONFIG.biomes) as BiomeType[];
+
+/** Value noise rarely leaves +-0.7; stretch it to cover climate space */
+const CLIMATE_STRETCH = 1.4;
+
+// ============================================================================
+// BIOMES COMPONENT
+// ============================================================================
+
+export default class Biomes extends Component {
+  override name = 'Biomes';
+
+  private readonly moistureSeed: number;
+  private readonly ruggednessSeed: number;
+
+  private readonly tempColor = new THREE.Color();
+
+  constructor(seed: number) {
+    super();
+    this.moistureSeed = hashSeed(seed, 'biome', 'moisture') | 0;
+    this.ruggednessSeed = hashSeed(seed, 'biome', 'ruggedness') | 0;
+  }
+
+  // ============================================================================
+  // WEIGHTS
+  // ============================================================================
+
+  /**
+   * Blend of biomes at a world position. The nearest biome in climate
+   * space always has full weight; others fade in over blendWidth as the
+   * climate approaches them.
+   */
+  GetWeights(x: number, z: number): BiomeWeights {
+    const moisture = this.climate(this.moistureSeed, x, z);
+    const ruggedness = this.climate(this.ruggednessSeed, x, z);
+
+    const distances = BIOME_TYPES.map((type) => {
+      const biome = BIOME_CONFIG.biomes[type];
+      return Math.hypot(moisture - biome.moisture, ruggedness - biome.ruggedness);
+    });
+    const nearest = Math.min(...distances);
+
+    const weights = {} as BiomeWeights;
+    let total = 0;
+    BIOME_TYPES.forEach((type, i) => {
+      const weight = Math.max(0, 1 - (distances[i] - nearest) / BIOME_CONFIG.blendWidth);
+      weights[type] = weight;
+      total += weight;
+    });
+    for (const type of BIOME_TYPES) {
+      weights[type] /= total;
+    }
+    return weights;
+  }
+
+  /**
+   * Dominant biome at a world position.
+   */
+  GetBiome(x: number, z: number): BiomeType {
+    const weights = this.GetWeights(x, z);
+    return BIOME_TYPES.reduce((best, type) => (weights[type] > weights[best] ? type : best));
+  }
+
+  /**
+   * Weighted average of a numeric biome property.
+   */
+  Blend(weights: BiomeWeights, pick: (biome: BiomeDefinition, type: BiomeType) => number): number {
+    let value = 0;
+    for (const type of BIOME_TYPES) {
+      if (weights[type] > 0) {
+        value += pick(BIOME_CONFIG.biomes[type], type) * weights[type];
+      }
+    }
+    return value;
+  }
+
+  // ============================================================================
+  // COLOURS
+  // ============================================================================
+
+  /**
+   * Ground colour at a world position (multiplied over the grass texture).
+   */
+  GetGroundColor(x: number, z: number, target: THREE.Color): THREE.Color {
+    return this.blendColor(this.GetWeights(x, z), 'groundColor', target);
+  }
+
+  /**
+   * Light tint at a world position.
+   */
+  GetLightTint(x: number, z: number, target: THREE.Color): THREE.Color {
+    return this.blendColor(this.GetWeights(x, z), 'lightTint', target);
+  }
+
+  private blendColor(
+    weights: BiomeWeights,
+    key: 'groundColor' | 'lightTint',
+    target: THREE.Color
+  ): THREE.Color {
+    target.setRGB(0, 0, 0);
+    for (const type of BIOME_TYPES) {
+      if (weights[type] > 0) {
+        this.tempColor.setHex(BIOME_CONFIG.biomes[type][key]).multiplyScalar(weights[type]);
+        target.add(this.tempColor);
+      }
+    }
+    return target;
+  }
+
+  // ============================================================================
+  // CLIMATE
+  // ============================================================================
+
+  private climate(seed: number, x: number, z: number): number {
+    const u = x / BIOME_CONFIG.wavelength;
+    const v = z / BIOME_CONFIG.wavelength;
+    // A faint second octave keeps borders from following the lattice
+    const n = valueNoise(seed, u, v) + 0.35 * valueNoise(seed ^ 0x5bd1e995, u * 2.3, v * 2.3);
+    return THREE.MathUtils.clamp((n / 1.35) * CLIMATE_STRETCH, -1, 1);
+  }
+}
@@ -3,12 +3,7 @@ import { Ammo } from '../../core/AmmoLib';
 import { Component } from '../../core/Component';
 import { DecalGeometry } from 'three/examples/jsm/geometries/DecalGeometry';
 import type { HitEvent } from '../../types/events.types';
-
-interface HitResult {
-  intersectionNormal: THREE.Vector3;
-  intersectionPoint: THREE.Vector3;
-  collisionObject: unknown;
-}
+import type PropInstances from './PropInstances';
 
 export default class LevelBulletDecals extends Component {
   public readonly name = 'LevelBulletDecals';
@@ -21,6 +16,9 @@ export default class LevelBulletDecals extends Component {
   private scale: THREE.Vector3;
   private material: THREE.MeshStandardMaterial;
 
+  // Instanced trees and rocks (from Level 'PropInstances' component)
+  private props: PropInstances | null = null;
+
   constructor(
     scene: THREE.Scene,
     colorMap: THREE.Texture,
@@ -47,24 +45,35 @@ export default class LevelBulletDecals extends Component {
     });
   }
 
-  Hit = (e: { hitResult: HitResult }): void => {
+  Hit = (e: HitEvent): void => {
+    if (!e.hitResult) return;
+
+    // Instanced props have no mesh of their own; ask for a stand-in
+    const target = this.props?.GetDecalTarget(e.hitResult.intersectionPoint, e.hitResult.intersectionNormal) ?? null;
+    const rigidBody = Ammo.castObject(e.hitResult.collisionObject, Ammo.btRigidBody);
+    const mesh = target?.mesh ?? ((rigidBody as any).mesh as THREE.Mesh | undefined);
+    if (!mesh) return;
+
     this.mat4.lookAt(this.position, e.hitResult.intersectionNormal, this.up);
     this.rot.setFromRotationMatrix(this.mat4);
 
     const size = Math.random() * 0.3 + 0.2;
     this.scale.set(size, size, 1.0);
 
-    const rigidBody = Ammo.castObject(e.hitResult.collisionObject, Ammo.btRigidBody);
-    const mesh = (rigidBody as any).mesh as THREE.Mesh;
-
     const m = new THREE.Mesh(
       new DecalGeometry(mesh, e.hitResult.intersectionPoint, this.rot, this.scale),
       this.material
     );
     this.scene.add(m);
+
+    // Goes away when the prop's tile streams out
+    if (target) {
+      this.props!.Attach(target.instance, m);
+    }
   };
 
   Initialize(): void {
-    this.parent.RegisterEventHandler(this.Hit, 'hit');
+    this.props = (this.GetComponent('PropInstances') as PropInstances | undefined) ?? null;
+    this.parent!.RegisterEventHandler(this.Hit, 'hit');
   }
 }
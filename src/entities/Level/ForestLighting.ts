@@ -1,22 +1,47 @@
 import * as THREE from 'three';
 import { Component } from '../../core/Component';
+import type WorldClock from './WorldClock';
+import type Biomes from './Biomes';
+import type { IEntity } from '../../types/entity.types';
+
+/** Distance of the sun/moon light from the origin */
+const SUN_DISTANCE = 60;
 
 export default class ForestLighting extends Component {
   public readonly name = 'ForestLighting';
 
   private scene: THREE.Scene;
 
+  private sunLight: THREE.DirectionalLight | null = null;
+  private hemiLight: THREE.HemisphereLight | null = null;
+  private fog: THREE.Fog | null = null;
+  private background: THREE.Color = new THREE.Color(0x87ceeb);
+
+  // Time of day (from Level 'WorldClock' component)
+  private clock: WorldClock | null = null;
+
+  // Biome light tint at the player (from Level 'Biomes' component)
+  private biomes: Biomes | null = null;
+  private player: IEntity | null = null;
+
+  private readonly sunDir = new THREE.Vector3();
+  private readonly tint = new THREE.Color(1, 1, 1);
+
   constructor(scene: THREE.Scene) {
     super();
     this.scene = scene;
   }
 
   Initialize(): void {
+    this.clock = (this.GetComponent('WorldClock') as WorldClock | undefined) ?? null;
+    this.biomes = (this.GetComponent('Biomes') as Biomes | undefined) ?? null;
+    this.player = this.FindEntity('Player') ?? null;
     this.CreateLighting();
+    this.ApplyTimeOfDay();
   }
 
   CreateLighting(): void {
-    // Warm sun light
+    // Warm sun light (doubles as moonlight at night)
     const sunLight = new THREE.DirectionalLight(0xfff4e5, 1.2);
     sunLight.position.set(30, 50, 20);
     sunLight.castShadow = true;
@@ -29,15 +54,51 @@ export default class ForestLighting extends Component {
     sunLight.shadow.camera.top = 100;
     sunLight.shadow.camera.bottom = -100;
     this.scene.add(sunLight);
+    this.sunLight = sunLight;
 
-    // Ambient light for shadows
-    const ambientLight = new THREE.AmbientLight(0x6b8cff, 0.4);
-    this.scene.add(ambientLight);
+    // Sky/ground fill light for shadows
+    const hemiLight = new THREE.HemisphereLight(0x6b8cff, 0x6b5a3a, 0.45);
+    this.scene.add(hemiLight);
+    this.hemiLight = hemiLight;
 
     // Sky color
-    this.scene.background = new THREE.Color(0x87ceeb);
+    this.scene.background = this.background;
 
     // Optional fog for depth (extended for infinite terrain)
-    this.scene.fog = new THREE.Fog(0x87ceeb, 60, 200);
+    this.fog = new THREE.Fog(0x87ceeb, 60, 200);
+    this.scene.fog = this.fog;
+  }
+
+  /**
+   * Match lights, fog and background to the world clock.
+   */
+  ApplyTimeOfDay(): void {
+    if (!this.clock || !this.sunLight || !this.hemiLight || !this.fog) return;
+
+    const lighting = this.clock.GetLighting();
+
+    this.clock.GetLightDirection(this.sunDir);
+    this.sunLight.position.copy(this.sunDir).multiplyScalar(SUN_DISTANCE);
+    this.sunLight.color.copy(lighting.sunColor);
+    this.sunLight.intensity = lighting.sunIntensity;
+
+    this.hemiLight.color.copy(lighting.skyColor);
+    this.hemiLight.groundColor.copy(lighting.groundColor);
+    this.hemiLight.intensity = lighting.hemiIntensity;
+
+    // Tint for the biome the player is standing in
+    if (this.biomes && this.player) {
+      const pos = this.player.position;
+      this.biomes.GetLightTint(pos.x, pos.z, this.tint);
+      this.sunLight.color.multiply(this.tint);
+      this.hemiLight.color.multiply(this.tint);
+    }
+
+    this.fog.color.copy(lighting.horizonColor);
+    this.background.copy(lighting.horizonColor);
+  }
+
+  Update(_deltaTime: number): void {
+    this.ApplyTimeOfDay();
   }
 }
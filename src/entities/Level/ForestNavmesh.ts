@@ -1,41 +1,583 @@
 import * as THREE from 'three';
+import { Pathfinding } from 'three-pathfinding';
 import { Component } from '../../core/Component';
+import { SeededRandom } from '../../systems/SeededRandom';
+import { TERRAIN_CONFIG } from '../../config/terrain.config';
+import type LevelRandom from './LevelRandom';
+import type Terrain from './Terrain';
+import type { TerrainSamples } from './Terrain';
+
+/** Something animals must walk around, e.g. a tree trunk or rock */
+export interface NavObstacle {
+  x: number;
+  z: number;
+  radius: number;
+}
+
+/** Navigation data for one loaded tile */
+interface NavTile {
+  /** three-pathfinding zone holding this tile's mesh */
+  zone: string;
+  originX: number;
+  originZ: number;
+  cells: number;
+  /** One flag per nav cell, row-major from the (-X,-Z) corner */
+  walkable: Uint8Array;
+  /** Connected region per walkable cell (-1 when blocked) */
+  regions: Int32Array;
+}
+
+/** Nav cells per terrain cell along each axis; obstacles need the finer grid */
+const NAV_SUBDIVISIONS = 2;
+
+/** Clearance kept between an animal's centre and an obstacle */
+const AGENT_RADIUS = 0.5;
+
+/** Attempts to find a walkable wander target before giving up */
+const RANDOM_NODE_ATTEMPTS = 8;
+
+/** Sideways offsets (in cells) tried when the direct line is blocked */
+const DETOUR_OFFSETS = [4, -4, 8, -8, 12, -12];
+
+/** Directions tried when looking for a shoreline */
+const SHORE_DIRECTIONS = 12;
+
+/** Neighbouring tiles, as [dx, dz] */
+const TILE_NEIGHBOURS: ReadonlyArray<readonly [number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+/** Where an animal can stand to drink, and the water it faces */
+export interface ShorePoint {
+  position: THREE.Vector3;
+  water: THREE.Vector3;
+}
 
 /**
- * Simplified navmesh for infinite flat terrain.
- * Since terrain is flat and infinite, we use direct navigation.
+ * Navmesh for infinite hilly terrain.
+ * Each loaded tile builds its own three-pathfinding zone from the cells
+ * that are dry, not too steep and clear of trees and rocks. Paths inside a
+ * tile come from that zone; longer paths hop tile to tile through border
+ * cells that are open on both sides, so unloading a tile only drops its
+ * own zone.
  */
 export default class ForestNavmesh extends Component {
   public readonly name = 'Navmesh';
 
+  // Wander targets come from the Level's 'ai' stream
+  private rng: SeededRandom = new SeededRandom(Date.now());
+
+  // Ground heights (from Level 'Terrain' component)
+  private terrain: Terrain | null = null;
+
+  // One zone per loaded tile, keyed "tile:x,z"
+  private pathfinding = new Pathfinding();
+
+  // Navigation data per loaded tile, keyed by "x,z"
+  private tiles = new Map<string, NavTile>();
+  private tileSize = 40;
+  private cellSize = 1;
+
   constructor() {
     super();
   }
 
   Initialize(): void {
-    // No complex navmesh needed for flat infinite terrain
+    const random = this.GetComponent('Random') as LevelRandom | undefined;
+    if (random) {
+      this.rng = random.GetStream('ai');
+    }
+    this.terrain = (this.GetComponent('Terrain') as Terrain | undefined) ?? null;
   }
 
+  // ============================================================================
+  // TILES
+  // ============================================================================
+
   /**
-   * Get a random navigation point within range of given position.
+   * Build a tile's navmesh from its height samples. A cell is walkable
+   * when it is dry, its terrain cell is not too steep and no obstacle
+   * (plus the agent's clearance) covers its centre.
+   */
+  AddTile(
+    tileX: number,
+    tileZ: number,
+    tileSize: number,
+    samples: TerrainSamples,
+    obstacles: NavObstacle[] = []
+  ): void {
+    const { heights, size, spacing } = samples;
+    const terrainCells = size - 1;
+    const cells = terrainCells * NAV_SUBDIVISIONS;
+    const cellSize = spacing / NAV_SUBDIVISIONS;
+    const originX = tileX * tileSize - tileSize / 2;
+    const originZ = tileZ * tileSize - tileSize / 2;
+    const maxRise = TERRAIN_CONFIG.maxWalkableSlope * spacing;
+    const waterLevel = TERRAIN_CONFIG.waterLevel;
+
+    // Slope and water are judged per terrain cell, as the ground mesh has them
+    const open = new Uint8Array(terrainCells * terrainCells);
+    for (let row = 0; row < terrainCells; row++) {
+      for (let col = 0; col < terrainCells; col++) {
+        const a = heights[row * size + col];
+        const b = heights[row * size + col + 1];
+        const c = heights[(row + 1) * size + col];
+        const d = heights[(row + 1) * size + col + 1];
+        const rise = Math.max(Math.abs(a - b), Math.abs(a - c), Math.abs(b - d), Math.abs(c - d));
+        const dry = Math.min(a, b, c, d) >= waterLevel;
+        open[row * terrainCells + col] = dry && rise <= maxRise ? 1 : 0;
+      }
+    }
+
+    const walkable = new Uint8Array(cells * cells);
+    for (let row = 0; row < cells; row++) {
+      for (let col = 0; col < cells; col++) {
+        const terrainIndex = Math.floor(row / NAV_SUBDIVISIONS) * terrainCells + Math.floor(col / NAV_SUBDIVISIONS);
+        if (!open[terrainIndex]) continue;
+
+        const x = originX + (col + 0.5) * cellSize;
+        const z = originZ + (row + 0.5) * cellSize;
+        const blocked = obstacles.some((o) => Math.hypot(x - o.x, z - o.z) < o.radius + AGENT_RADIUS);
+        walkable[row * cells + col] = blocked ? 0 : 1;
+      }
+    }
+
+    const zone = `tile:${tileX},${tileZ}`;
+    const geometry = this.buildTileGeometry(originX, originZ, cells, cellSize, walkable, samples);
+    if (geometry) {
+      this.pathfinding.setZoneData(zone, Pathfinding.createZone(geometry));
+      geometry.dispose();
+    }
+
+    this.tileSize = tileSize;
+    this.cellSize = cellSize;
+    this.tiles.set(`${tileX},${tileZ}`, {
+      zone,
+      originX,
+      originZ,
+      cells,
+      walkable,
+      regions: this.labelRegions(cells, walkable),
+    });
+  }
+
+  /**
+   * Two triangles per walkable cell, following the ground. Returns null
+   * when nothing on the tile is walkable.
+   */
+  private buildTileGeometry(
+    originX: number,
+    originZ: number,
+    cells: number,
+    cellSize: number,
+    walkable: Uint8Array,
+    samples: TerrainSamples
+  ): THREE.BufferGeometry | null {
+    const { heights, size } = samples;
+    const verts = cells + 1;
+
+    // Heights at nav vertices, bilinear between terrain samples
+    const positions = new Float32Array(verts * verts * 3);
+    for (let row = 0; row < verts; row++) {
+      for (let col = 0; col < verts; col++) {
+        const u = col / NAV_SUBDIVISIONS;
+        const v = row / NAV_SUBDIVISIONS;
+        const c0 = Math.min(Math.floor(u), size - 2);
+        const r0 = Math.min(Math.floor(v), size - 2);
+        const fu = u - c0;
+        const fv = v - r0;
+        const h00 = heights[r0 * size + c0];
+        const h10 = heights[r0 * size + c0 + 1];
+        const h01 = heights[(r0 + 1) * size + c0];
+        const h11 = heights[(r0 + 1) * size + c0 + 1];
+        const h = (h00 * (1 - fu) + h10 * fu) * (1 - fv) + (h01 * (1 - fu) + h11 * fu) * fv;
+
+        const i = (row * verts + col) * 3;
+        positions[i] = originX + col * cellSize;
+        positions[i + 1] = h;
+        positions[i + 2] = originZ + row * cellSize;
+      }
+    }
+
+    const indices: number[] = [];
+    for (let row = 0; row < cells; row++) {
+      for (let col = 0; col < cells; col++) {
+        if (!walkable[row * cells + col]) continue;
+        const a = row * verts + col;
+        const b = a + 1;
+        const c = a + verts;
+        const d = c + 1;
+        // Counter-clockwise seen from above
+        indices.push(a, c, b, b, c, d);
+      }
+    }
+    if (indices.length === 0) return null;
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setIndex(indices);
+    return geometry;
+  }
+
+  /**
+   * Flood-fill walkable cells into connected regions (edge neighbours,
+   * matching how the navmesh joins its triangles).
+   */
+  private labelRegions(cells: number, walkable: Uint8Array): Int32Array {
+    const regions = new Int32Array(cells * cells).fill(-1);
+    const stack: number[] = [];
+    let next = 0;
+
+    for (let seed = 0; seed < regions.length; seed++) {
+      if (!walkable[seed] || regions[seed] !== -1) continue;
+
+      regions[seed] = next;
+      stack.push(seed);
+      while (stack.length > 0) {
+        const index = stack.pop()!;
+        const row = Math.floor(index / cells);
+        const col = index % cells;
+        const neighbours = [
+          col > 0 ? index - 1 : -1,
+          col < cells - 1 ? index + 1 : -1,
+          row > 0 ? index - cells : -1,
+          row < cells - 1 ? index + cells : -1,
+        ];
+        for (const n of neighbours) {
+          if (n >= 0 && walkable[n] && regions[n] === -1) {
+            regions[n] = next;
+            stack.push(n);
+          }
+        }
+      }
+      next++;
+    }
+
+    return regions;
+  }
+
+  /**
+   * Forget a tile when it is unloaded.
+   */
+  RemoveTile(tileX: number, tileZ: number): void {
+    const key = `${tileX},${tileZ}`;
+    const tile = this.tiles.get(key);
+    if (tile) {
+      delete this.pathfinding.zones[tile.zone];
+      this.tiles.delete(key);
+    }
+  }
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  /**
+   * Whether a world position is walkable. Positions outside loaded tiles
+   * fall back to the terrain slope.
+   */
+  IsWalkable(x: number, z: number): boolean {
+    const tile = this.tileAt(x, z);
+    if (!tile) {
+      return this.terrain?.IsWalkable(x, z) ?? true;
+    }
+    return tile.walkable[this.cellIndex(tile, x, z)] === 1;
+  }
+
+  private tileCoord(value: number): number {
+    return Math.floor(value / this.tileSize + 0.5);
+  }
+
+  private tileAt(x: number, z: number): NavTile | undefined {
+    return this.tiles.get(`${this.tileCoord(x)},${this.tileCoord(z)}`);
+  }
+
+  private cellIndex(tile: NavTile, x: number, z: number): number {
+    const col = Math.min(tile.cells - 1, Math.max(0, Math.floor((x - tile.originX) / this.cellSize)));
+    const row = Math.min(tile.cells - 1, Math.max(0, Math.floor((z - tile.originZ) / this.cellSize)));
+    return row * tile.cells + col;
+  }
+
+  /**
+   * Region of the walkable cell at, or failing that next to, a position.
+   * Animals can stand right against an obstacle, inside its clearance.
+   */
+  private regionAt(tile: NavTile, x: number, z: number): number {
+    const index = this.cellIndex(tile, x, z);
+    if (tile.regions[index] !== -1) return tile.regions[index];
+
+    const row = Math.floor(index / tile.cells);
+    const col = index % tile.cells;
+    for (let ring = 1; ring <= 2; ring++) {
+      for (let r = Math.max(0, row - ring); r <= Math.min(tile.cells - 1, row + ring); r++) {
+        for (let c = Math.max(0, col - ring); c <= Math.min(tile.cells - 1, col + ring); c++) {
+          const region = tile.regions[r * tile.cells + c];
+          if (region !== -1) return region;
+        }
+      }
+    }
+    return -1;
+  }
+
+  private groundPoint(x: number, z: number): THREE.Vector3 {
+    return new THREE.Vector3(x, this.terrain?.GetHeight(x, z) ?? 0, z);
+  }
+
+  /**
+   * Whether the straight line between two points stays on walkable ground.
+   */
+  private isClear(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    // Sample twice per cell so no cell is stepped over
+    const distance = Math.hypot(to.x - from.x, to.z - from.z);
+    const steps = Math.ceil((distance * 2) / this.cellSize);
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      if (!this.IsWalkable(from.x + (to.x - from.x) * t, from.z + (to.z - from.z) * t)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Get a random walkable navigation point within range of given position.
    */
   GetRandomNode(position: THREE.Vector3, range: number): THREE.Vector3 {
-    // Generate random angle and distance
-    const angle = Math.random() * Math.PI * 2;
-    const distance = Math.random() * range;
+    let x = position.x;
+    let z = position.z;
 
-    const x = position.x + Math.cos(angle) * distance;
-    const z = position.z + Math.sin(angle) * distance;
+    for (let attempt = 0; attempt < RANDOM_NODE_ATTEMPTS; attempt++) {
+      const angle = this.rng.angle();
+      const distance = this.rng.next() * range;
 
-    return new THREE.Vector3(x, 0, z);
+      x = position.x + Math.cos(angle) * distance;
+      z = position.z + Math.sin(angle) * distance;
+      if (this.IsWalkable(x, z)) break;
+    }
+
+    return this.groundPoint(x, z);
   }
 
   /**
-   * Find path from start to end.
-   * For flat terrain, direct path works fine.
+   * Find the nearest shoreline within range: the last walkable point
+   * before water along one of several rays.
+   */
+  FindShore(position: THREE.Vector3, range: number): ShorePoint | null {
+    if (!this.terrain) return null;
+
+    const startAngle = this.rng.angle();
+    let best: ShorePoint | null = null;
+    let bestDistance = Infinity;
+
+    for (let i = 0; i < SHORE_DIRECTIONS; i++) {
+      const angle = startAngle + (i / SHORE_DIRECTIONS) * Math.PI * 2;
+      const dirX = Math.cos(angle);
+      const dirZ = Math.sin(angle);
+
+      for (let d = this.cellSize; d <= Math.min(range, bestDistance); d += this.cellSize / 2) {
+        const x = position.x + dirX * d;
+        const z = position.z + dirZ * d;
+        if (!this.terrain.IsUnderwater(x, z)) continue;
+
+        // Step back onto dry land
+        const back = d - this.cellSize;
+        if (back > 0) {
+          best = {
+            position: this.groundPoint(position.x + dirX * back, position.z + dirZ * back),
+            water: new THREE.Vector3(x, this.terrain.GetWaterLevel(), z),
+          };
+          bestDistance = d;
+        }
+        break;
+      }
+    }
+
+    return best;
+  }
+
+  // ============================================================================
+  // PATHS
+  // ============================================================================
+
+  /**
+   * Find path from start to end, following the ground height.
+   * Uses the tile navmeshes when both ends are on loaded tiles, otherwise
+   * goes straight or tries one sidestep.
    */
   FindPath(start: THREE.Vector3, end: THREE.Vector3): THREE.Vector3[] {
-    // For flat terrain, just return direct path to target
-    return [new THREE.Vector3(end.x, 0, end.z)];
+    const from = this.groundPoint(start.x, start.z);
+    const goal = this.groundPoint(end.x, end.z);
+    const startTile = this.tileAt(from.x, from.z);
+    const endTile = this.tileAt(goal.x, goal.z);
+    if (!startTile || !endTile) {
+      return this.directPath(from, goal);
+    }
+
+    if (startTile === endTile) {
+      return this.tilePath(startTile, from, goal) ?? this.directPath(from, goal);
+    }
+
+    const route = this.findTileRoute(this.tileCoord(from.x), this.tileCoord(from.z), this.tileCoord(goal.x), this.tileCoord(goal.z));
+    if (!route) {
+      return this.directPath(from, goal);
+    }
+
+    // Walk each tile's navmesh to a border cell, then step across
+    const path: THREE.Vector3[] = [];
+    let current = from;
+    for (let i = 0; i < route.length - 1; i++) {
+      const isLast = i === route.length - 2;
+      const portal = this.findPortal(route[i], route[i + 1], current, goal, isLast);
+      if (!portal) {
+        return this.directPath(from, goal);
+      }
+
+      path.push(...(this.tilePath(route[i], current, portal.exit) ?? [portal.exit]));
+      path.push(portal.entry);
+      current = portal.entry;
+    }
+    path.push(...(this.tilePath(endTile, current, goal) ?? [goal]));
+
+    return path;
+  }
+
+  /**
+   * Path between two points on the same tile, or null when the tile's
+   * navmesh has nothing near them.
+   */
+  private tilePath(tile: NavTile, from: THREE.Vector3, to: THREE.Vector3): THREE.Vector3[] | null {
+    if (!this.pathfinding.zones[tile.zone]) return null;
+
+    const group = this.pathfinding.getGroup(tile.zone, from);
+    if (group === null) return null;
+
+    // findPath needs both ends inside a polygon; obstacle clearance and
+    // steep cells leave holes, so start from the nearest polygon instead
+    const start = this.onMesh(tile.zone, group, from);
+    const target = this.onMesh(tile.zone, group, to);
+    const path = this.pathfinding.findPath(start, target, tile.zone, group);
+    if (!path || path.length === 0) return null;
+
+    if (target !== to) {
+      path.push(to);
+    }
+    return path;
+  }
+
+  private onMesh(zone: string, group: number, point: THREE.Vector3): THREE.Vector3 {
+    if (this.pathfinding.getClosestNode(point, zone, group, true)) {
+      return point;
+    }
+    const node = this.pathfinding.getClosestNode(point, zone, group);
+    return node ? node.centroid.clone() : point;
+  }
+
+  /**
+   * Breadth-first search over loaded tiles. Returns the tiles to cross,
+   * start and end included.
+   */
+  private findTileRoute(startX: number, startZ: number, endX: number, endZ: number): NavTile[] | null {
+    const startKey = `${startX},${startZ}`;
+    const endKey = `${endX},${endZ}`;
+    const cameFrom = new Map<string, string | null>([[startKey, null]]);
+    const queue: Array<[number, number]> = [[startX, startZ]];
+
+    while (queue.length > 0) {
+      const [x, z] = queue.shift()!;
+      if (x === endX && z === endZ) break;
+
+      for (const [dx, dz] of TILE_NEIGHBOURS) {
+        const key = `${x + dx},${z + dz}`;
+        if (!cameFrom.has(key) && this.tiles.has(key)) {
+          cameFrom.set(key, `${x},${z}`);
+          queue.push([x + dx, z + dz]);
+        }
+      }
+    }
+
+    if (!cameFrom.has(endKey)) return null;
+
+    const route: NavTile[] = [];
+    for (let key: string | null = endKey; key !== null; key = cameFrom.get(key) ?? null) {
+      route.unshift(this.tiles.get(key)!);
+    }
+    return route;
+  }
+
+  /**
+   * Pick where to cross from one tile into its neighbour: a border cell
+   * open on both sides, reachable from the current point and closest to
+   * the straight route to the goal. On the final crossing the far side
+   * must also connect to the goal. Returns the last point on this tile
+   * and the first on the next.
+   */
+  private findPortal(
+    from: NavTile,
+    to: NavTile,
+    current: THREE.Vector3,
+    goal: THREE.Vector3,
+    isLast: boolean
+  ): { exit: THREE.Vector3; entry: THREE.Vector3 } | null {
+    const cells = from.cells;
+    const alongX = from.originZ === to.originZ;
+    const forward = alongX ? Math.sign(to.originX - from.originX) : Math.sign(to.originZ - from.originZ);
+    const fromEdge = forward > 0 ? cells - 1 : 0;
+    const toEdge = forward > 0 ? 0 : cells - 1;
+
+    const currentRegion = this.regionAt(from, current.x, current.z);
+    const goalRegion = isLast ? this.regionAt(to, goal.x, goal.z) : -1;
+
+    let best: { exit: THREE.Vector3; entry: THREE.Vector3 } | null = null;
+    let bestCost = Infinity;
+
+    for (let i = 0; i < cells; i++) {
+      const fromIndex = alongX ? i * cells + fromEdge : fromEdge * cells + i;
+      const toIndex = alongX ? i * cells + toEdge : toEdge * cells + i;
+      if (!from.walkable[fromIndex] || !to.walkable[toIndex]) continue;
+      if (currentRegion !== -1 && from.regions[fromIndex] !== currentRegion) continue;
+      if (goalRegion !== -1 && to.regions[toIndex] !== goalRegion) continue;
+
+      // Cell centres either side of the border
+      const side = (i + 0.5) * this.cellSize;
+      const exitX = alongX ? from.originX + (fromEdge + 0.5) * this.cellSize : from.originX + side;
+      const exitZ = alongX ? from.originZ + side : from.originZ + (fromEdge + 0.5) * this.cellSize;
+      const entryX = alongX ? to.originX + (toEdge + 0.5) * this.cellSize : to.originX + side;
+      const entryZ = alongX ? to.originZ + side : to.originZ + (toEdge + 0.5) * this.cellSize;
+
+      const cost = Math.hypot(exitX - current.x, exitZ - current.z) + Math.hypot(goal.x - entryX, goal.z - entryZ);
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = { exit: this.groundPoint(exitX, exitZ), entry: this.groundPoint(entryX, entryZ) };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Straight line when it is walkable, otherwise one sidestep. Used where
+   * no navmesh covers the path.
+   */
+  private directPath(start: THREE.Vector3, goal: THREE.Vector3): THREE.Vector3[] {
+    if (this.isClear(start, goal)) {
+      return [goal];
+    }
+
+    // Sidestep from the midpoint, perpendicular to the direct line
+    const dx = goal.x - start.x;
+    const dz = goal.z - start.z;
+    const length = Math.hypot(dx, dz) || 1;
+    const sideX = -dz / length;
+    const sideZ = dx / length;
+    const midX = (start.x + goal.x) / 2;
+    const midZ = (start.z + goal.z) / 2;
+
+    for (const offset of DETOUR_OFFSETS) {
+      const via = this.groundPoint(midX + sideX * offset * this.cellSize, midZ + sideZ * offset * this.cellSize);
+      if (this.IsWalkable(via.x, via.z) && this.isClear(start, via) && this.isClear(via, goal)) {
+        return [via, goal];
+      }
+    }
+
+    // Nothing better found; walk straight and let ground snapping cope
+    return [goal];
   }
 }
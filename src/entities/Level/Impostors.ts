@@ -0,0 +1,119 @@
+/**
+ * Impostors Component
+ *
+ * Bakes and caches the side-on views that distant props and animals are
+ * drawn with. Views are baked once per model on first use with flat light;
+ * `light` follows the world clock so billboards darken with the day.
+ *
+ * Headless runs have no WebGL renderer, so nothing is baked and callers
+ * keep drawing their meshes.
+ */
+
+import * as THREE from 'three';
+import Component from '../../core/Component';
+import { LOD_CONFIG } from '../../config/lod.config';
+import { bakeImpostor, type Impostor } from '../../systems/Lod';
+import type WorldClock from './WorldClock';
+
+// ============================================================================
+// IMPOSTORS COMPONENT
+// ============================================================================
+
+export default class Impostors extends Component {
+  override name = 'Impostors';
+
+  private readonly renderer: THREE.WebGLRenderer | null;
+
+  // Baked views by model key
+  private readonly baked = new Map<string, Impostor>();
+
+  // Sprite materials by model key, for animals
+  private readonly spriteMaterials = new Map<string, THREE.SpriteMaterial>();
+
+  // Time of day (from Level 'WorldClock' component)
+  private clock: WorldClock | null = null;
+
+  /** Colour baked views are multiplied by, from the current daylight */
+  readonly light = new THREE.Color(1, 1, 1);
+
+  private readonly tempColor = new THREE.Color();
+
+  constructor(renderer: THREE.WebGLRenderer | null) {
+    super();
+    this.renderer = renderer;
+  }
+
+  override Initialize(): void {
+    this.clock = (this.GetComponent('WorldClock') as WorldClock | undefined) ?? null;
+  }
+
+  /**
+   * Whether views can be baked (false when headless).
+   */
+  CanBake(): boolean {
+    return this.renderer !== null;
+  }
+
+  /**
+   * Baked view of a model, baking it on first request.
+   */
+  Get(key: string, object: THREE.Object3D): Impostor | null {
+    if (!this.renderer) return null;
+
+    let impostor = this.baked.get(key);
+    if (!impostor) {
+      impostor = bakeImpostor(this.renderer, object, LOD_CONFIG.impostor.textureSize);
+      this.baked.set(key, impostor);
+    }
+    return impostor;
+  }
+
+  /**
+   * Shared sprite material showing a model's baked view, lit like the
+   * billboards.
+   */
+  GetSpriteMaterial(key: string, object: THREE.Object3D): THREE.SpriteMaterial | null {
+    let material = this.spriteMaterials.get(key);
+    if (!material) {
+      const impostor = this.Get(key, object);
+      if (!impostor) return null;
+
+      material = new THREE.SpriteMaterial({ map: impostor.texture, alphaTest: 0.5, fog: true });
+      material.color.copy(this.light);
+      this.spriteMaterials.set(key, material);
+    }
+    return material;
+  }
+
+  // ============================================================================
+  // UPDATE
+  // ============================================================================
+
+  override Update(_deltaTime: number): void {
+    if (!this.clock) return;
+
+    // Sun plus sky, as the flat-lit bake would have received
+    const lighting = this.clock.GetLighting();
+    this.light.copy(lighting.sunColor).multiplyScalar(lighting.sunIntensity);
+    this.light.add(this.tempColor.copy(lighting.skyColor).multiplyScalar(lighting.hemiIntensity));
+
+    for (const material of this.spriteMaterials.values()) {
+      material.color.copy(this.light);
+    }
+  }
+
+  // ============================================================================
+  // CLEANUP
+  // ============================================================================
+
+  override Cleanup(): void {
+    for (const material of this.spriteMaterials.values()) {
+      material.dispose();
+    }
+    for (const impostor of this.baked.values()) {
+      impostor.dispose();
+    }
+    this.spriteMaterials.clear();
+    this.baked.clear();
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Level Random Service
+ *
+ * Seeded RNG registered on the Level entity. Subsystems draw from named
+ * streams ('spawn', 'ai', 'weapon') so that one system consuming more
+ * numbers does not shift another's sequence. Tiles get their own stream
+ * derived from their coordinates, so a tile looks the same no matter
+ * in which order the player reaches it.
+ */
+
+import Component from '../../core/Component';
+import { SeededRandom, hashSeed } from '../../systems/SeededRandom';
+
+// ============================================================================
+// LEVEL RANDOM COMPONENT
+// ============================================================================
+
+export default class LevelRandom extends Component {
+  override name = 'Random';
+
+  private readonly seed: number;
+  private readonly streams = new Map<string, SeededRandom>();
+
+  constructor(seed: number) {
+    super();
+    this.seed = seed >>> 0;
+  }
+
+  /**
+   * World seed this level was generated from.
+   */
+  GetSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Get a persistent named stream (created on first use).
+   */
+  GetStream(name: string): SeededRandom {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new SeededRandom(hashSeed(this.seed, name));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * Create a fresh generator for a tile. Same seed and coordinates
+   * always give the same sequence.
+   */
+  ForTile(tileX: number, tileZ: number, purpose = 'tile'): SeededRandom {
+    return new SeededRandom(hashSeed(this.seed, purpose, tileX, tileZ));
+  }
+}
@@ -67,6 +67,7 @@ export default class Navmesh extends Component {
 
     try {
       const groupID = this.pathfinding.getGroup(this.zone, position);
+      if (groupID === null) return null;
       return this.pathfinding.getRandomNode(this.zone, groupID, position, range);
     } catch (e) {
       console.warn('Navmesh.GetRandomNode error:', e);
@@ -82,6 +83,7 @@ export default class Navmesh extends Component {
 
     try {
       const groupID = this.pathfinding.getGroup(this.zone, a);
+      if (groupID === null) return null;
       return this.pathfinding.findPath(a, b, this.zone, groupID);
     } catch (e) {
       console.warn('Navmesh.FindPath error:', e);
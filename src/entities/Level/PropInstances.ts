@@ -0,0 +1,514 @@
+/**
+ * Prop Instances Component
+ *
+ * Draws every tree, bush and rock on the loaded tiles with one
+ * InstancedMesh per model part instead of a mesh clone per prop, so draw
+ * calls stay flat however many tiles stream in. Tiles add an instance
+ * when they place a prop and remove it when they stream out; a removed
+ * slot is refilled with the batch's last instance so batches stay packed.
+ *
+ * Each prop is drawn at a detail level picked by its distance to the
+ * player: the full model, a vertex-clustered simplification, or a baked
+ * impostor on a camera-facing billboard (when the Level's Impostors
+ * component can bake one). Props are re-sorted a few times a second.
+ *
+ * Instanced meshes raycast per instance. GetDecalTarget turns a physics
+ * hit on a prop into a stand-in mesh that bullet decals can project onto,
+ * and decals attached to an instance go away with it.
+ */
+
+import * as THREE from 'three';
+import Component from '../../core/Component';
+import type { IEntity } from '../../types/entity.types';
+import { LOD_CONFIG } from '../../config/lod.config';
+import { lodLevelFor, simplifyGeometry, type Impostor, type LodLevel } from '../../systems/Lod';
+import type Impostors from './Impostors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Prop models drawn through instancing */
+export type PropKind = 'tree1' | 'tree2' | 'grassBush' | 'rock';
+
+/** Handle to one placed prop */
+export interface PropInstance {
+  readonly kind: PropKind;
+}
+
+/** Mesh standing in for a hit instance, plus the instance it belongs to */
+export interface DecalTarget {
+  mesh: THREE.Mesh;
+  instance: PropInstance;
+}
+
+interface Slot extends PropInstance {
+  /** Detail level the prop is drawn at */
+  level: LodLevel;
+  /** Position in its level's batch, -1 once removed */
+  index: number;
+  /** Transform of the model root */
+  matrix: THREE.Matrix4;
+  /** Objects (decals) removed along with the instance */
+  attachments: THREE.Object3D[];
+}
+
+/** One mesh of a prop model, drawn for every instance */
+interface BatchPart {
+  mesh: THREE.InstancedMesh;
+  /** Part transform relative to the model root */
+  offset: THREE.Matrix4;
+}
+
+/** Instances of a prop drawn at one detail level */
+interface BatchTier {
+  parts: BatchPart[];
+  slots: Slot[];
+  capacity: number;
+}
+
+interface PropBatch {
+  full: BatchTier;
+  simplified: BatchTier;
+  /** Missing when impostors cannot be baked (headless) */
+  impostor: BatchTier | null;
+}
+
+/** Instances allocated per batch up front; batches double when full */
+const INITIAL_CAPACITY = 64;
+
+/** How far either side of a physics hit to look for the rendered surface */
+const DECAL_SEARCH_DISTANCE = 1;
+
+const LOD_LEVELS: readonly LodLevel[] = ['full', 'simplified', 'impostor'];
+
+// ============================================================================
+// BILLBOARD SHADERS
+// ============================================================================
+
+// The quad spans x in [-0.5, 0.5] and y in [0, 1]; each instance matrix
+// places its base and scales it to the baked view. Billboards turn about
+// Y only so trees stay upright when seen from above.
+const BILLBOARD_VS = `
+varying vec2 vUv;
+#include <fog_pars_vertex>
+void main() {
+  vUv = uv;
+  mat4 world = modelMatrix * instanceMatrix;
+  vec3 base = world[3].xyz;
+  float width = length(world[0].xyz);
+  float height = length(world[1].xyz);
+  vec3 toCamera = cameraPosition - base;
+  vec3 right = normalize(vec3(toCamera.z, 0.0, -toCamera.x));
+  vec3 worldPosition = base + right * position.x * width + vec3(0.0, position.y * height, 0.0);
+  vec4 mvPosition = viewMatrix * vec4(worldPosition, 1.0);
+  gl_Position = projectionMatrix * mvPosition;
+  #include <fog_vertex>
+}`;
+
+// Baked views are linear and untoned, so tone map and encode like the
+// lit meshes around them
+const BILLBOARD_FS = `
+uniform sampler2D map;
+uniform vec3 light;
+varying vec2 vUv;
+#include <fog_pars_fragment>
+void main() {
+  vec4 texel = texture2D(map, vUv);
+  if (texel.a < 0.5) discard;
+  gl_FragColor = vec4(texel.rgb * light, 1.0);
+  #include <tonemapping_fragment>
+  #include <encodings_fragment>
+  #include <fog_fragment>
+}`;
+
+// ============================================================================
+// PROP INSTANCES COMPONENT
+// ============================================================================
+
+export default class PropInstances extends Component {
+  override name = 'PropInstances';
+
+  private readonly scene: THREE.Scene;
+  private readonly models: Partial<Record<PropKind, THREE.Object3D>>;
+
+  // Built on first use of each kind
+  private readonly batches = new Map<PropKind, PropBatch>();
+
+  // Which tier a full or simplified mesh draws, for raycast hits
+  private readonly meshTiers = new Map<THREE.InstancedMesh, BatchTier>();
+
+  // Unit quad shared by every billboard
+  private readonly billboardGeometry: THREE.PlaneGeometry;
+
+  // Distance is measured to the player
+  private player: IEntity | null = null;
+
+  // Baked views (from Level 'Impostors' component)
+  private impostors: Impostors | null = null;
+
+  private refreshTimer: number = 0;
+
+  private readonly raycaster = new THREE.Raycaster();
+  private readonly tempMatrix = new THREE.Matrix4();
+  private readonly partMatrix = new THREE.Matrix4();
+  private readonly tempQuat = new THREE.Quaternion();
+  private readonly tempScale = new THREE.Vector3();
+  private readonly tempPosition = new THREE.Vector3();
+  private readonly tempOrigin = new THREE.Vector3();
+  private readonly tempDirection = new THREE.Vector3();
+  private readonly up = new THREE.Vector3(0, 1, 0);
+
+  constructor(scene: THREE.Scene, models: Partial<Record<PropKind, THREE.Object3D>>) {
+    super();
+    this.scene = scene;
+    this.models = models;
+
+    this.billboardGeometry = new THREE.PlaneGeometry(1, 1);
+    this.billboardGeometry.translate(0, 0.5, 0);
+  }
+
+  override Initialize(): void {
+    this.player = this.FindEntity('Player') ?? null;
+    this.impostors = (this.GetComponent('Impostors') as Impostors | undefined) ?? null;
+  }
+
+  /**
+   * Whether a prop's model is loaded.
+   */
+  HasModel(kind: PropKind): boolean {
+    return this.models[kind] !== undefined;
+  }
+
+  // ============================================================================
+  // INSTANCES
+  // ============================================================================
+
+  /**
+   * Place a prop standing at a position, turned about Y and uniformly
+   * scaled. The model must be loaded.
+   */
+  Add(kind: PropKind, position: THREE.Vector3, rotationY: number, scale: number): PropInstance {
+    const batch = this.batches.get(kind) ?? this.createBatch(kind);
+
+    this.tempQuat.setFromAxisAngle(this.up, rotationY);
+    this.tempScale.setScalar(scale);
+    const matrix = new THREE.Matrix4().compose(position, this.tempQuat, this.tempScale);
+
+    const slot: Slot = { kind, level: this.levelAt(batch, position), index: -1, matrix, attachments: [] };
+    this.insert(this.tierOf(batch, slot.level), slot);
+    return slot;
+  }
+
+  /**
+   * Remove a prop and anything attached to it.
+   */
+  Remove(instance: PropInstance): void {
+    const slot = instance as Slot;
+    const batch = this.batches.get(slot.kind);
+    if (!batch || slot.index < 0) return;
+
+    this.extract(this.tierOf(batch, slot.level), slot);
+
+    for (const object of slot.attachments) {
+      this.scene.remove(object);
+      if ((object as THREE.Mesh).isMesh) {
+        (object as THREE.Mesh).geometry.dispose();
+      }
+    }
+    slot.attachments.length = 0;
+  }
+
+  /**
+   * Tie an object already in the scene (e.g. a decal) to a prop, so it
+   * is removed with it.
+   */
+  Attach(instance: PropInstance, object: THREE.Object3D): void {
+    const slot = instance as Slot;
+    if (slot.index < 0) {
+      this.scene.remove(object);
+      return;
+    }
+    object.visible = slot.level !== 'impostor';
+    slot.attachments.push(object);
+  }
+
+  // ============================================================================
+  // DETAIL LEVELS
+  // ============================================================================
+
+  override Update(deltaTime: number): void {
+    this.refreshTimer += deltaTime;
+    if (this.refreshTimer < LOD_CONFIG.props.refreshInterval || !this.player) return;
+    this.refreshTimer = 0;
+
+    const playerPosition = this.player.position;
+    for (const batch of this.batches.values()) {
+      for (const level of LOD_LEVELS) {
+        const tier = batch[level];
+        if (!tier) continue;
+
+        // Backwards, so slots swapped in from the end are already checked
+        for (let i = tier.slots.length - 1; i >= 0; i--) {
+          const slot = tier.slots[i];
+          this.tempPosition.setFromMatrixPosition(slot.matrix);
+          const target = this.levelAt(batch, this.tempPosition, playerPosition);
+          if (target === slot.level) continue;
+
+          this.extract(tier, slot);
+          slot.level = target;
+          this.insert(this.tierOf(batch, target), slot);
+          for (const object of slot.attachments) {
+            object.visible = target !== 'impostor';
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Detail level for a prop at a position, falling back to the simplified
+   * mesh where there is no impostor.
+   */
+  private levelAt(
+    batch: PropBatch,
+    position: THREE.Vector3,
+    playerPosition: THREE.Vector3 | undefined = this.player?.position
+  ): LodLevel {
+    if (!playerPosition) return 'full';
+
+    const { simplifiedDistance, impostorDistance } = LOD_CONFIG.props;
+    const level = lodLevelFor(position.distanceTo(playerPosition), simplifiedDistance, impostorDistance);
+    return level === 'impostor' && !batch.impostor ? 'simplified' : level;
+  }
+
+  private tierOf(batch: PropBatch, level: LodLevel): BatchTier {
+    return batch[level] ?? batch.simplified;
+  }
+
+  private insert(tier: BatchTier, slot: Slot): void {
+    if (tier.slots.length === tier.capacity) {
+      this.grow(tier);
+    }
+
+    slot.index = tier.slots.length;
+    tier.slots.push(slot);
+    this.writeSlot(tier, slot);
+    for (const part of tier.parts) {
+      part.mesh.count = tier.slots.length;
+    }
+  }
+
+  private extract(tier: BatchTier, slot: Slot): void {
+    // Move the last instance into the freed slot
+    const last = tier.slots.length - 1;
+    if (slot.index !== last) {
+      const moved = tier.slots[last];
+      tier.slots[slot.index] = moved;
+      moved.index = slot.index;
+      this.writeSlot(tier, moved);
+    }
+    tier.slots.pop();
+    slot.index = -1;
+
+    for (const part of tier.parts) {
+      part.mesh.count = tier.slots.length;
+      part.mesh.instanceMatrix.needsUpdate = true;
+    }
+  }
+
+  private writeSlot(tier: BatchTier, slot: Slot): void {
+    for (const part of tier.parts) {
+      this.partMatrix.multiplyMatrices(slot.matrix, part.offset);
+      part.mesh.setMatrixAt(slot.index, this.partMatrix);
+      part.mesh.instanceMatrix.needsUpdate = true;
+    }
+  }
+
+  // ============================================================================
+  // DECALS
+  // ============================================================================
+
+  /**
+   * Find the prop surface behind a physics hit. Colliders are simpler than
+   * the models, so this raycasts back along the hit normal for the drawn
+   * surface and returns a mesh placed like that instance.
+   */
+  GetDecalTarget(point: THREE.Vector3, normal: THREE.Vector3): DecalTarget | null {
+    const meshes = Array.from(this.meshTiers.keys()).filter((mesh) => mesh.count > 0);
+    if (meshes.length === 0) return null;
+
+    this.tempDirection.copy(normal).normalize();
+    this.tempOrigin.copy(point).addScaledVector(this.tempDirection, DECAL_SEARCH_DISTANCE);
+    this.raycaster.set(this.tempOrigin, this.tempDirection.negate());
+    this.raycaster.far = DECAL_SEARCH_DISTANCE * 2;
+
+    for (const hit of this.raycaster.intersectObjects(meshes, false)) {
+      if (hit.instanceId === undefined) continue;
+
+      const instanced = hit.object as THREE.InstancedMesh;
+      const tier = this.meshTiers.get(instanced);
+      const slot = tier?.slots[hit.instanceId];
+      if (!slot) continue;
+
+      const mesh = new THREE.Mesh(instanced.geometry, instanced.material);
+      instanced.getMatrixAt(hit.instanceId, this.tempMatrix);
+      mesh.matrixWorld.multiplyMatrices(instanced.matrixWorld, this.tempMatrix);
+      return { mesh, instance: slot };
+    }
+
+    return null;
+  }
+
+  // ============================================================================
+  // BATCHES
+  // ============================================================================
+
+  private createBatch(kind: PropKind): PropBatch {
+    const model = this.models[kind]!;
+
+    // Bake first: baking moves the model to its origin and back
+    const impostor = this.impostors?.Get(`prop:${kind}`, model) ?? null;
+
+    model.updateMatrixWorld(true);
+    const rootInverse = this.tempMatrix.copy(model.matrixWorld).invert();
+
+    const full: BatchPart[] = [];
+    const simplified: BatchPart[] = [];
+    model.traverse((child) => {
+      if (!(child as THREE.Mesh).isMesh) return;
+      const source = child as THREE.Mesh;
+      const offset = new THREE.Matrix4().multiplyMatrices(rootInverse, source.matrixWorld);
+      full.push({
+        mesh: this.createMesh(source.geometry, source.material, INITIAL_CAPACITY),
+        offset,
+      });
+      simplified.push({
+        mesh: this.createMesh(
+          simplifyGeometry(source.geometry, LOD_CONFIG.props.simplifyCells),
+          source.material,
+          INITIAL_CAPACITY
+        ),
+        offset,
+      });
+    });
+
+    const batch: PropBatch = {
+      full: { parts: full, slots: [], capacity: INITIAL_CAPACITY },
+      simplified: { parts: simplified, slots: [], capacity: INITIAL_CAPACITY },
+      impostor: impostor && {
+        parts: [this.createBillboard(impostor)],
+        slots: [],
+        capacity: INITIAL_CAPACITY,
+      },
+    };
+    for (const tier of [batch.full, batch.simplified]) {
+      for (const part of tier.parts) {
+        this.meshTiers.set(part.mesh, tier);
+      }
+    }
+    this.batches.set(kind, batch);
+    return batch;
+  }
+
+  private createMesh(
+    geometry: THREE.BufferGeometry,
+    material: THREE.Material | THREE.Material[],
+    capacity: number
+  ): THREE.InstancedMesh {
+    const mesh = new THREE.InstancedMesh(geometry, material, capacity);
+    mesh.count = 0;
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    // Instances are spread over many tiles; the model's own bounds would
+    // cull them all by the first one's position
+    mesh.frustumCulled = false;
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    this.scene.add(mesh);
+    return mesh;
+  }
+
+  /**
+   * Billboard part showing a baked view, lit by the impostors' daylight.
+   */
+  private createBillboard(impostor: Impostor): BatchPart {
+    const material = new THREE.ShaderMaterial({
+      uniforms: THREE.UniformsUtils.merge([
+        THREE.UniformsLib.fog,
+        {
+          map: { value: null },
+          light: { value: new THREE.Color(1, 1, 1) },
+        },
+      ]),
+      vertexShader: BILLBOARD_VS,
+      fragmentShader: BILLBOARD_FS,
+      fog: true,
+    });
+    // Set after merging, which would copy them
+    material.uniforms.map.value = impostor.texture;
+    material.uniforms.light.value = this.impostors!.light;
+
+    const mesh = this.createMesh(this.billboardGeometry, material, INITIAL_CAPACITY);
+    mesh.castShadow = false;
+    mesh.receiveShadow = false;
+
+    const offset = new THREE.Matrix4()
+      .makeTranslation(0, impostor.minY, 0)
+      .multiply(new THREE.Matrix4().makeScale(impostor.width, impostor.height, 1));
+    return { mesh, offset };
+  }
+
+  /**
+   * Double a tier's capacity. InstancedMesh buffers are fixed size, so
+   * each part gets a bigger mesh with the current matrices copied over.
+   */
+  private grow(tier: BatchTier): void {
+    tier.capacity *= 2;
+    for (const part of tier.parts) {
+      const old = part.mesh;
+      const mesh = this.createMesh(old.geometry, old.material, tier.capacity);
+      mesh.castShadow = old.castShadow;
+      mesh.receiveShadow = old.receiveShadow;
+      (mesh.instanceMatrix.array as Float32Array).set(old.instanceMatrix.array as Float32Array);
+      mesh.count = old.count;
+
+      this.scene.remove(old);
+      old.dispose();
+      if (this.meshTiers.delete(old)) {
+        this.meshTiers.set(mesh, tier);
+      }
+      part.mesh = mesh;
+    }
+  }
+
+  // ============================================================================
+  // CLEANUP
+  // ============================================================================
+
+  override Cleanup(): void {
+    for (const batch of this.batches.values()) {
+      for (const level of LOD_LEVELS) {
+        const tier = batch[level];
+        if (!tier) continue;
+
+        for (const slot of [...tier.slots]) {
+          this.Remove(slot);
+        }
+        for (const part of tier.parts) {
+          this.scene.remove(part.mesh);
+          part.mesh.dispose();
+          // Simplified geometry and billboard materials are ours; full
+          // parts share the model's
+          if (level === 'simplified') {
+            part.mesh.geometry.dispose();
+          } else if (level === 'impostor') {
+            (part.mesh.material as THREE.Material).dispose();
+          }
+        }
+      }
+    }
+    this.batches.clear();
+    this.meshTiers.clear();
+    this.billboardGeometry.dispose();
+  }
+}
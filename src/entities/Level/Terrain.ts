@@ -0,0 +1,104 @@
+/**
+ * Terrain Component
+ *
+ * Ground height service on the Level entity. Tiles build their meshes and
+ * colliders from it, and anything that stands on the ground (player,
+ * animals, pickups, spawns) asks it where the ground is - and whether
+ * that ground is under water.
+ */
+
+import Component from '../../core/Component';
+import { TERRAIN_CONFIG } from '../../config/terrain.config';
+import { TerrainNoise } from '../../systems/TerrainNoise';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Height samples for one tile, row-major with X varying fastest */
+export interface TerrainSamples {
+  /** (resolution + 1)^2 heights */
+  heights: Float32Array;
+  /** Samples per side */
+  size: number;
+  /** Metres between samples */
+  spacing: number;
+  minHeight: number;
+  maxHeight: number;
+}
+
+// ============================================================================
+// TERRAIN COMPONENT
+// ============================================================================
+
+export default class Terrain extends Component {
+  override name = 'Terrain';
+
+  private readonly noise: TerrainNoise;
+
+  constructor(seed: number) {
+    super();
+    this.noise = new TerrainNoise(seed >>> 0);
+  }
+
+  /**
+   * Ground height at a world position.
+   */
+  GetHeight(x: number, z: number): number {
+    return this.noise.heightAt(x, z);
+  }
+
+  /**
+   * Ground steepness (rise over run) at a world position.
+   */
+  GetSlope(x: number, z: number): number {
+    return this.noise.slopeAt(x, z);
+  }
+
+  /**
+   * Height of lakes and rivers.
+   */
+  GetWaterLevel(): number {
+    return TERRAIN_CONFIG.waterLevel;
+  }
+
+  /**
+   * Whether the ground at a world position is below the water level.
+   */
+  IsUnderwater(x: number, z: number): boolean {
+    return this.noise.heightAt(x, z) < TERRAIN_CONFIG.waterLevel;
+  }
+
+  /**
+   * Whether animals can walk at a world position (dry and not too steep).
+   */
+  IsWalkable(x: number, z: number): boolean {
+    return !this.IsUnderwater(x, z) && this.noise.slopeAt(x, z) <= TERRAIN_CONFIG.maxWalkableSlope;
+  }
+
+  /**
+   * Sample a square tile's heights, corner to corner, starting at the
+   * (-X, -Z) corner.
+   */
+  SampleTile(centerX: number, centerZ: number, tileSize: number): TerrainSamples {
+    const resolution = TERRAIN_CONFIG.resolution;
+    const size = resolution + 1;
+    const spacing = tileSize / resolution;
+    const originX = centerX - tileSize / 2;
+    const originZ = centerZ - tileSize / 2;
+
+    const heights = new Float32Array(size * size);
+    let minHeight = Infinity;
+    let maxHeight = -Infinity;
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const h = this.noise.heightAt(originX + col * spacing, originZ + row * spacing);
+        heights[row * size + col] = h;
+        minHeight = Math.min(minHeight, h);
+        maxHeight = Math.max(maxHeight, h);
+      }
+    }
+
+    return { heights, size, spacing, minHeight, maxHeight };
+  }
+}
@@ -1,18 +1,26 @@
 import * as THREE from 'three';
 import { Component } from '../../core/Component';
 import { Entity } from '../../core/Entity';
-import RabbitController from '../Animals/RabbitController';
-import FoxController from '../Animals/FoxController';
-import TRexController from '../Animals/TRexController';
-import ApatosaurusController from '../Animals/ApatosaurusController';
-import WeaponPickup from '../Pickups/WeaponPickup';
-import AmmoPickup from '../Pickups/AmmoPickup';
-import { SkeletonUtils } from 'three/examples/jsm/utils/SkeletonUtils';
+import { AnimalController } from '../Animals/AnimalController';
+import type { AnimationClipDict } from '../NPC/CharacterController';
+import PrefabFactory from '../Spawn/PrefabFactory';
+import { getPrefab, getSpawnablePrefabs } from '../../config/prefabs.config';
 import { Ammo } from '../../core/AmmoLib';
 import type { EntityManager } from '../../core/EntityManager';
-
-// Grass texture
-import grassTexture from '../../assets/grass.png';
+import { hashSeed } from '../../systems/SeededRandom';
+import { KeyedPool } from '../../systems/ObjectPool';
+import { TileWorkerClient } from '../../systems/TileWorkerClient';
+import type { TileContent, TileRequest, PropPlacement } from '../../types/tiles.types';
+import type { AnimalType } from '../../types/animation.types';
+import type { AnimalDiedEvent } from '../../types/events.types';
+import type LevelRandom from './LevelRandom';
+import type WorldClock from './WorldClock';
+import type { TerrainSamples } from './Terrain';
+import type ForestNavmesh from './ForestNavmesh';
+import type Water from './Water';
+import type PropInstances from './PropInstances';
+import type { PropKind } from './PropInstances';
+import { LOD_CONFIG } from '../../config/lod.config';
 
 interface TileData {
   x: number;
@@ -22,16 +30,6 @@ interface TileData {
   physicsBodies: Ammo.btRigidBody[];
 }
 
-interface PreparedTileData {
-  x: number;
-  z: number;
-  treeCount: number;
-  rabbitCount: number;
-  foxCount: number;
-  trexCount: number;
-  apatosaurusCount: number;
-}
-
 interface TreeObject {
   trunk: THREE.Mesh;
   leaves: THREE.Mesh;
@@ -39,11 +37,29 @@ interface TreeObject {
   cleanup: () => void;
 }
 
+/** Static colliders whose bodies are pooled; shapes are unit size and scaled per prop */
+type BodyKind = 'trunk' | 'rock';
+
+/** Ammo.js instance types (the Ammo namespace is untyped in this build) */
+type AmmoRigidBody = InstanceType<typeof Ammo.btRigidBody>;
+type AmmoTransform = InstanceType<typeof Ammo.btTransform>;
+type AmmoVector3 = InstanceType<typeof Ammo.btVector3>;
+
+/** Most parked objects kept per kind; enough for a full ring of tiles */
+const BODY_POOL_SIZE = 256;
+const ANIMAL_POOL_SIZE = 24;
+
+/** Generated tiles built into the scene per frame, to spread the cost */
+const TILES_PER_FRAME = 2;
+
+const PROP_KINDS: readonly PropKind[] = ['tree1', 'tree2', 'grassBush', 'rock'];
+
 interface Assets {
   rabbit?: { scene?: THREE.Object3D; animations?: THREE.AnimationClip[] };
   fox?: { scene?: THREE.Object3D; animations?: THREE.AnimationClip[] };
   trex?: THREE.Group & { animations?: THREE.AnimationClip[] };
   apatosaurus?: THREE.Group & { animations?: THREE.AnimationClip[] };
+  mutant?: THREE.Group;
   pistol?: THREE.Object3D;
   smg?: THREE.Object3D;
   assaultRifle?: THREE.Object3D;
@@ -53,6 +69,8 @@ interface Assets {
   tree2?: THREE.Object3D;
   grassBush?: THREE.Object3D;
   rock?: THREE.Object3D;
+  // Ground texture
+  grass?: THREE.Texture;
   [key: string]: any;
 }
 
@@ -61,90 +79,183 @@ export default class TileManager extends Component {
 
   private scene: THREE.Scene;
   private physicsWorld: Ammo.btDiscreteDynamicsWorld;
-  private assets: Assets;
   private entityManager: EntityManager;
 
-  // Grass material (shared across tiles)
+  // Grass texture and the material made from it (shared across tiles)
+  private readonly grassTexture: THREE.Texture | null;
   private grassMaterial: THREE.MeshStandardMaterial | null = null;
 
   // Tile settings
   // Tile settings
-  private tileSize = 40;
+  readonly tileSize = 40;
 
   // Tile tracking
   private tiles: TileData[] = [];
 
 
-  // Pre-generated tile ready to add
-  private preparedTile: PreparedTileData | null = null;
+  // Tile content comes from the worker (or inline when headless)
+  private tileGenerator: TileWorkerClient | null = null;
+  private useWorker: boolean;
+
+  // Tiles asked of the generator and not yet built, by key
+  private requestedTiles = new Set<string>();
+
+  // Generated tiles waiting to be built
+  private readyTiles: TileContent[] = [];
+
+  // Keys of the tiles that should be loaded, from the last update
+  private desiredTiles = new Set<string>();
 
   // Player reference
   private player: Entity | null = null;
 
+  // Time of day (from Level 'WorldClock' component), scales spawn chances
+  private clock: WorldClock | null = null;
+
+  // Per-tile navmeshes (from Level 'Navmesh' component)
+  private navmesh: ForestNavmesh | null = null;
+
+  // Lake/river surfaces (from Level 'Water' component)
+  private water: Water | null = null;
+
+  // Instanced trees, bushes and rocks (from Level 'PropInstances' component)
+  private props: PropInstances | null = null;
+
+  // Whether tiles bring their own animals (off when a wave director spawns them)
+  private spawnAnimals: boolean;
+
+  // Builds animals and pickups from prefabs.json
+  private readonly prefabs: PrefabFactory;
+
+  // Streamed-out colliders and animals wait here for the next tile
+  private readonly bodyPool: KeyedPool<BodyKind, AmmoRigidBody>;
+  private readonly animalPool: KeyedPool<string, Entity>;
+
+  // Prefab key of each animal the tiles spawned, for caps and pooling
+  private readonly spawnTypes = new Map<Entity, string>();
+
+  // Reused when placing pooled bodies
+  private bodyTransform: AmmoTransform | null = null;
+  private bodyVector: AmmoVector3 | null = null;
+
   constructor(
     scene: THREE.Scene,
     physicsWorld: Ammo.btDiscreteDynamicsWorld,
     assets: Assets,
-    entityManager: EntityManager
+    entityManager: EntityManager,
+    spawnAnimals: boolean = true,
+    mutantClips: AnimationClipDict = {},
+    useWorker: boolean = true
   ) {
     super();
     this.scene = scene;
     this.physicsWorld = physicsWorld;
-    this.assets = assets;
     this.entityManager = entityManager;
+    this.spawnAnimals = spawnAnimals;
+    this.prefabs = new PrefabFactory({ scene, physicsWorld, assets, mutantClips });
+    this.grassTexture = assets.grass ?? null;
+    this.useWorker = useWorker;
+
+    this.bodyPool = new KeyedPool((kind) => ({
+      create: () => this.CreateStaticBody(kind),
+      release: (body) => {
+        try { this.physicsWorld.removeRigidBody(body); } catch (e) { /* ignore */ }
+      },
+    }), BODY_POOL_SIZE);
+
+    this.animalPool = new KeyedPool((type) => ({
+      create: () => this.CreateAnimalEntity(type),
+      release: (entity) => this.AnimalControllerOf(entity)?.Release(),
+      dispose: (entity) => entity.Cleanup(),
+    }), ANIMAL_POOL_SIZE);
   }
 
   Initialize(): void {
     this.player = this.FindEntity('Player');
+    const random = (this.GetComponent('Random') as LevelRandom | undefined) ?? null;
+    this.clock = (this.GetComponent('WorldClock') as WorldClock | undefined) ?? null;
+    this.navmesh = (this.GetComponent('Navmesh') as ForestNavmesh | undefined) ?? null;
+    this.water = (this.GetComponent('Water') as Water | undefined) ?? null;
+    this.props = (this.GetComponent('PropInstances') as PropInstances | undefined) ?? null;
+
+    this.Subscribe('animal_died', this.onAnimalDied);
+
+    // One proximity cell per tile
+    this.entityManager.spatial.resize(this.tileSize);
 
-    // Load grass texture and create shared material
-    const textureLoader = new THREE.TextureLoader();
-    const texture = textureLoader.load(grassTexture);
-    texture.wrapS = THREE.RepeatWrapping;
-    texture.wrapT = THREE.RepeatWrapping;
-    texture.repeat.set(8, 8); // Tile 8x8 times per ground tile
-    // Use encoding for older Three.js versions (v0.127.0)
-    (texture as any).encoding = (THREE as any).sRGBEncoding;
+    // Create shared material from the grass texture
+    const texture = this.grassTexture;
+    if (texture) {
+      texture.wrapS = THREE.RepeatWrapping;
+      texture.wrapT = THREE.RepeatWrapping;
+      texture.repeat.set(8, 8); // Tile 8x8 times per ground tile
+      // Use encoding for older Three.js versions (v0.127.0)
+      (texture as any).encoding = (THREE as any).sRGBEncoding;
+    }
 
     this.grassMaterial = new THREE.MeshStandardMaterial({
       map: texture,
       roughness: 0.9,
       metalness: 0.0,
+      vertexColors: true, // biome ground colour
     });
 
-    // Create initial tile at origin
-    this.CreateTile(0, 0);
-
-    // Prepare one tile in memory
-    this.PrepareTile(1, 0);
+    // The generator rebuilds the Level's terrain and biome map from the seed
+    this.tileGenerator = new TileWorkerClient({
+      seed: random?.GetSeed() ?? hashSeed(Date.now(), 'tiles'),
+      tileSize: this.tileSize,
+      terrain: this.GetComponent('Terrain') !== undefined,
+      biomes: this.GetComponent('Biomes') !== undefined,
+      props: PROP_KINDS.filter((kind) => this.props?.HasModel(kind)),
+    }, this.useWorker);
+
+    // The player needs ground under them before the first frame
+    this.CreateTile(this.tileGenerator.generateSync(this.TileRequest(0, 0)));
   }
 
+  /**
+   * Ask the generator for a tile's content. It is built once it arrives,
+   * if the tile is still wanted.
+   */
   PrepareTile(tileX: number, tileZ: number): void {
-    // Pre-generate tile data without adding to scene yet
-    const treeCount = 5 + Math.floor(Math.random() * 4);
-    const rabbitCount = 1 + Math.floor(Math.random() * 2); // 1-2 rabbits
-    const foxCount = Math.random() < 0.2 ? 1 : 0; // 20% chance for fox (reduced by 60%)
-
-    // Check caps for dinos
-    const currentTrexCount = this.GetEntityCount('TRexController');
-    const trexCount = (Math.random() < 0.05 && currentTrexCount < 2) ? 1 : 0;
+    if (!this.tileGenerator) return;
+    this.requestedTiles.add(this.TileKey(tileX, tileZ));
+    this.tileGenerator.request(this.TileRequest(tileX, tileZ), (content) => {
+      this.readyTiles.push(content);
+    });
+  }
 
-    const currentApatoCount = this.GetEntityCount('ApatosaurusController');
-    const apatosaurusCount = (Math.random() < 0.1 && currentApatoCount < 4) ? 1 : 0;
+  /**
+   * Generator input for a tile: the world state its spawns depend on.
+   */
+  TileRequest(tileX: number, tileZ: number): TileRequest {
+    const activity: Record<string, number> = {};
+    const spawnRoom: Record<string, number> = {};
+    for (const type of getSpawnablePrefabs()) {
+      const spawn = getPrefab(type)!.spawn!;
+      if (spawn.activity) {
+        activity[type] = this.Activity(spawn.activity);
+      }
+      if (spawn.tileCap !== undefined) {
+        spawnRoom[type] = Math.max(0, spawn.tileCap - this.GetSpawnCount(type));
+      }
+    }
 
-    this.preparedTile = {
+    return {
       x: tileX,
       z: tileZ,
-      treeCount,
-      rabbitCount,
-      foxCount,
-      trexCount,
-      apatosaurusCount
+      spawnAnimals: this.spawnAnimals,
+      activity,
+      spawnRoom,
     };
-
   }
 
-  CreateTile(tileX: number, tileZ: number): TileData {
+  /**
+   * Build a generated tile into the scene: ground, colliders, water,
+   * props, navmesh, animals and pickups.
+   */
+  CreateTile(content: TileContent): TileData {
+    const { x: tileX, z: tileZ, samples } = content;
     const tile: TileData = {
       x: tileX,
       z: tileZ,
@@ -156,20 +267,17 @@ export default class TileManager extends Component {
     const centerX = tileX * this.tileSize;
     const centerZ = tileZ * this.tileSize;
 
-    // Create ground plane for this tile (visual) with vertex displacement
-    // Make tiles slightly larger to overlap and hide seams
-    const overlap = 0.5;
-    const visualSize = this.tileSize + overlap * 2;
-    const segments = 16; // More segments for displacement
-    const groundGeo = new THREE.PlaneGeometry(visualSize, visualSize, segments, segments);
-
-    // Add subtle vertex displacement for natural bumpy terrain
+    // Create ground plane for this tile (visual). PlaneGeometry vertices run
+    // row by row from local +Y, which after the -90 degree X rotation is
+    // world -Z, so vertex i lines up with sample i.
+    const segments = samples.size - 1;
+    const groundGeo = new THREE.PlaneGeometry(this.tileSize, this.tileSize, segments, segments);
     const positions = groundGeo.attributes.position.array as Float32Array;
-    for (let i = 0; i < positions.length; i += 3) {
-      // Add small random height variation (Y is Z after rotation)
-      positions[i + 2] += (Math.random() - 0.5) * 0.3;
+    for (let i = 0; i < samples.heights.length; i++) {
+      positions[i * 3 + 2] = samples.heights[i];
     }
     groundGeo.computeVertexNormals();
+    groundGeo.setAttribute('color', new THREE.BufferAttribute(content.groundColors, 3));
 
     const ground = new THREE.Mesh(groundGeo, this.grassMaterial);
     ground.rotation.x = -Math.PI / 2;
@@ -179,149 +287,166 @@ export default class TileManager extends Component {
     tile.objects.push(ground);
 
     // Create ground physics (collision)
-    const groundShape = new Ammo.btBoxShape(
-      new Ammo.btVector3(this.tileSize / 2, 0.5, this.tileSize / 2)
-    );
-    const groundTransform = new Ammo.btTransform();
-    groundTransform.setIdentity();
-    groundTransform.setOrigin(new Ammo.btVector3(centerX, -0.5, centerZ));
-    const groundMotionState = new Ammo.btDefaultMotionState(groundTransform);
-    const groundInfo = new Ammo.btRigidBodyConstructionInfo(
-      0,
-      groundMotionState,
-      groundShape,
-      new Ammo.btVector3(0, 0, 0)
-    );
-    const groundBody = new Ammo.btRigidBody(groundInfo);
-    this.physicsWorld.addRigidBody(groundBody);
-    tile.physicsBodies.push(groundBody);
-
-    // Add trees (5-8)
-    const treeCount = this.preparedTile?.treeCount || 5 + Math.floor(Math.random() * 4);
-    for (let i = 0; i < treeCount; i++) {
-      const tree = this.CreateTree(centerX, centerZ);
-      if (tree) {
-        tile.objects.push(tree);
-      }
-    }
+    tile.objects.push(this.CreateGroundCollider(centerX, centerZ, samples));
 
-    // Add grass bushes (sparse - 3-6 per tile, here and there)
-    const bushCount = 3 + Math.floor(Math.random() * 4);
-    for (let i = 0; i < bushCount; i++) {
-      const bush = this.CreateGrassBush(centerX, centerZ);
-      if (bush) {
-        tile.objects.push(bush);
-      }
+    // Flood anything below the water level (lakes and river channels)
+    if (this.water && samples.minHeight < this.water.GetLevel()) {
+      tile.objects.push(this.water.CreateSurface(centerX, centerZ, this.tileSize));
     }
 
-    // Add rocks (1-3 per tile)
-    const rockCount = 1 + Math.floor(Math.random() * 3);
-    for (let i = 0; i < rockCount; i++) {
-      const rock = this.CreateRock(centerX, centerZ);
-      if (rock) {
-        tile.objects.push(rock);
-      }
+    // Trees, bushes and rocks
+    for (const placement of content.props) {
+      tile.objects.push(this.CreateProp(placement));
     }
 
-    // Add rabbits (3)
-    const rabbitCount = this.preparedTile?.rabbitCount || 3;
-    for (let i = 0; i < rabbitCount; i++) {
-      const entity = this.SpawnRabbit(centerX, centerZ);
-      if (entity) {
-        tile.entities.push(entity);
-      }
-    }
+    // Let animals path over this tile's hills and around its trees and rocks
+    this.navmesh?.AddTile(tileX, tileZ, this.tileSize, samples, content.obstacles);
 
-    // Add fox (20% chance)
-    const foxCount = this.preparedTile?.foxCount ?? 0;
-    for (let i = 0; i < foxCount; i++) {
-      const entity = this.SpawnFox(centerX, centerZ);
-      if (entity) {
-        tile.entities.push(entity);
-      }
-    }
+    // Caps are checked again: other tiles may have filled them since the
+    // request went out
+    for (const spawn of content.spawns) {
+      const cap = getPrefab(spawn.type)?.spawn?.tileCap;
+      if (cap !== undefined && this.GetSpawnCount(spawn.type) >= cap) continue;
 
-    // Add T-Rex (5% chance per tile, max 1)
-    // Add T-Rex (5% chance, max 2 global)
-    const currentTrexCount = this.GetEntityCount('TRexController');
-    const trexSpawn = this.preparedTile?.trexCount ?? (Math.random() < 0.05 && currentTrexCount < 2 ? 1 : 0);
-    for (let i = 0; i < trexSpawn; i++) {
-      const entity = this.SpawnTRex(centerX, centerZ);
+      const entity = this.SpawnAnimal(spawn.type, new THREE.Vector3(spawn.x, spawn.y, spawn.z));
       if (entity) {
         tile.entities.push(entity);
       }
     }
 
-    // Add Apatosaurus (10% chance per tile)
-    // Add Apatosaurus (10% chance, max 4 global)
-    const currentApatoCount = this.GetEntityCount('ApatosaurusController');
-    const apatoSpawn = this.preparedTile?.apatosaurusCount ?? (Math.random() < 0.1 && currentApatoCount < 4 ? 1 : 0);
-    for (let i = 0; i < apatoSpawn; i++) {
-      const entity = this.SpawnApatosaurus(centerX, centerZ);
+    for (const pickup of content.pickups) {
+      const position = new THREE.Vector3(pickup.x, pickup.y, pickup.z);
+      const entity = pickup.kind === 'weapon' && pickup.weaponKey
+        ? this.SpawnWeaponPickup(position, pickup.weaponKey)
+        : this.SpawnAmmoPickup(position);
       if (entity) {
         tile.entities.push(entity);
       }
     }
 
-    // Add ammo pickup (1 per tile)
-    const ammoPickup = this.SpawnAmmoPickup(centerX, centerZ);
-    if (ammoPickup) {
-      tile.entities.push(ammoPickup);
-    }
+    this.tiles.push(tile);
 
-    // Random weapon pickup with rarity
-    // AK-47: 25%, Gatling: 12%, Nuke: 3%
-    const weaponRoll = Math.random();
-    if (weaponRoll < 0.03) {
-      // Nuke (3% chance)
-      const pickup = this.SpawnWeaponPickup(centerX, centerZ, 'nuke');
-      if (pickup) tile.entities.push(pickup);
-    } else if (weaponRoll < 0.15) {
-      // Gatling (12% chance)
-      const pickup = this.SpawnWeaponPickup(centerX, centerZ, 'gatling');
-      if (pickup) tile.entities.push(pickup);
-    } else if (weaponRoll < 0.4) {
-      // AK-47 (25% chance)
-      const pickup = this.SpawnWeaponPickup(centerX, centerZ, 'ak47');
-      if (pickup) tile.entities.push(pickup);
-    }
+    // NOTE: Pruning is handled by CheckForNewTiles -> PruneTiles, by
+    // "desired set" rather than by count
 
-    this.tiles.push(tile);
+    return tile;
+  }
 
+  /**
+   * Static ground collider for a tile. Uses a heightfield where the Ammo
+   * build has one, otherwise a triangle mesh over the same samples.
+   */
+  CreateGroundCollider(centerX: number, centerZ: number, samples: TerrainSamples): { cleanup: () => void } {
+    const { heights, size, spacing, minHeight, maxHeight } = samples;
+    const transform = new Ammo.btTransform();
+    transform.setIdentity();
+
+    // Bullet copies vectors it is given, so one scratch vector serves every
+    // call below and is destroyed at the end
+    const vector = new Ammo.btVector3(0, 0, 0);
+
+    let shape: unknown;
+    let mesh: unknown = null;
+    let heightData = 0;
+
+    if (Ammo.btHeightfieldTerrainShape) {
+      // Bullet reads the heights straight from the Emscripten heap
+      heightData = Ammo._malloc(heights.length * 4);
+      Ammo.HEAPF32.set(heights, heightData / 4);
+
+      const heightfield = new Ammo.btHeightfieldTerrainShape(
+        size, size, heightData, 1, minHeight, maxHeight, 1, 'PHY_FLOAT', false
+      );
+      vector.setValue(spacing, 1, spacing);
+      heightfield.setLocalScaling(vector);
+      shape = heightfield;
+
+      // Heightfields are centred on their vertical midpoint
+      vector.setValue(centerX, (minHeight + maxHeight) / 2, centerZ);
+      transform.setOrigin(vector);
+    } else {
+      const triangles = new Ammo.btTriangleMesh();
+      mesh = triangles;
+      const half = (size - 1) * spacing / 2;
+      const [a, b, c, d] = [0, 1, 2, 3].map(() => new Ammo.btVector3(0, 0, 0));
+      const setVertex = (target: AmmoVector3, row: number, col: number) =>
+        target.setValue(col * spacing - half, heights[row * size + col], row * spacing - half);
+
+      for (let row = 0; row < size - 1; row++) {
+        for (let col = 0; col < size - 1; col++) {
+          setVertex(a, row, col);
+          setVertex(b, row, col + 1);
+          setVertex(c, row + 1, col);
+          setVertex(d, row + 1, col + 1);
+          triangles.addTriangle(a, c, b, false);
+          triangles.addTriangle(b, c, d, false);
+        }
+      }
+      [a, b, c, d].forEach((corner) => Ammo.destroy(corner));
 
-    // NOTE: Pruning is now handled by CheckForNewTiles -> PruneTiles
-    // We don't limit by simple count anymore, but by "desired set"
+      shape = new Ammo.btBvhTriangleMeshShape(triangles, true, true);
+      vector.setValue(centerX, 0, centerZ);
+      transform.setOrigin(vector);
+    }
 
+    const motionState = new Ammo.btDefaultMotionState(transform);
+    vector.setValue(0, 0, 0);
+    const info = new Ammo.btRigidBodyConstructionInfo(0, motionState, shape, vector);
+    const body = new Ammo.btRigidBody(info);
+    this.physicsWorld.addRigidBody(body);
 
-    // Prepare next tile
-    this.preparedTile = null;
+    Ammo.destroy(info);
+    Ammo.destroy(vector);
+    Ammo.destroy(transform);
 
-    return tile;
+    return {
+      cleanup: () => {
+        try { this.physicsWorld.removeRigidBody(body); } catch (e) { /* ignore */ }
+        // The body is out of the world, so nothing refers to its parts any more
+        Ammo.destroy(body);
+        Ammo.destroy(motionState);
+        Ammo.destroy(shape);
+        if (mesh) {
+          Ammo.destroy(mesh);
+        }
+        if (heightData) {
+          Ammo._free(heightData);
+        }
+      },
+    };
   }
 
-  CreateTree(centerX: number, centerZ: number): { cleanup: () => void } | null {
-    // Random position within tile (with margin)
-    const margin = 5;
-    const halfSize = this.tileSize / 2 - margin;
-    const x = centerX + (Math.random() - 0.5) * 2 * halfSize;
-    const z = centerZ + (Math.random() - 0.5) * 2 * halfSize;
+  /**
+   * Place a generated tree, bush or rock.
+   */
+  CreateProp(placement: PropPlacement): { cleanup: () => void } {
+    switch (placement.kind) {
+      case 'grassBush':
+        return this.CreateGrassBush(placement);
+      case 'rock':
+        return this.CreateRock(placement);
+      default:
+        return this.CreateTree(placement);
+    }
+  }
 
-    const isPine = Math.random() < 0.5;
-    const treeModel = isPine ? this.assets.tree2 : this.assets.tree1; // Assuming tree2 is pine-like
+  CreateTree(placement: PropPlacement): { cleanup: () => void } {
+    const { kind, x, y, z, rotationY, scale } = placement;
 
-    if (!treeModel) {
+    const props = this.props;
+    if (!props?.HasModel(kind)) {
       // Fallback to simple cone tree if models not loaded
       const trunkGeo = new THREE.CylinderGeometry(0.3, 0.4, 2, 8);
       const trunkMat = new THREE.MeshLambertMaterial({ color: 0x8b4513 });
       const trunk = new THREE.Mesh(trunkGeo, trunkMat);
-      trunk.position.set(x, 1, z);
+      trunk.position.set(x, y + 1, z);
       trunk.castShadow = true;
       this.scene.add(trunk);
 
       const leavesGeo = new THREE.ConeGeometry(2, 5, 8);
       const leavesMat = new THREE.MeshLambertMaterial({ color: 0x228b22 });
       const leaves = new THREE.Mesh(leavesGeo, leavesMat);
-      leaves.position.set(x, 4.5, z);
+      leaves.position.set(x, y + 4.5, z);
       leaves.castShadow = true;
       this.scene.add(leaves);
 
@@ -329,7 +454,7 @@ export default class TileManager extends Component {
       const treeShape = new Ammo.btCylinderShape(new Ammo.btVector3(0.4, 1, 0.4));
       const treeTransform = new Ammo.btTransform();
       treeTransform.setIdentity();
-      treeTransform.setOrigin(new Ammo.btVector3(x, 1, z));
+      treeTransform.setOrigin(new Ammo.btVector3(x, y + 1, z));
       const treeMotionState = new Ammo.btDefaultMotionState(treeTransform);
       const treeInfo = new Ammo.btRigidBodyConstructionInfo(0, treeMotionState, treeShape, new Ammo.btVector3(0, 0, 0));
       const treeBody = new Ammo.btRigidBody(treeInfo);
@@ -345,269 +470,146 @@ export default class TileManager extends Component {
       };
     }
 
-    // Clone the tree model
-    const treeClone = treeModel.clone();
-
-    // Specific scaling based on tree type
-    let scale = 1.0;
-    if (isPine) {
-      // Pine trees: [3.0, 5.0]
-      scale = 3.0 + Math.random() * 2.0;
-    } else {
-      // Other trees: [1.2, 1.8]
-      scale = 1.2 + Math.random() * 0.6;
-    }
-
-    treeClone.scale.set(scale, scale, scale);
-
-    // Random rotation
-    treeClone.rotation.y = Math.random() * Math.PI * 2;
-
-    treeClone.position.set(x, 0, z);
-    treeClone.traverse((child) => {
-      child.castShadow = true;
-      child.receiveShadow = true;
-    });
-    this.scene.add(treeClone);
+    const tree = props.Add(kind, new THREE.Vector3(x, y, z), rotationY, scale);
 
     // Physics collider (cylinder for trunk)
     const colliderRadius = 0.5 * scale;
     const colliderHeight = 2.0 * scale; // Increased height for bigger trees
-    const treeShape = new Ammo.btCylinderShape(new Ammo.btVector3(colliderRadius, colliderHeight / 2, colliderRadius));
-    const treeTransform = new Ammo.btTransform();
-    treeTransform.setIdentity();
-    treeTransform.setOrigin(new Ammo.btVector3(x, colliderHeight / 2, z));
-    const treeMotionState = new Ammo.btDefaultMotionState(treeTransform);
-    const treeInfo = new Ammo.btRigidBodyConstructionInfo(0, treeMotionState, treeShape, new Ammo.btVector3(0, 0, 0));
-    const treeBody = new Ammo.btRigidBody(treeInfo);
-    (treeBody as any).isTree = true;
-    this.physicsWorld.addRigidBody(treeBody);
+    const treeBody = this.PlaceStaticBody('trunk', x, y + colliderHeight / 2, z, colliderRadius, colliderHeight / 2);
 
     return {
       cleanup: () => {
-        this.scene.remove(treeClone);
-        try { this.physicsWorld.removeRigidBody(treeBody); } catch (e) { /* ignore */ }
+        props.Remove(tree);
+        this.bodyPool.release('trunk', treeBody);
       },
     };
   }
 
-  CreateGrassBush(centerX: number, centerZ: number): { cleanup: () => void } | null {
-    const bushModel = this.assets.grassBush;
-    if (!bushModel) return null;
-
-    const margin = 3;
-    const halfSize = this.tileSize / 2 - margin;
-    const x = centerX + (Math.random() - 0.5) * 2 * halfSize;
-    const z = centerZ + (Math.random() - 0.5) * 2 * halfSize;
-
-    const bushClone = bushModel.clone();
-
-    // Small random scale (0.3 to 0.6)
-    const scale = 0.3 + Math.random() * 0.3;
-    bushClone.scale.set(scale, scale, scale);
-
-    // Random rotation
-    bushClone.rotation.y = Math.random() * Math.PI * 2;
-
-    bushClone.position.set(x, 0, z);
-    bushClone.traverse((child) => {
-      child.castShadow = true;
-      child.receiveShadow = true;
-    });
-    this.scene.add(bushClone);
+  CreateGrassBush(placement: PropPlacement): { cleanup: () => void } {
+    const { x, y, z, rotationY, scale } = placement;
+    const props = this.props!;
+    const bush = props.Add('grassBush', new THREE.Vector3(x, y, z), rotationY, scale);
 
     return {
       cleanup: () => {
-        this.scene.remove(bushClone);
+        props.Remove(bush);
       },
     };
   }
 
-  CreateRock(centerX: number, centerZ: number): { cleanup: () => void } | null {
-    const rockModel = this.assets.rock;
-    if (!rockModel) return null;
-
-    const margin = 4;
-    const halfSize = this.tileSize / 2 - margin;
-    const x = centerX + (Math.random() - 0.5) * 2 * halfSize;
-    const z = centerZ + (Math.random() - 0.5) * 2 * halfSize;
-
-    const rockClone = rockModel.clone();
-
-    // Random scale (0.5 to 1.5)
-    const scale = 0.5 + Math.random() * 1.0;
-    rockClone.scale.set(scale, scale, scale);
-
-    // Random rotation
-    rockClone.rotation.y = Math.random() * Math.PI * 2;
-
-    rockClone.position.set(x, 0, z);
-    rockClone.traverse((child) => {
-      child.castShadow = true;
-      child.receiveShadow = true;
-    });
-    this.scene.add(rockClone);
+  CreateRock(placement: PropPlacement): { cleanup: () => void } {
+    const { x, y, z, rotationY, scale } = placement;
+    const props = this.props!;
+    const rock = props.Add('rock', new THREE.Vector3(x, y, z), rotationY, scale);
 
     // Physics collider (box for rock)
     const colliderSize = 0.5 * scale;
-    const rockShape = new Ammo.btBoxShape(new Ammo.btVector3(colliderSize, colliderSize * 0.5, colliderSize));
-    const rockTransform = new Ammo.btTransform();
-    rockTransform.setIdentity();
-    rockTransform.setOrigin(new Ammo.btVector3(x, colliderSize * 0.5, z));
-    const rockMotionState = new Ammo.btDefaultMotionState(rockTransform);
-    const rockInfo = new Ammo.btRigidBodyConstructionInfo(0, rockMotionState, rockShape, new Ammo.btVector3(0, 0, 0));
-    const rockBody = new Ammo.btRigidBody(rockInfo);
-    (rockBody as any).isRock = true;
-    this.physicsWorld.addRigidBody(rockBody);
+    const rockBody = this.PlaceStaticBody('rock', x, y + colliderSize * 0.5, z, colliderSize, colliderSize * 0.5);
 
     return {
       cleanup: () => {
-        this.scene.remove(rockClone);
-        try { this.physicsWorld.removeRigidBody(rockBody); } catch (e) { /* ignore */ }
+        props.Remove(rock);
+        this.bodyPool.release('rock', rockBody);
       },
     };
   }
 
-  SpawnRabbit(centerX: number, centerZ: number): Entity | null {
-    const rabbitModel = this.assets['rabbit'];
-    if (!rabbitModel) return null;
-
-    const margin = 5;
-    const halfSize = this.tileSize / 2 - margin;
-    const x = centerX + (Math.random() - 0.5) * 2 * halfSize;
-    const z = centerZ + (Math.random() - 0.5) * 2 * halfSize;
-
-    const sourceScene = rabbitModel.scene || rabbitModel;
-    const modelClone = SkeletonUtils.clone(sourceScene);
-
-    if (rabbitModel.animations && rabbitModel.animations.length > 0) {
-      (modelClone as any).animations = rabbitModel.animations;
-    }
-
-    const entity = new Entity();
-    entity.SetName(`Rabbit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
-    entity.SetPosition(new THREE.Vector3(x, 0, z));
-    entity.AddComponent(new RabbitController(modelClone, this.scene, this.physicsWorld));
-
-    this.entityManager.Add(entity);
-
-    // Initialize the entity
-    for (const key in entity.components) {
-      entity.components[key].Initialize();
+  /**
+   * Static body with a unit shape, scaled when placed.
+   */
+  CreateStaticBody(kind: BodyKind): AmmoRigidBody {
+    const unit = new Ammo.btVector3(1, 1, 1);
+    const shape = kind === 'trunk' ? new Ammo.btCylinderShape(unit) : new Ammo.btBoxShape(unit);
+    const transform = new Ammo.btTransform();
+    transform.setIdentity();
+    const motionState = new Ammo.btDefaultMotionState(transform);
+    const info = new Ammo.btRigidBodyConstructionInfo(0, motionState, shape, new Ammo.btVector3(0, 0, 0));
+    const body = new Ammo.btRigidBody(info);
+    if (kind === 'trunk') {
+      (body as any).isTree = true;
+    } else {
+      (body as any).isRock = true;
     }
-
-    return entity;
+    return body;
   }
 
-  SpawnFox(centerX: number, centerZ: number): Entity | null {
-    const foxModel = this.assets['fox'];
-    if (!foxModel) return null;
-
-    const margin = 5;
-    const halfSize = this.tileSize / 2 - margin;
-    const x = centerX + (Math.random() - 0.5) * 2 * halfSize;
-    const z = centerZ + (Math.random() - 0.5) * 2 * halfSize;
-
-    const sourceScene = foxModel.scene || foxModel;
-    const modelClone = SkeletonUtils.clone(sourceScene);
-
-    if (foxModel.animations && foxModel.animations.length > 0) {
-      (modelClone as any).animations = foxModel.animations;
-    }
-
-    const entity = new Entity();
-    entity.SetName(`Fox_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
-    entity.SetPosition(new THREE.Vector3(x, 0, z));
-    entity.AddComponent(new FoxController(modelClone, this.scene, this.physicsWorld));
-
-    this.entityManager.Add(entity);
-
-    // Initialize the entity
-    for (const key in entity.components) {
-      entity.components[key].Initialize();
-    }
-
-    return entity;
+  /**
+   * Take a pooled body, size it (half extents; cylinders use the X extent
+   * as radius), move it and add it to the world.
+   */
+  PlaceStaticBody(kind: BodyKind, x: number, y: number, z: number, halfWidth: number, halfHeight: number): AmmoRigidBody {
+    const body = this.bodyPool.acquire(kind);
+    this.bodyVector ??= new Ammo.btVector3(0, 0, 0);
+    this.bodyTransform ??= new Ammo.btTransform();
+
+    this.bodyVector.setValue(halfWidth, halfHeight, halfWidth);
+    body.getCollisionShape().setLocalScaling(this.bodyVector);
+
+    this.bodyTransform.setIdentity();
+    this.bodyVector.setValue(x, y, z);
+    this.bodyTransform.setOrigin(this.bodyVector);
+    body.setWorldTransform(this.bodyTransform);
+    body.getMotionState().setWorldTransform(this.bodyTransform);
+
+    this.physicsWorld.addRigidBody(body);
+    return body;
   }
 
-  SpawnTRex(centerX: number, centerZ: number): Entity | null {
-    const trexModel = this.assets['trex'];
-    if (!trexModel) return null;
-
-    const margin = 8; // More margin for larger dino
-    const halfSize = this.tileSize / 2 - margin;
-    const x = centerX + (Math.random() - 0.5) * 2 * halfSize;
-    const z = centerZ + (Math.random() - 0.5) * 2 * halfSize;
+  /**
+   * Put an animal at a position, reusing a pooled entity when one is parked
+   * and its prefab is pooled.
+   */
+  SpawnAnimal(type: string, position: THREE.Vector3): Entity | null {
+    if (!this.prefabs.Has(type)) return null;
 
-    const modelClone = SkeletonUtils.clone(trexModel);
+    if (getPrefab(type)?.spawn?.pooled === false) {
+      const entity = this.prefabs.Create(type, position);
+      if (!entity) return null;
 
-    if (trexModel.animations && trexModel.animations.length > 0) {
-      (modelClone as any).animations = trexModel.animations;
+      this.entityManager.Add(entity);
+      for (const key in entity.components) {
+        entity.components[key].Initialize();
+      }
+      this.spawnTypes.set(entity, type);
+      return entity;
     }
 
-    const entity = new Entity();
-    entity.SetName(`TRex_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
-    entity.SetPosition(new THREE.Vector3(x, 0, z));
-    entity.AddComponent(new TRexController(modelClone, this.scene, this.physicsWorld));
+    const entity = this.animalPool.acquire(type);
+    // Entities that have been in the manager before come from the pool
+    const reused = entity.parent !== null;
 
+    entity.SetPosition(position);
     this.entityManager.Add(entity);
 
-    for (const key in entity.components) {
-      entity.components[key].Initialize();
+    if (reused) {
+      this.AnimalControllerOf(entity)?.Reset();
+    } else {
+      for (const key in entity.components) {
+        entity.components[key].Initialize();
+      }
     }
 
+    this.spawnTypes.set(entity, type);
     return entity;
   }
 
-  SpawnApatosaurus(centerX: number, centerZ: number): Entity | null {
-    const apatosaurusModel = this.assets['apatosaurus'];
-    if (!apatosaurusModel) return null;
-
-    const margin = 10; // Even more margin for long-neck dino
-    const halfSize = this.tileSize / 2 - margin;
-    const x = centerX + (Math.random() - 0.5) * 2 * halfSize;
-    const z = centerZ + (Math.random() - 0.5) * 2 * halfSize;
-
-    const modelClone = SkeletonUtils.clone(apatosaurusModel);
-
-    if (apatosaurusModel.animations && apatosaurusModel.animations.length > 0) {
-      (modelClone as any).animations = apatosaurusModel.animations;
-    }
-
-    const entity = new Entity();
-    entity.SetName(`Apatosaurus_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
-    entity.SetPosition(new THREE.Vector3(x, 0, z));
-    entity.AddComponent(new ApatosaurusController(modelClone, this.scene, this.physicsWorld));
-
-    this.entityManager.Add(entity);
-
-    for (const key in entity.components) {
-      entity.components[key].Initialize();
-    }
-
-    return entity;
+  /**
+   * Build an animal entity from its prefab. It is initialised when first
+   * spawned; SpawnAnimal has checked that the prefab can be built.
+   */
+  CreateAnimalEntity(type: string): Entity {
+    return this.prefabs.Create(type)!;
   }
 
-  SpawnWeaponPickup(centerX: number, centerZ: number, weaponKey: string): Entity | null {
-    const margin = 5;
-    const halfSize = this.tileSize / 2 - margin;
-    const x = centerX + (Math.random() - 0.5) * 2 * halfSize;
-    const z = centerZ + (Math.random() - 0.5) * 2 * halfSize;
-
-    const position = new THREE.Vector3(x, 0, z);
-
-    // Get weapon assets for pickup display
-    const weaponAssets = {
-      pistol: this.assets['pistol'],
-      smg: this.assets['smg'],
-      assaultRifle: this.assets['assaultRifle'],
-      smg2: this.assets['smg2'],
-    };
+  AnimalControllerOf(entity: Entity): AnimalController<string> | undefined {
+    return Object.values(entity.components).find(
+      (component): component is AnimalController<string> => component instanceof AnimalController
+    );
+  }
 
-    const entity = new Entity();
-    entity.SetName(`WeaponPickup_${weaponKey}_${Date.now()}`);
-    entity.SetPosition(position);
-    entity.AddComponent(new WeaponPickup(this.scene, weaponKey, position, weaponAssets));
+  SpawnWeaponPickup(position: THREE.Vector3, weaponKey: string): Entity | null {
+    const entity = this.prefabs.Create('weaponPickup', position, { weaponKey });
+    if (!entity) return null;
 
     this.entityManager.Add(entity);
 
@@ -618,19 +620,9 @@ export default class TileManager extends Component {
     return entity;
   }
 
-  SpawnAmmoPickup(centerX: number, centerZ: number): Entity | null {
-    const margin = 5;
-    const halfSize = this.tileSize / 2 - margin;
-    const x = centerX + (Math.random() - 0.5) * 2 * halfSize;
-    const z = centerZ + (Math.random() - 0.5) * 2 * halfSize;
-
-    // Create simple ammo box visual
-    const entity = new Entity();
-    entity.SetName(`AmmoPickup_${Date.now()}`);
-    entity.SetPosition(new THREE.Vector3(x, 0, z));
-
-    // Create ammo pickup component
-    entity.AddComponent(new AmmoPickup(this.scene, new THREE.Vector3(x, 0, z)));
+  SpawnAmmoPickup(position: THREE.Vector3): Entity | null {
+    const entity = this.prefabs.Create('ammoPickup', position);
+    if (!entity) return null;
 
     this.entityManager.Add(entity);
 
@@ -641,7 +633,9 @@ export default class TileManager extends Component {
     return entity;
   }
 
-  RemoveTile(tile: TileData, activeTiles: TileData[]): void {
+  RemoveTile(tile: TileData): void {
+    this.navmesh?.RemoveTile(tile.x, tile.z);
+
     // Remove all 3D objects
     for (const obj of tile.objects) {
       if ('cleanup' in obj && typeof (obj as any).cleanup === 'function') {
@@ -662,46 +656,47 @@ export default class TileManager extends Component {
       }
     }
 
-    // Handle ENTITIES (Relocation Logic)
-    // We want to relocate ALL living entities to a valid tile (one of the active ones)
-    // instead of destroying them.
+    // Pooled animals go back to the pool for the next tile; pickups and
+    // everything else are destroyed
     for (const entity of tile.entities) {
-      // Pickups can be destroyed (or relocated if preferred, but usually they are plentiful)
-      // The user requested "any enemy" and "rabbits, foxes, dinos" be moved.
-      // Let's identify "living" things or important things.
-      const isLiving =
-        entity.GetComponent('RabbitController') ||
-        entity.GetComponent('FoxController') ||
-        entity.GetComponent('TRexController') ||
-        entity.GetComponent('ApatosaurusController') ||
-        entity.GetComponent('NpcCharacterController'); // Just in case
-
-      if (isLiving) {
-        // Relocate!
-        if (activeTiles.length > 0) {
-          // Pick a random target tile from the active set
-          // Ideally one far away? For now random is safe enough to avoid piling up on one tile.
-          const targetTile = activeTiles[Math.floor(Math.random() * activeTiles.length)];
-          this.RelocateEntity(entity, targetTile);
-        } else {
-          // No active tiles? Should not happen if game is running.
-          // Just cleanup.
-          this.CleanupEntity(entity);
-        }
+      const type = this.spawnTypes.get(entity);
+      this.spawnTypes.delete(entity);
+
+      const pooled = type !== undefined && getPrefab(type)?.spawn?.pooled !== false;
+      const controller = this.AnimalControllerOf(entity);
+      if (pooled && controller && !controller.isDead) {
+        this.entityManager.Remove(entity, false);
+        this.animalPool.release(type, entity);
       } else {
-        // Pickups, etc. - Destroy them
         this.CleanupEntity(entity);
+        this.entityManager.Remove(entity);
       }
-
-      this.entityManager.Remove(entity);
     }
   }
 
+  /**
+   * A tile animal that dies is no longer the tile's: the spawn manager
+   * cleans up the corpse, so it leaves the tile, stops counting against
+   * the tile cap and never goes back in the pool.
+   */
+  private onAnimalDied = (msg: AnimalDiedEvent): void => {
+    const entity = msg.entity as Entity;
+    if (!this.spawnTypes.delete(entity)) return;
+
+    for (const tile of this.tiles) {
+      const index = tile.entities.indexOf(entity);
+      if (index > -1) {
+        tile.entities.splice(index, 1);
+        return;
+      }
+    }
+  };
+
   CleanupEntity(entity: Entity): void {
     // General cleanup helper
     const components = [
       'RabbitController', 'FoxController', 'TRexController', 'ApatosaurusController',
-      'WeaponPickup', 'AmmoPickup'
+      'MutantController', 'WeaponPickup', 'AmmoPickup'
     ];
 
     for (const c of components) {
@@ -712,48 +707,23 @@ export default class TileManager extends Component {
     }
   }
 
-  GetEntityCount(componentName: string): number {
-    let count = 0;
-    for (const tile of this.tiles) {
-      for (const entity of tile.entities) {
-        if (entity.GetComponent(componentName)) {
-          count++;
-        }
-      }
-    }
-    return count;
+  /** Activity multiplier for tile spawn chances (1 without a clock) */
+  Activity(type: AnimalType): number {
+    return this.clock?.GetActivity(type) ?? 1;
   }
 
-  RelocateEntity(entity: Entity, targetTile: TileData): void {
-    const margin = 10;
-    const halfSize = this.tileSize / 2 - margin;
-    const centerX = targetTile.x * this.tileSize;
-    const centerZ = targetTile.z * this.tileSize;
-
-    const x = centerX + (Math.random() - 0.5) * 2 * halfSize;
-    const z = centerZ + (Math.random() - 0.5) * 2 * halfSize;
-
-    const animalController =
-      entity.GetComponent('RabbitController') ||
-      entity.GetComponent('FoxController') ||
-      entity.GetComponent('TRexController') ||
-      entity.GetComponent('ApatosaurusController');
-
-    if (animalController) {
-      // Move visual model
-      (animalController as any).model.position.set(x, 0.5, z);
-      // Let update loop handle collider sync, or force it here if needed
-      if ('updateColliderPosition' in animalController) {
-        (animalController as any).updateColliderPosition();
-      }
-      // Reset path/state
-      if ('clearPath' in animalController) {
-        (animalController as any).clearPath();
+  /**
+   * Animals of a prefab on loaded tiles. Animals the spawn manager or wave
+   * director placed are not counted against tile caps.
+   */
+  GetSpawnCount(type: string): number {
+    let count = 0;
+    for (const spawned of this.spawnTypes.values()) {
+      if (spawned === type) {
+        count++;
       }
     }
-
-    // Add to new tile
-    targetTile.entities.push(entity);
+    return count;
   }
 
   GetPlayerTile(): { x: number; z: number } {
@@ -774,16 +744,40 @@ export default class TileManager extends Component {
 
   UpdateTiles(): void {
     const desiredCoords = this.GetDesiredTiles();
+    this.desiredTiles = new Set(desiredCoords.map((c) => this.TileKey(c.x, c.z)));
 
-    // 1. Create missing tiles
-    for (const coord of desiredCoords) {
+    // 1. Request missing tiles, nearest first
+    const playerTile = this.GetPlayerTile();
+    const byDistance = (c: { x: number, z: number }) => Math.abs(c.x - playerTile.x) + Math.abs(c.z - playerTile.z);
+    for (const coord of [...desiredCoords].sort((a, b) => byDistance(a) - byDistance(b))) {
       this.EnsureTileExists(coord.x, coord.z);
     }
 
-    // 2. Prune tiles that are not in desired set
+    // 2. Build tiles the generator has finished
+    this.BuildReadyTiles();
+
+    // 3. Prune tiles that are not in desired set
     this.PruneTiles(desiredCoords);
   }
 
+  /**
+   * Build a few generated tiles into the scene. Tiles the player has
+   * turned away from since requesting them are dropped.
+   */
+  BuildReadyTiles(): void {
+    let built = 0;
+    while (this.readyTiles.length > 0 && built < TILES_PER_FRAME) {
+      const content = this.readyTiles.shift()!;
+      const key = this.TileKey(content.x, content.z);
+      this.requestedTiles.delete(key);
+
+      if (this.desiredTiles.has(key) && !this.HasTile(content.x, content.z)) {
+        this.CreateTile(content);
+        built++;
+      }
+    }
+  }
+
   GetDesiredTiles(): { x: number, z: number }[] {
     if (!this.player) return [];
 
@@ -801,10 +795,8 @@ export default class TileManager extends Component {
     const absX = Math.abs(forward.x);
     const absZ = Math.abs(forward.z);
 
-    // Config
-    const forwardDepth = 4; // FOV
-    const backDepth = 2;
-    const sideWidth = 2; // tiles to left/right center
+    // Distant tiles are cheap with prop LOD and throttled animals
+    const { forwardDepth, backDepth, sideWidth } = LOD_CONFIG.tiles;
 
     // Ranges
     let minX = 0, maxX = 0, minZ = 0, maxZ = 0;
@@ -860,10 +852,10 @@ export default class TileManager extends Component {
     const tilesToRemove: TileData[] = [];
     const tilesToKeep: TileData[] = [];
 
-    const desiredSet = new Set(desiredCoords.map(c => `${c.x},${c.z}`));
+    const desiredSet = new Set(desiredCoords.map((c) => this.TileKey(c.x, c.z)));
 
     for (const tile of this.tiles) {
-      const key = `${tile.x},${tile.z}`;
+      const key = this.TileKey(tile.x, tile.z);
       if (!desiredSet.has(key)) {
         tilesToRemove.push(tile);
       } else {
@@ -873,12 +865,12 @@ export default class TileManager extends Component {
 
     if (tilesToRemove.length === 0) return;
 
-    // Update this.tiles immediately to reflect kept tiles (so relocation CAN find them)
+    // Update this.tiles immediately to reflect kept tiles
     this.tiles = tilesToKeep;
 
-    // Now remove the old ones and relocate entities to the KEEP set
+    // Now remove the old ones, parking their props and animals for reuse
     for (const tile of tilesToRemove) {
-      this.RemoveTile(tile, tilesToKeep);
+      this.RemoveTile(tile);
     }
 
     console.log(`Pruned ${tilesToRemove.length} tiles. Active: ${this.tiles.length}`);
@@ -886,15 +878,29 @@ export default class TileManager extends Component {
   }
 
   EnsureTileExists(tileX: number, tileZ: number): void {
-    // Check if tile already exists
-    const exists = this.tiles.some((t) => t.x === tileX && t.z === tileZ);
-    if (!exists) {
-      this.PrepareTile(tileX, tileZ);
-      this.CreateTile(tileX, tileZ);
-    }
+    // Already built, or on its way from the generator
+    if (this.HasTile(tileX, tileZ) || this.requestedTiles.has(this.TileKey(tileX, tileZ))) return;
+    this.PrepareTile(tileX, tileZ);
+  }
+
+  HasTile(tileX: number, tileZ: number): boolean {
+    return this.tiles.some((t) => t.x === tileX && t.z === tileZ);
+  }
+
+  TileKey(tileX: number, tileZ: number): string {
+    return `${tileX},${tileZ}`;
   }
 
   Update(t: number): void {
     this.CheckForNewTiles();
   }
+
+  Cleanup(): void {
+    this.tileGenerator?.dispose();
+    this.readyTiles = [];
+    this.requestedTiles.clear();
+    this.animalPool.clear();
+    this.spawnTypes.clear();
+    this.bodyPool.clear();
+  }
 }
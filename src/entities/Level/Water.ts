@@ -0,0 +1,299 @@
+/**
+ * Water Component
+ *
+ * Renders lakes and rivers. Lives on the Level entity; the tile manager asks
+ * it for a surface on every tile that dips below the water level, and all
+ * surfaces share one shader so the ripples line up across tile edges.
+ *
+ * Once per frame, before the first surface draws, the scene is rendered
+ * twice into half-resolution targets: mirrored about the water plane for
+ * the reflection and from the player's camera, clipped to what lies below
+ * the surface, for the refraction. The shader samples both where the
+ * surface projects, shifted by the ripples, and mixes them with a Fresnel
+ * term. Without a WebGL renderer (headless runs) no surface is drawn and
+ * the passes never run.
+ */
+
+import * as THREE from 'three';
+import Component from '../../core/Component';
+import { WATER_CONFIG } from '../../config/water.config';
+import { TERRAIN_CONFIG } from '../../config/terrain.config';
+import type WorldClock from './WorldClock';
+
+// ============================================================================
+// WATER SHADERS
+// ============================================================================
+
+const WATER_VS = `
+uniform mat4 reflectionMatrix;
+uniform mat4 refractionMatrix;
+varying vec3 vWorld;
+varying vec4 vReflect;
+varying vec4 vRefract;
+#include <fog_pars_vertex>
+void main() {
+  vec4 world = modelMatrix * vec4(position, 1.0);
+  vWorld = world.xyz;
+  vReflect = reflectionMatrix * world;
+  vRefract = refractionMatrix * world;
+  vec4 mvPosition = viewMatrix * world;
+  gl_Position = projectionMatrix * mvPosition;
+  #include <fog_vertex>
+}`;
+
+// Ripples are a few crossing sine waves in world space, so neighbouring
+// tiles match without sharing a mesh
+const WATER_FS = `
+uniform float time;
+uniform float waveStrength;
+uniform float distortion;
+uniform vec3 waterColor;
+uniform float tint;
+uniform vec3 sunDirection;
+uniform vec3 sunColor;
+uniform sampler2D reflectionMap;
+uniform sampler2D refractionMap;
+varying vec3 vWorld;
+varying vec4 vReflect;
+varying vec4 vRefract;
+#include <fog_pars_fragment>
+
+vec3 rippleNormal(vec2 p) {
+  vec2 g = vec2(0.0);
+  g += vec2(0.8, 0.6) * cos(dot(p, vec2(0.8, 0.6)) * 0.9 + time * 1.3);
+  g += vec2(-0.5, 0.9) * cos(dot(p, vec2(-0.5, 0.9)) * 1.7 + time * 1.9) * 0.6;
+  g += vec2(0.3, -0.95) * cos(dot(p, vec2(0.3, -0.95)) * 3.1 + time * 2.7) * 0.3;
+  return normalize(vec3(-g.x * waveStrength, 1.0, -g.y * waveStrength));
+}
+
+void main() {
+  vec3 n = rippleNormal(vWorld.xz);
+  vec3 view = normalize(cameraPosition - vWorld);
+  float cosTheta = max(dot(n, view), 0.0);
+  float fresnel = 0.02 + 0.98 * pow(1.0 - cosTheta, 5.0);
+  vec2 offset = n.xz * distortion;
+
+  // Reflection: the mirrored scene, plus sun glint
+  vec3 reflection = texture2D(reflectionMap, vReflect.xy / vReflect.w + offset).rgb;
+  vec3 r = reflect(-view, n);
+  float glint = pow(max(dot(r, sunDirection), 0.0), 200.0);
+
+  // Refraction: the lakebed, tinted by the water body, darker at grazing angles
+  vec3 below = texture2D(refractionMap, vRefract.xy / vRefract.w + offset).rgb;
+  vec3 refraction = mix(below, waterColor, tint) * (0.8 + 0.2 * cosTheta);
+
+  vec3 color = mix(refraction, reflection, fresnel) + sunColor * glint;
+  gl_FragColor = vec4(color, 1.0);
+  #include <fog_fragment>
+}`;
+
+/** Maps clip space to texture space, for projecting onto the pass targets */
+const TEXTURE_BIAS = new THREE.Matrix4().set(
+  0.5, 0.0, 0.0, 0.5,
+  0.0, 0.5, 0.0, 0.5,
+  0.0, 0.0, 0.5, 0.5,
+  0.0, 0.0, 0.0, 1.0
+);
+
+// ============================================================================
+// WATER COMPONENT
+// ============================================================================
+
+export default class Water extends Component {
+  override name = 'Water';
+
+  private readonly scene: THREE.Scene;
+
+  // Shared by every tile's surface
+  private readonly geometry: THREE.PlaneGeometry;
+  private readonly material: THREE.ShaderMaterial;
+
+  // Reflection and refraction passes, shared by every surface
+  private readonly reflectionTarget: THREE.WebGLRenderTarget;
+  private readonly refractionTarget: THREE.WebGLRenderTarget;
+  private readonly reflectionCamera = new THREE.PerspectiveCamera();
+  private readonly abovePlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+  private readonly belowPlane = new THREE.Plane(new THREE.Vector3(0, -1, 0), 0);
+  private readonly bufferSize = new THREE.Vector2();
+  private readonly lookTarget = new THREE.Vector3();
+
+  /** Whether this frame's passes have been rendered (reset in Update) */
+  private passesRendered: boolean = false;
+
+  // Time of day (from Level 'WorldClock' component)
+  private clock: WorldClock | null = null;
+
+  private elapsed: number = 0;
+
+  constructor(scene: THREE.Scene) {
+    super();
+    this.scene = scene;
+
+    this.geometry = new THREE.PlaneGeometry(1, 1);
+    this.geometry.rotateX(-Math.PI / 2);
+
+    this.reflectionTarget = new THREE.WebGLRenderTarget(1, 1);
+    this.refractionTarget = new THREE.WebGLRenderTarget(1, 1);
+
+    const { color, tint, waveStrength, distortion } = WATER_CONFIG.surface;
+    this.material = new THREE.ShaderMaterial({
+      uniforms: THREE.UniformsUtils.merge([
+        THREE.UniformsLib.fog,
+        {
+          time: { value: 0 },
+          waveStrength: { value: waveStrength },
+          distortion: { value: distortion },
+          waterColor: { value: new THREE.Color(color) },
+          tint: { value: tint },
+          sunDirection: { value: new THREE.Vector3(0, 1, 0) },
+          sunColor: { value: new THREE.Color(0xffffff) },
+          reflectionMap: { value: null },
+          refractionMap: { value: null },
+          reflectionMatrix: { value: new THREE.Matrix4() },
+          refractionMatrix: { value: new THREE.Matrix4() },
+        },
+      ]),
+      vertexShader: WATER_VS,
+      fragmentShader: WATER_FS,
+      fog: true,
+    });
+    // Textures are set after the merge, which would clone them
+    this.material.uniforms.reflectionMap.value = this.reflectionTarget.texture;
+    this.material.uniforms.refractionMap.value = this.refractionTarget.texture;
+  }
+
+  override Initialize(): void {
+    this.clock = (this.GetComponent('WorldClock') as WorldClock | undefined) ?? null;
+  }
+
+  /**
+   * Height of the water surface.
+   */
+  GetLevel(): number {
+    return TERRAIN_CONFIG.waterLevel;
+  }
+
+  /**
+   * Add a water surface covering a tile. The tile owns the returned
+   * cleanup.
+   */
+  CreateSurface(centerX: number, centerZ: number, size: number): { cleanup: () => void } {
+    const surface = new THREE.Mesh(this.geometry, this.material);
+    surface.position.set(centerX, this.GetLevel(), centerZ);
+    surface.scale.set(size, 1, size);
+    surface.renderOrder = 1; // after opaque ground
+    surface.onBeforeRender = (renderer, scene, camera) => {
+      this.renderPasses(renderer, scene, camera);
+    };
+    this.scene.add(surface);
+
+    return {
+      cleanup: () => {
+        this.scene.remove(surface);
+      },
+    };
+  }
+
+  // ============================================================================
+  // REFLECTION / REFRACTION PASSES
+  // ============================================================================
+
+  /**
+   * Render the reflection and refraction targets for this frame. Called by
+   * whichever surface draws first; the rest reuse the result.
+   */
+  private renderPasses(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera): void {
+    if (this.passesRendered || !(camera instanceof THREE.PerspectiveCamera)) return;
+    this.passesRendered = true;
+
+    const level = this.GetLevel();
+    const { passScale, clipBias } = WATER_CONFIG.surface;
+
+    renderer.getDrawingBufferSize(this.bufferSize).multiplyScalar(passScale).floor();
+    const width = Math.max(1, this.bufferSize.x);
+    const height = Math.max(1, this.bufferSize.y);
+    if (this.reflectionTarget.width !== width || this.reflectionTarget.height !== height) {
+      this.reflectionTarget.setSize(width, height);
+      this.refractionTarget.setSize(width, height);
+    }
+
+    // Mirror the camera's position, view target and up about the water plane
+    const mirror = this.reflectionCamera;
+    mirror.copy(camera, false);
+    mirror.position.setFromMatrixPosition(camera.matrixWorld);
+    mirror.position.y = 2 * level - mirror.position.y;
+    camera.getWorldDirection(this.lookTarget);
+    this.lookTarget.y = -this.lookTarget.y;
+    this.lookTarget.add(mirror.position);
+    mirror.up.set(0, 1, 0).transformDirection(camera.matrixWorld);
+    mirror.up.y = -mirror.up.y;
+    mirror.lookAt(this.lookTarget);
+    mirror.updateMatrixWorld();
+    mirror.projectionMatrix.copy(camera.projectionMatrix);
+
+    const uniforms = this.material.uniforms;
+    uniforms.reflectionMatrix.value
+      .copy(TEXTURE_BIAS)
+      .multiply(mirror.projectionMatrix)
+      .multiply(mirror.matrixWorldInverse);
+    uniforms.refractionMatrix.value
+      .copy(TEXTURE_BIAS)
+      .multiply(camera.projectionMatrix)
+      .multiply(camera.matrixWorldInverse);
+
+    // Keep what is above the water for the reflection and below it for the
+    // refraction; the bias hides the seam where the ground meets the surface
+    this.abovePlane.constant = -level + clipBias;
+    this.belowPlane.constant = level + clipBias;
+
+    const currentTarget = renderer.getRenderTarget();
+    const currentClipping = renderer.clippingPlanes;
+    const currentShadowUpdate = renderer.shadowMap.autoUpdate;
+    renderer.shadowMap.autoUpdate = false; // shadows are already up to date this frame
+    this.material.visible = false;
+
+    renderer.clippingPlanes = [this.abovePlane];
+    renderer.setRenderTarget(this.reflectionTarget);
+    renderer.clear();
+    renderer.render(scene, mirror);
+
+    renderer.clippingPlanes = [this.belowPlane];
+    renderer.setRenderTarget(this.refractionTarget);
+    renderer.clear();
+    renderer.render(scene, camera);
+
+    this.material.visible = true;
+    renderer.shadowMap.autoUpdate = currentShadowUpdate;
+    renderer.clippingPlanes = currentClipping;
+    renderer.setRenderTarget(currentTarget);
+  }
+
+  // ============================================================================
+  // UPDATE
+  // ============================================================================
+
+  override Update(deltaTime: number): void {
+    this.elapsed += deltaTime;
+    this.passesRendered = false;
+
+    const uniforms = this.material.uniforms;
+    uniforms.time.value = this.elapsed * WATER_CONFIG.surface.waveSpeed;
+
+    if (this.clock) {
+      const lighting = this.clock.GetLighting();
+      this.clock.GetLightDirection(uniforms.sunDirection.value);
+      uniforms.sunColor.value.copy(lighting.sunColor).multiplyScalar(lighting.sunIntensity);
+    }
+  }
+
+  // ============================================================================
+  // CLEANUP
+  // ============================================================================
+
+  override Cleanup(): void {
+    this.geometry.dispose();
+    this.material.dispose();
+    this.reflectionTarget.dispose();
+    this.refractionTarget.dispose();
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Weather Component
+ *
+ * Cycles the level between clear, rain, fog and wind. Lives on the Level
+ * entity: it thickens scene.fog, draws rain as a GPU particle field around
+ * the player, and exposes hearing/visibility multipliers and a wind vector
+ * for animals and projectiles to read.
+ */
+
+import * as THREE from 'three';
+import Component from '../../core/Component';
+import { WEATHER_CONFIG, type WeatherType, type WeatherEffects } from '../../config/weather.config';
+import type { IEntity } from '../../types/entity.types';
+import type { ComponentSaveData } from '../../types/save.types';
+import { SeededRandom } from '../../systems/SeededRandom';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Level random service interface */
+interface RandomService {
+  GetStream(name: string): SeededRandom;
+}
+
+/** Effects that blend with weather strength */
+type BlendedEffect = 'fogNear' | 'fogFar' | 'hearing' | 'visibility' | 'windStrength' | 'rain';
+
+const WEATHER_TYPES = Object.keys(WEATHER_CONFIG.states) as WeatherType[];
+
+// ============================================================================
+// RAIN SHADERS
+// ============================================================================
+
+// Drops fall through a fixed box (wrapping at the bottom) and lean with the wind
+const RAIN_VS = `
+uniform float time;
+uniform float height;
+uniform float speed;
+uniform vec3 wind;
+void main() {
+  vec3 p = position;
+  p.y = mod(p.y - time * speed, height);
+  p.xz += wind.xz * (height - p.y) * 0.02;
+  vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+  gl_PointSize = 40.0 / -mvPosition.z;
+  gl_Position = projectionMatrix * mvPosition;
+}`;
+
+const RAIN_FS = `
+uniform float opacity;
+void main() {
+  gl_FragColor = vec4(0.7, 0.75, 0.85, opacity * 0.6);
+}`;
+
+// ============================================================================
+// WEATHER COMPONENT
+// ============================================================================
+
+export default class Weather extends Component {
+  override name = 'Weather';
+
+  private readonly scene: THREE.Scene;
+
+  // ============================================================================
+  // STATE
+  // ============================================================================
+
+  /** Weather currently shown */
+  private state: WeatherType = WEATHER_CONFIG.initial;
+
+  /** Weather being faded to (same as state once it has arrived) */
+  private target: WeatherType = WEATHER_CONFIG.initial;
+
+  /** Strength of the current state, 0-1 */
+  private strength: number = 1;
+
+  /** Seconds until the next weather is picked */
+  private timer: number = 0;
+
+  /** Unit wind direction (XZ plane), re-rolled with each change */
+  private readonly windDir = new THREE.Vector3(1, 0, 0);
+
+  // ============================================================================
+  // REFERENCES
+  // ============================================================================
+
+  private player: IEntity | null = null;
+  private rng: SeededRandom = new SeededRandom(Date.now());
+  private rain: THREE.Points<THREE.BufferGeometry, THREE.ShaderMaterial> | null = null;
+  private elapsed: number = 0;
+
+  constructor(scene: THREE.Scene) {
+    super();
+    this.scene = scene;
+  }
+
+  // ============================================================================
+  // INITIALIZATION
+  // ============================================================================
+
+  override Initialize(): void {
+    this.player = this.FindEntity('Player') ?? null;
+
+    const random = this.GetComponent('Random') as RandomService | undefined;
+    if (random) {
+      this.rng = random.GetStream('weather');
+    }
+
+    this.timer = this.rollDuration();
+    this.rollWindDirection();
+    this.createRain();
+  }
+
+  private createRain(): void {
+    const { count, radius, height, speed } = WEATHER_CONFIG.rainParticles;
+
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      positions[i * 3] = this.rng.spread(2 * radius);
+      positions[i * 3 + 1] = this.rng.range(0, height);
+      positions[i * 3 + 2] = this.rng.spread(2 * radius);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+
+    const material = new THREE.ShaderMaterial({
+      uniforms: {
+        time: { value: 0 },
+        height: { value: height },
+        speed: { value: speed },
+        wind: { value: new THREE.Vector3() },
+        opacity: { value: 0 },
+      },
+      vertexShader: RAIN_VS,
+      fragmentShader: RAIN_FS,
+      transparent: true,
+      depthWrite: false,
+    });
+
+    this.rain = new THREE.Points(geometry, material);
+    this.rain.frustumCulled = false;
+    this.rain.visible = false;
+    this.scene.add(this.rain);
+  }
+
+  // ============================================================================
+  // STATE CHANGES
+  // ============================================================================
+
+  private rollDuration(): number {
+    const { min, max } = WEATHER_CONFIG.duration;
+    return this.rng.range(min, max);
+  }
+
+  private rollWindDirection(): void {
+    const angle = this.rng.angle();
+    this.windDir.set(Math.cos(angle), 0, Math.sin(angle));
+  }
+
+  /**
+   * Weighted pick of the next weather (may repeat the current one).
+   */
+  private rollWeather(): WeatherType {
+    const total = WEATHER_TYPES.reduce((sum, type) => sum + WEATHER_CONFIG.states[type].weight, 0);
+    let roll = this.rng.range(0, total);
+    for (const type of WEATHER_TYPES) {
+      roll -= WEATHER_CONFIG.states[type].weight;
+      if (roll < 0) return type;
+    }
+    return WEATHER_CONFIG.initial;
+  }
+
+  /**
+   * Fade to a weather state. The current one fades out first.
+   */
+  SetWeather(type: WeatherType): void {
+    this.target = type;
+  }
+
+  // ============================================================================
+  // EFFECTS
+  // ============================================================================
+
+  /**
+   * Current value of an effect, blended from clear by the state's strength.
+   */
+  private effect(key: BlendedEffect): number {
+    const clear: WeatherEffects = WEATHER_CONFIG.states.clear;
+    const current: WeatherEffects = WEATHER_CONFIG.states[this.state];
+    return THREE.MathUtils.lerp(clear[key], current[key], this.strength);
+  }
+
+  /**
+   * Weather currently in effect.
+   */
+  GetWeather(): WeatherType {
+    return this.state;
+  }
+
+  /**
+   * Multiplier for animal hearing distances (rain drowns out footsteps).
+   */
+  GetHearingMultiplier(): number {
+    return this.effect('hearing');
+  }
+
+  /**
+   * Multiplier for animal sight distances (fog hides the player).
+   */
+  GetVisibilityMultiplier(): number {
+    return this.effect('visibility');
+  }
+
+  /**
+   * Wind acceleration (m/s^2) in the XZ plane.
+   */
+  GetWind(target: THREE.Vector3): THREE.Vector3 {
+    return target.copy(this.windDir).multiplyScalar(this.effect('windStrength'));
+  }
+
+  private applyVisuals(): void {
+    const fog = this.scene.fog;
+    if (fog instanceof THREE.Fog) {
+      fog.near = this.effect('fogNear');
+      fog.far = this.effect('fogFar');
+    }
+
+    if (this.rain) {
+      const opacity = this.effect('rain');
+      const uniforms = this.rain.material.uniforms;
+      uniforms.opacity.value = opacity;
+      uniforms.time.value = this.elapsed;
+      this.GetWind(uniforms.wind.value);
+      this.rain.visible = opacity > 0.01;
+
+      if (this.player) {
+        this.rain.position.set(this.player.position.x, 0, this.player.position.z);
+      }
+    }
+  }
+
+  // ============================================================================
+  // SAVE / LOAD
+  // ============================================================================
+
+  SaveState(): ComponentSaveData {
+    return { weather: this.target, timer: this.timer };
+  }
+
+  LoadState(data: ComponentSaveData): void {
+    const weather = data.weather as WeatherType;
+    if (WEATHER_TYPES.includes(weather)) {
+      this.state = weather;
+      this.target = weather;
+      this.strength = 1;
+    }
+    if (typeof data.timer === 'number') {
+      this.timer = data.timer;
+    }
+  }
+
+  // ============================================================================
+  // UPDATE
+  // ============================================================================
+
+  override Update(deltaTime: number): void {
+    this.elapsed += deltaTime;
+
+    this.timer -= deltaTime;
+    if (this.timer <= 0) {
+      this.timer = this.rollDuration();
+      this.SetWeather(this.rollWeather());
+    }
+
+    const step = deltaTime / WEATHER_CONFIG.transition;
+    if (this.state !== this.target) {
+      this.strength -= step;
+      if (this.strength <= 0) {
+        this.state = this.target;
+        this.strength = 0;
+        this.rollWindDirection();
+      }
+    } else {
+      this.strength = Math.min(1, this.strength + step);
+    }
+
+    this.applyVisuals();
+  }
+
+  // ============================================================================
+  // CLEANUP
+  // ============================================================================
+
+  override Cleanup(): void {
+    if (this.rain) {
+      this.scene.remove(this.rain);
+      this.rain.geometry.dispose();
+      this.rain.material.dispose();
+      this.rain = null;
+    }
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * World Clock Component
+ *
+ * Time of day for the level. Registered on the Level entity next to the
+ * random service; lighting, sky and animal controllers read the hour from
+ * here so they all agree on when dusk is. One day lasts
+ * DAY_NIGHT_CONFIG.dayLength real seconds.
+ */
+
+import * as THREE from 'three';
+import Component from '../../core/Component';
+import { DAY_NIGHT_CONFIG, type DayKeyframe } from '../../config/daynight.config';
+import { getActivityLevel } from '../../config/animals.config';
+import type { AnimalType } from '../../types/animation.types';
+import type { ComponentSaveData } from '../../types/save.types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Lighting for the current hour, blended from the keyframes */
+export interface DayLighting {
+  sunColor: THREE.Color;
+  sunIntensity: number;
+  skyColor: THREE.Color;
+  groundColor: THREE.Color;
+  hemiIntensity: number;
+  zenithColor: THREE.Color;
+  horizonColor: THREE.Color;
+}
+
+// ============================================================================
+// WORLD CLOCK COMPONENT
+// ============================================================================
+
+export default class WorldClock extends Component {
+  override name = 'WorldClock';
+
+  /** Hour of day, 0-24 */
+  private hour: number;
+
+  /** Blended lighting, refreshed when the hour changes */
+  private readonly lighting: DayLighting = {
+    sunColor: new THREE.Color(),
+    sunIntensity: 0,
+    skyColor: new THREE.Color(),
+    groundColor: new THREE.Color(),
+    hemiIntensity: 0,
+    zenithColor: new THREE.Color(),
+    horizonColor: new THREE.Color(),
+  };
+  private lightingHour: number = NaN;
+
+  private readonly tempColor = new THREE.Color();
+
+  constructor(startHour: number = DAY_NIGHT_CONFIG.startHour) {
+    super();
+    this.hour = startHour;
+  }
+
+  // ============================================================================
+  // TIME
+  // ============================================================================
+
+  /**
+   * Current hour of day (0-24, fractional).
+   */
+  GetHour(): number {
+    return this.hour;
+  }
+
+  /**
+   * Jump to an hour of day.
+   */
+  SetHour(hour: number): void {
+    this.hour = ((hour % 24) + 24) % 24;
+  }
+
+  /**
+   * Whether the sun is below the horizon.
+   */
+  IsNight(): boolean {
+    return this.hour < DAY_NIGHT_CONFIG.sunrise || this.hour >= DAY_NIGHT_CONFIG.sunset;
+  }
+
+  /**
+   * Activity level of an animal type at the current hour.
+   */
+  GetActivity(type: AnimalType): number {
+    return getActivityLevel(type, this.hour);
+  }
+
+  // ============================================================================
+  // SUN
+  // ============================================================================
+
+  /**
+   * Direction towards the light source: the sun by day, the moon by night.
+   * Always above the horizon.
+   */
+  GetLightDirection(target: THREE.Vector3): THREE.Vector3 {
+    const { sunrise, sunset } = DAY_NIGHT_CONFIG;
+    const dayHours = sunset - sunrise;
+
+    // Sun runs 0 -> PI from sunrise to sunset; the moon runs back PI -> 0
+    // overnight, so the light never jumps across the sky
+    const arc = this.IsNight()
+      ? (1 - ((this.hour - sunset + 24) % 24) / (24 - dayHours)) * Math.PI
+      : ((this.hour - sunrise) / dayHours) * Math.PI;
+
+    // Keep a minimum elevation so shadows never stretch to infinity
+    const elevation = Math.max(Math.sin(arc), 0.15);
+    return target.set(Math.cos(arc), elevation, 0.4).normalize();
+  }
+
+  // ============================================================================
+  // LIGHTING
+  // ============================================================================
+
+  /**
+   * Lighting for the current hour. The returned object is reused.
+   */
+  GetLighting(): DayLighting {
+    if (this.hour !== this.lightingHour) {
+      this.lightingHour = this.hour;
+      this.blendKeyframes();
+    }
+    return this.lighting;
+  }
+
+  private blendKeyframes(): void {
+    const frames = DAY_NIGHT_CONFIG.keyframes;
+    let next = frames.findIndex((frame) => frame.hour > this.hour);
+    if (next === -1) next = 0;
+    const prev = (next - 1 + frames.length) % frames.length;
+
+    const a = frames[prev];
+    const b = frames[next];
+    const span = (b.hour - a.hour + 24) % 24 || 24;
+    const t = ((this.hour - a.hour + 24) % 24) / span;
+
+    this.lighting.sunIntensity = THREE.MathUtils.lerp(a.sunIntensity, b.sunIntensity, t);
+    this.lighting.hemiIntensity = THREE.MathUtils.lerp(a.hemiIntensity, b.hemiIntensity, t);
+    this.lerpColor(this.lighting.sunColor, a, b, 'sunColor', t);
+    this.lerpColor(this.lighting.skyColor, a, b, 'skyColor', t);
+    this.lerpColor(this.lighting.groundColor, a, b, 'groundColor', t);
+    this.lerpColor(this.lighting.zenithColor, a, b, 'zenithColor', t);
+    this.lerpColor(this.lighting.horizonColor, a, b, 'horizonColor', t);
+  }
+
+  private lerpColor(
+    out: THREE.Color,
+    a: DayKeyframe,
+    b: DayKeyframe,
+    key: 'sunColor' | 'skyColor' | 'groundColor' | 'zenithColor' | 'horizonColor',
+    t: number
+  ): void {
+    out.setHex(a[key]).lerp(this.tempColor.setHex(b[key]), t);
+  }
+
+  // ============================================================================
+  // SAVE / LOAD
+  // ============================================================================
+
+  SaveState(): ComponentSaveData {
+    return { hour: this.hour };
+  }
+
+  LoadState(data: ComponentSaveData): void {
+    if (typeof data.hour === 'number') {
+      this.SetHour(data.hour);
+    }
+  }
+
+  // ============================================================================
+  // UPDATE
+  // ============================================================================
+
+  override Update(deltaTime: number): void {
+    this.SetHour(this.hour + (deltaTime * 24) / DAY_NIGHT_CONFIG.dayLength);
+  }
+}
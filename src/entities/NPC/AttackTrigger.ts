@@ -5,6 +5,7 @@
  * Used by CharacterController to determine if attack can hit.
  */
 
+import * as THREE from 'three';
 import Component from '../../core/Component';
 import { Ammo, AmmoHelper, CollisionFilterGroups } from '../../core/AmmoLib';
 
@@ -16,7 +17,6 @@ import { Ammo, AmmoHelper, CollisionFilterGroups } from '../../core/AmmoLib';
 interface AmmoTransform {
   setRotation(quat: AmmoQuaternion): void;
   getOrigin(): { setValue(x: number, y: number, z: number): void };
-  op_mul(other: AmmoTransform): void;
 }
 
 /** Ammo.js quaternion interface */
@@ -51,8 +51,11 @@ export default class AttackTrigger extends Component {
   // STATE
   // ============================================================================
 
-  /** Local transform offset */
-  private localTransform: AmmoTransform | null = null;
+  /** Trigger offset from the entity, in entity space */
+  private readonly localOffset: THREE.Vector3 = new THREE.Vector3(0.0, 1.0, 1.0);
+
+  /** Temp world position of the trigger */
+  private readonly triggerPos: THREE.Vector3 = new THREE.Vector3();
 
   /** Temp quaternion for physics */
   private quat: AmmoQuaternion | null = null;
@@ -94,11 +97,6 @@ export default class AttackTrigger extends Component {
   // ============================================================================
 
   override Initialize(): void {
-    // Create local transform
-    this.localTransform = new Ammo.btTransform();
-    (this.localTransform as unknown as { setIdentity(): void }).setIdentity();
-    this.localTransform.getOrigin().setValue(0.0, 1.0, 1.0);
-
     this.quat = new Ammo.btQuaternion();
 
     // Get player physics
@@ -127,15 +125,28 @@ export default class AttackTrigger extends Component {
   // ============================================================================
 
   override Update(_deltaTime: number): void {
-    if (!this.ghostObj || !this.quat || !this.localTransform) return;
+    if (!this.ghostObj || !this.quat) return;
 
-    const entityPos = this.parent!.position;
     const entityRot = this.parent!.rotation;
     const transform = this.ghostObj.getWorldTransform();
 
+    // ammo.js 0.0.10 has no btTransform.op_mul, so the offset is applied here
+    this.triggerPos.copy(this.localOffset).applyQuaternion(entityRot).add(this.parent!.position);
+
     this.quat.setValue(entityRot.x, entityRot.y, entityRot.z, entityRot.w);
     transform.setRotation(this.quat);
-    transform.getOrigin().setValue(entityPos.x, entityPos.y, entityPos.z);
-    transform.op_mul(this.localTransform);
+    transform.getOrigin().setValue(this.triggerPos.x, this.triggerPos.y, this.triggerPos.z);
+  }
+
+  // ============================================================================
+  // CLEANUP
+  // ============================================================================
+
+  override Cleanup(): void {
+    if (!this.ghostObj) return;
+
+    const world = this.physicsWorld as { removeCollisionObject?(obj: unknown): void };
+    world.removeCollisionObject?.(this.ghostObj);
+    this.ghostObj = null;
   }
 }
@@ -8,6 +8,7 @@
 import * as THREE from 'three';
 import Component from '../../core/Component';
 import { Ammo, AmmoHelper } from '../../core/AmmoLib';
+import { MUTANT_ENTITY_CONFIG } from '../../config/animals.config';
 
 // ============================================================================
 // TYPES
@@ -25,7 +26,9 @@ interface BoneCollisionDef {
 interface BoneCollision extends BoneCollisionDef {
   bone: THREE.Bone | null;
   object: unknown | null;
-  localTransform: unknown | null;
+  /** Capsule offset from the bone, in bone space */
+  localPosition: THREE.Vector3;
+  localRotation: THREE.Quaternion;
 }
 
 /** CharacterController interface */
@@ -120,6 +123,7 @@ export default class CharacterCollision extends Component {
 
   private readonly bonePos: THREE.Vector3 = new THREE.Vector3();
   private readonly boneRot: THREE.Quaternion = new THREE.Quaternion();
+  private readonly capsuleOffset: THREE.Vector3 = new THREE.Vector3();
   private globalRot: unknown | null = null;
 
   // ============================================================================
@@ -140,9 +144,9 @@ export default class CharacterCollision extends Component {
     this.globalRot = new Ammo.btQuaternion();
 
     // Get character controller
-    const controller = this.GetComponent('CharacterController') as CharacterControllerComponent | undefined;
+    const controller = this.GetComponent(MUTANT_ENTITY_CONFIG.name) as CharacterControllerComponent | undefined;
     if (!controller) {
-      console.error('CharacterCollision: CharacterController not found');
+      console.error('CharacterCollision: MutantController not found');
       return;
     }
 
@@ -174,13 +178,11 @@ export default class CharacterCollision extends Component {
       const ghostObj = AmmoHelper.CreateTrigger(shape);
       (ghostObj as { parentEntity?: unknown }).parentEntity = this.parent;
 
-      // Create local transform
-      const localRot = new Ammo.btQuaternion();
-      localRot.setEulerZYX(def.rotation.z, def.rotation.y, def.rotation.x);
-      const localTransform = new Ammo.btTransform();
-      localTransform.setIdentity();
-      localTransform.setRotation(localRot);
-      localTransform.getOrigin().setValue(def.position.x, def.position.y, def.position.z);
+      // Local offset (same rotation order as btQuaternion.setEulerZYX)
+      const localPosition = new THREE.Vector3(def.position.x, def.position.y, def.position.z);
+      const localRotation = new THREE.Quaternion().setFromEuler(
+        new THREE.Euler(def.rotation.x, def.rotation.y, def.rotation.z, 'ZYX')
+      );
 
       // Add to physics world
       const world = this.world as { addCollisionObject(obj: unknown): void };
@@ -191,7 +193,8 @@ export default class CharacterCollision extends Component {
         ...def,
         bone,
         object: ghostObj,
-        localTransform,
+        localPosition,
+        localRotation,
       };
     });
   }
@@ -211,7 +214,6 @@ export default class CharacterCollision extends Component {
         getWorldTransform(): {
           getOrigin(): { setValue(x: number, y: number, z: number): void };
           setRotation(q: unknown): void;
-          op_mul(t: unknown): void;
         };
       };
       const transform = ghostObj.getWorldTransform();
@@ -220,6 +222,10 @@ export default class CharacterCollision extends Component {
       collision.bone.getWorldPosition(this.bonePos);
       collision.bone.getWorldQuaternion(this.boneRot);
 
+      // Apply the capsule's offset (ammo.js 0.0.10 has no btTransform.op_mul)
+      this.bonePos.add(this.capsuleOffset.copy(collision.localPosition).applyQuaternion(this.boneRot));
+      this.boneRot.multiply(collision.localRotation);
+
       // Update global rotation
       const globalRot = this.globalRot as {
         setValue(x: number, y: number, z: number, w: number): void;
@@ -229,7 +235,6 @@ export default class CharacterCollision extends Component {
       // Update transform
       transform.getOrigin().setValue(this.bonePos.x, this.bonePos.y, this.bonePos.z);
       transform.setRotation(this.globalRot);
-      transform.op_mul(collision.localTransform);
     });
   }
 
@@ -14,15 +14,19 @@ import * as THREE from 'three';
 import Component from '../../core/Component';
 import { Ammo, AmmoHelper, CollisionFilterGroups } from '../../core/AmmoLib';
 import CharacterFSM, { type MutantState } from './CharacterFSM';
-import type { HitEvent, AnimalKilledEvent } from '../../types/events.types';
+import type { HitEvent, AnimalKilledEvent, AnimalDiedEvent } from '../../types/events.types';
 import type { IEntity } from '../../types/entity.types';
+import type { AnimalType } from '../../types/animation.types';
+import { MUTANT_ENTITY_CONFIG, MUTANT_BEHAVIOR_CONFIG } from '../../config/animals.config';
+import { resolveDamage } from '../../systems/Damage';
+import { SeededRandom } from '../../systems/SeededRandom';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-/** Animation clip dictionary - maps name to clip */
-export type AnimationClipDict = Record<string, THREE.AnimationClip>;
+/** Animation clip dictionary - maps name to clip (missing files leave gaps) */
+export type AnimationClipDict = Record<string, THREE.AnimationClip | undefined>;
 
 /** Animation reference stored on controller */
 export interface CharacterAnimation {
@@ -36,6 +40,21 @@ interface NavmeshComponent {
   FindPath(from: THREE.Vector3, to: THREE.Vector3): THREE.Vector3[] | null;
 }
 
+/** World clock interface */
+interface WorldClockService {
+  GetActivity(type: AnimalType): number;
+}
+
+/** Level random service interface */
+interface RandomService {
+  GetStream(name: string): SeededRandom;
+}
+
+/** Terrain height interface */
+interface TerrainService {
+  GetHeight(x: number, z: number): number;
+}
+
 /** AttackTrigger component interface */
 interface AttackTriggerComponent {
   overlapping: boolean;
@@ -51,7 +70,7 @@ interface PlayerPhysicsComponent {
 // ============================================================================
 
 export default class CharacterController extends Component {
-  override name = 'CharacterController';
+  override name = MUTANT_ENTITY_CONFIG.name;
 
   // ============================================================================
   // DEPENDENCIES
@@ -90,16 +109,19 @@ export default class CharacterController extends Component {
   public canMove: boolean = true;
 
   /** Current health */
-  public health: number = 100;
+  public health: number = MUTANT_ENTITY_CONFIG.health;
+
+  /** Whether the mutant has been killed */
+  public isDead: boolean = false;
 
   /** View angle (cosine of 45 degrees) */
   private readonly viewAngle: number = Math.cos(Math.PI / 4.0);
 
   /** Max view distance squared */
-  private readonly maxViewDistance: number = 20.0 * 20.0;
+  private readonly maxViewDistance: number = MUTANT_BEHAVIOR_CONFIG.viewDistance! ** 2;
 
   /** Attack distance */
-  private readonly attackDistance: number = 2.2;
+  private readonly attackDistance: number = MUTANT_BEHAVIOR_CONFIG.attackDistance!;
 
   // ============================================================================
   // REFERENCES
@@ -108,6 +130,11 @@ export default class CharacterController extends Component {
   private navmesh: NavmeshComponent | null = null;
   private hitbox: AttackTriggerComponent | null = null;
   private player: IEntity | null = null;
+  private clock: WorldClockService | null = null;
+  private terrain: TerrainService | null = null;
+
+  /** AI decisions; the Level's 'ai' stream when there is one */
+  public rng: SeededRandom = new SeededRandom(Date.now());
 
   // ============================================================================
   // ROOT BONE MOTION
@@ -155,7 +182,10 @@ export default class CharacterController extends Component {
 
   private setupAnimations(): void {
     Object.keys(this.clips).forEach((key) => {
-      this.setAnim(key, this.clips[key]);
+      const clip = this.clips[key];
+      if (clip) {
+        this.setAnim(key, clip);
+      }
     });
   }
 
@@ -170,6 +200,12 @@ export default class CharacterController extends Component {
     // Get references
     const level = this.FindEntity('Level');
     this.navmesh = level?.GetComponent('Navmesh') as NavmeshComponent | undefined ?? null;
+    this.clock = level?.GetComponent('WorldClock') as WorldClockService | undefined ?? null;
+    const random = level?.GetComponent('Random') as RandomService | undefined;
+    if (random) {
+      this.rng = random.GetStream('ai');
+    }
+    this.terrain = level?.GetComponent('Terrain') as TerrainService | undefined ?? null;
     this.hitbox = this.GetComponent('AttackTrigger') as AttackTriggerComponent | undefined ?? null;
     this.player = this.FindEntity('Player') ?? null;
 
@@ -263,6 +299,18 @@ export default class CharacterController extends Component {
     return false;
   }
 
+  // ============================================================================
+  // SCHEDULE
+  // ============================================================================
+
+  /**
+   * Whether to keep idling instead of patrolling at this hour.
+   */
+  IsResting(): boolean {
+    const activity = this.clock?.GetActivity(MUTANT_ENTITY_CONFIG.animalType) ?? 1;
+    return !this.rng.chance(Math.min(1, activity));
+  }
+
   // ============================================================================
   // NAVIGATION
   // ============================================================================
@@ -314,7 +362,12 @@ export default class CharacterController extends Component {
   // ============================================================================
 
   HitPlayer(): void {
-    this.player?.Broadcast({ topic: 'hit', amount: 10 });
+    this.player?.Broadcast({
+      topic: 'hit',
+      amount: MUTANT_BEHAVIOR_CONFIG.attackDamage!,
+      from: this.parent!,
+      damageType: 'melee',
+    });
   }
 
   // ============================================================================
@@ -322,21 +375,34 @@ export default class CharacterController extends Component {
   // ============================================================================
 
   TakeHit = (msg: HitEvent): void => {
-    this.health = Math.max(0, this.health - msg.amount);
+    if (this.isDead) return;
+
+    const damage = resolveDamage(msg, MUTANT_ENTITY_CONFIG, this.model);
+    this.health = Math.max(0, this.health - damage.amount);
 
     if (this.health === 0) {
+      this.isDead = true;
       this.stateMachine?.SetState('dead');
 
-      // Notify GameManager
-      const gameManager = this.FindEntity('GameManager');
-      if (gameManager) {
-        const event: AnimalKilledEvent = {
-          topic: 'animal_killed',
-          entity: this.parent!,
-          type: 'mutant',
-        };
-        gameManager.Broadcast(event);
-      }
+      // Scoring (GameManager)
+      const event: AnimalKilledEvent = {
+        topic: 'animal_killed',
+        entity: this.parent!,
+        type: 'mutant',
+        weapon: msg.weapon,
+        distance: msg.from ? msg.from.position.distanceTo(this.model.position) : undefined,
+        zone: damage.zone,
+      };
+      this.Publish(event);
+
+      // Respawn queue, cleanup and waves (SpawnManager, WaveDirector)
+      const died: AnimalDiedEvent = {
+        topic: 'animal_died',
+        entity: this.parent!,
+        type: 'mutant',
+        position: this.model.position.clone(),
+      };
+      this.Publish(died);
     } else {
       // Become aggressive
       const stateName = this.stateMachine?.currentState?.Name;
@@ -415,6 +481,12 @@ export default class CharacterController extends Component {
     this.MoveAlongPath(deltaTime);
     this.stateMachine?.Update(deltaTime);
 
+    // Root motion is horizontal only; keep the feet on the terrain
+    if (this.terrain) {
+      const pos = this.model.position;
+      pos.y = this.terrain.GetHeight(pos.x, pos.z);
+    }
+
     this.parent!.SetRotation(this.model.quaternion);
     this.parent!.SetPosition(this.model.position);
   }
@@ -55,13 +55,17 @@ class IdleState extends MutantStateBase {
 
     action.play();
 
-    this.waitTime = Math.random() * (this.maxWaitTime - this.minWaitTime) + this.minWaitTime;
+    this.waitTime = this.parent.proxy.rng.range(this.minWaitTime, this.maxWaitTime);
   }
 
   override Update(deltaTime: number): void {
     if (this.waitTime <= 0.0) {
-      this.parent.SetState('patrol');
-      return;
+      if (this.parent.proxy.IsResting()) {
+        this.waitTime = this.parent.proxy.rng.range(this.minWaitTime, this.maxWaitTime);
+      } else {
+        this.parent.SetState('patrol');
+        return;
+      }
     }
 
     this.waitTime -= deltaTime;
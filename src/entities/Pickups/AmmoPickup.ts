@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { Component } from '../../core/Component';
+import { HAS_DOM } from '../../core/Environment';
 import type { Entity } from '../../core/Entity';
 
 export default class AmmoPickup extends Component {
@@ -45,7 +46,7 @@ export default class AmmoPickup extends Component {
     });
     this.mesh = new THREE.Mesh(boxGeo, boxMat);
     this.mesh.position.copy(this.spawnPosition);
-    this.mesh.position.y = this.baseHeight;
+    this.mesh.position.y = this.spawnPosition.y + this.baseHeight;
     this.mesh.castShadow = true;
     this.scene.add(this.mesh);
 
@@ -80,6 +81,8 @@ export default class AmmoPickup extends Component {
   }
 
   CreateLabel(): void {
+    if (!HAS_DOM) return;
+
     const canvas = document.createElement('canvas');
     canvas.width = 128;
     canvas.height = 32;
@@ -105,6 +108,7 @@ export default class AmmoPickup extends Component {
     this.mesh!.add(this.label);
   }
 
+  /** Called by the player's PickupCollector while the player is nearby */
   CheckPlayerDistance(): void {
     if (!this.player || this.collected) return;
 
@@ -164,7 +168,7 @@ export default class AmmoPickup extends Component {
 
     // Bob up and down
     this.bobTime += t * this.bobSpeed;
-    this.mesh.position.y = this.baseHeight + Math.sin(this.bobTime) * this.bobHeight;
+    this.mesh.position.y = this.spawnPosition.y + this.baseHeight + Math.sin(this.bobTime) * this.bobHeight;
 
     // Rotate
     this.mesh.rotation.y += t * this.rotateSpeed;
@@ -174,8 +178,5 @@ export default class AmmoPickup extends Component {
       const pulse = 0.12 + Math.sin(this.bobTime * 2) * 0.05;
       (this.glow.material as THREE.MeshBasicMaterial).opacity = pulse;
     }
-
-    // Check for player pickup
-    this.CheckPlayerDistance();
   }
 }
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { Component } from '../../core/Component';
+import { HAS_DOM } from '../../core/Environment';
 import { WEAPONS } from '../../config/weapons.config';
 import type { Entity } from '../../core/Entity';
 
@@ -59,7 +60,7 @@ export default class WeaponPickup extends Component {
     // Create container group
     this.container = new THREE.Group();
     this.container.position.copy(this.spawnPosition);
-    this.container.position.y = this.baseHeight;
+    this.container.position.y = this.spawnPosition.y + this.baseHeight;
     this.scene.add(this.container);
 
     // Create transparent sphere (the "ball")
@@ -136,6 +137,8 @@ export default class WeaponPickup extends Component {
   }
 
   CreateLabel(text: string, color: number): void {
+    if (!HAS_DOM) return;
+
     // Create canvas for text
     const canvas = document.createElement('canvas');
     canvas.width = 256;
@@ -170,6 +173,7 @@ export default class WeaponPickup extends Component {
     this.container!.add(this.label);
   }
 
+  /** Called by the player's PickupCollector while the player is nearby */
   CheckPlayerDistance(): void {
     if (!this.player || this.collected) return;
 
@@ -260,7 +264,7 @@ export default class WeaponPickup extends Component {
 
     // Bob up and down
     this.bobTime += t * this.bobSpeed;
-    this.container.position.y = this.baseHeight + Math.sin(this.bobTime) * this.bobHeight;
+    this.container.position.y = this.spawnPosition.y + this.baseHeight + Math.sin(this.bobTime) * this.bobHeight;
 
     // Rotate the weapon model inside the sphere (not the whole container)
     if (this.weaponMesh) {
@@ -272,8 +276,5 @@ export default class WeaponPickup extends Component {
       const pulse = 1.0 + Math.sin(this.bobTime * 2) * 0.1;
       this.glow.scale.set(pulse, pulse, pulse);
     }
-
-    // Check for player pickup
-    this.CheckPlayerDistance();
   }
 }
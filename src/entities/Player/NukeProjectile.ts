@@ -7,11 +7,17 @@
 
 import * as THREE from 'three';
 import Component from '../../core/Component';
+import { HAS_DOM } from '../../core/Environment';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
+/** Terrain height interface */
+interface TerrainService {
+  GetHeight(x: number, z: number): number;
+}
+
 /** Trail particle data */
 interface TrailParticle {
   mesh: THREE.Mesh;
@@ -61,6 +67,9 @@ export default class NukeProjectile extends Component {
   /** Trail particles */
   private trailParticles: TrailParticle[] = [];
 
+  /** Ground height service from the Level entity */
+  private terrain: TerrainService | null = null;
+
   // ============================================================================
   // CONSTRUCTOR
   // ============================================================================
@@ -78,6 +87,8 @@ export default class NukeProjectile extends Component {
   // ============================================================================
 
   override Initialize(): void {
+    this.terrain = this.FindEntity('Level')?.GetComponent('Terrain') as TerrainService | undefined ?? null;
+
     // Create projectile visual - glowing sphere
     const geometry = new THREE.SphereGeometry(0.3, 16, 16);
     const material = new THREE.MeshBasicMaterial({
@@ -138,7 +149,8 @@ export default class NukeProjectile extends Component {
 
   private checkCollision(): boolean {
     // Simple ground collision check
-    if (this.position.y <= 0.5) {
+    const groundY = this.terrain?.GetHeight(this.position.x, this.position.z) ?? 0;
+    if (this.position.y <= groundY + 0.5) {
       return true;
     }
     return false;
@@ -156,10 +168,7 @@ export default class NukeProjectile extends Component {
     this.createExplosionEffect();
 
     // Trigger nuke detonation event
-    const spawnManager = this.FindEntity('SpawnManager');
-    if (spawnManager) {
-      spawnManager.Broadcast({ topic: 'nuke_detonated' });
-    }
+    this.Publish({ topic: 'nuke_detonated' });
 
     // Clean up projectile
     this.cleanup();
@@ -223,6 +232,8 @@ export default class NukeProjectile extends Component {
   }
 
   private screenFlash(): void {
+    if (!HAS_DOM) return;
+
     const flash = document.createElement('div');
     flash.style.cssText = `
       position: fixed;
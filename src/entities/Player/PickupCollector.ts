@@ -0,0 +1,52 @@
+/**
+ * Pickup Collector Component
+ *
+ * Finds the pickups around the player through the spatial index and lets
+ * each one check whether the player is close enough to collect it.
+ */
+
+import Component from '../../core/Component';
+import type { IEntity } from '../../types/entity.types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Pickup components collected by walking over them */
+const PICKUP_COMPONENTS = ['AmmoPickup', 'WeaponPickup'] as const;
+
+/** Search radius; at least the largest pickup radius */
+const PICKUP_REACH = 3;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Pickup component interface */
+interface PickupComponent {
+  CheckPlayerDistance(): void;
+}
+
+// ============================================================================
+// PICKUP COLLECTOR COMPONENT
+// ============================================================================
+
+export default class PickupCollector extends Component {
+  override name = 'PickupCollector';
+
+  override Update(_deltaTime: number): void {
+    const entityManager = this.parent?.parent;
+    if (!entityManager) return;
+
+    const nearby = entityManager.spatial.queryRadius(this.parent!.position, PICKUP_REACH, isPickup);
+    for (const entity of nearby) {
+      for (const name of PICKUP_COMPONENTS) {
+        (entity.components[name] as unknown as PickupComponent | undefined)?.CheckPlayerDistance();
+      }
+    }
+  }
+}
+
+function isPickup(entity: IEntity): boolean {
+  return PICKUP_COMPONENTS.some((name) => entity.components[name] !== undefined);
+}
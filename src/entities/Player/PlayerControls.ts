@@ -1,14 +1,17 @@
 /**
  * Player Controls Component
  *
- * Handles player movement, camera rotation, and jumping.
+ * Handles player movement, camera rotation, jumping and swimming.
  * Uses pointer lock for FPS-style mouse look.
  */
 
 import * as THREE from 'three';
 import Component from '../../core/Component';
 import Input from '../../core/Input';
+import { HAS_DOM } from '../../core/Environment';
 import { Ammo } from '../../core/AmmoLib';
+import { WATER_CONFIG } from '../../config/water.config';
+import type { PlayerDiedEvent, PlayerRespawnEvent, HuntEndedEvent } from '../../types/events.types';
 
 // ============================================================================
 // TYPES
@@ -18,6 +21,8 @@ import { Ammo } from '../../core/AmmoLib';
 interface PlayerPhysicsComponent {
   body: AmmoRigidBody;
   canJump: boolean;
+  isSwimming: boolean;
+  renderPosition: THREE.Vector3;
 }
 
 /** Ammo.js rigid body interface */
@@ -25,7 +30,6 @@ interface AmmoRigidBody {
   getLinearVelocity(): AmmoVector3;
   setLinearVelocity(velocity: AmmoVector3): void;
   setAngularVelocity(velocity: AmmoVector3): void;
-  getMotionState(): AmmoMotionState | null;
 }
 
 /** Ammo.js vector3 interface */
@@ -38,22 +42,6 @@ interface AmmoVector3 {
   setZ(z: number): void;
 }
 
-/** Ammo.js motion state interface */
-interface AmmoMotionState {
-  getWorldTransform(transform: AmmoTransform): void;
-}
-
-/** Ammo.js transform interface */
-interface AmmoTransform {
-  getOrigin(): AmmoVector3Origin;
-}
-
-/** Ammo.js vector3 origin interface (different from btVector3) */
-interface AmmoVector3Origin {
-  x(): number;
-  y(): number;
-  z(): number;
-}
 
 // ============================================================================
 // PLAYER CONTROLS COMPONENT
@@ -118,13 +106,15 @@ export default class PlayerControls extends Component {
   /** Whether pointer is locked */
   private isLocked: boolean = false;
 
+  /** Input ignored while dead */
+  private frozen: boolean = false;
+
   // ============================================================================
   // PHYSICS REFERENCES
   // ============================================================================
 
   private physicsComponent: PlayerPhysicsComponent | null = null;
   private physicsBody: AmmoRigidBody | null = null;
-  private transform: AmmoTransform | null = null;
   private zeroVec: AmmoVector3 | null = null;
 
   // ============================================================================
@@ -159,7 +149,6 @@ export default class PlayerControls extends Component {
     this.physicsBody = this.physicsComponent.body;
 
     // Create Ammo objects
-    this.transform = new Ammo.btTransform();
     this.zeroVec = new Ammo.btVector3(0.0, 0.0, 0.0);
 
     // Initialize rotation from parent
@@ -169,13 +158,20 @@ export default class PlayerControls extends Component {
     // Setup input listeners
     Input.AddMouseMoveListner(this.onMouseMove);
 
-    document.addEventListener('pointerlockchange', this.onPointerLockChange);
+    // Headless runs have no page to lock the pointer to
+    if (HAS_DOM) {
+      document.addEventListener('pointerlockchange', this.onPointerLockChange);
+    }
 
     Input.AddClickListner(() => {
-      if (!this.isLocked) {
+      if (!this.isLocked && !this.frozen) {
         document.body.requestPointerLock();
       }
     });
+
+    this.Subscribe('player_died', this.onPlayerDied);
+    this.Subscribe('hunt_ended', this.onPlayerDied);
+    this.Subscribe('player_respawn', this.onPlayerRespawn);
   }
 
   // ============================================================================
@@ -186,8 +182,23 @@ export default class PlayerControls extends Component {
     this.isLocked = document.pointerLockElement !== null;
   };
 
+  /** Also used when the hunt timer runs out */
+  private onPlayerDied = (_msg: PlayerDiedEvent | HuntEndedEvent): void => {
+    this.frozen = true;
+    this.speed.set(0, 0, 0);
+
+    // Release the mouse so the game-over overlay can be clicked
+    if (this.isLocked) {
+      document.exitPointerLock();
+    }
+  };
+
+  private onPlayerRespawn = (_msg: PlayerRespawnEvent): void => {
+    this.frozen = false;
+  };
+
   private onMouseMove = (event: MouseEvent): void => {
-    if (!this.isLocked) return;
+    if (!this.isLocked || this.frozen) return;
 
     const { movementX, movementY } = event;
 
@@ -216,10 +227,10 @@ export default class PlayerControls extends Component {
   // MOVEMENT
   // ============================================================================
 
-  private accelerate(direction: THREE.Vector3, deltaTime: number): void {
+  private accelerate(direction: THREE.Vector3, deltaTime: number, maxSpeed: number): void {
     const accel = this.tempVec.copy(direction).multiplyScalar(this.acceleration * deltaTime);
     this.speed.add(accel);
-    this.speed.clampLength(0.0, this.maxSpeed);
+    this.speed.clampLength(0.0, maxSpeed);
   }
 
   private decelerate(deltaTime: number): void {
@@ -234,22 +245,28 @@ export default class PlayerControls extends Component {
   override Update(deltaTime: number): void {
     if (!this.physicsBody || !this.physicsComponent) return;
 
-    // Get input direction
-    const forwardFactor = Input.GetKeyDown('KeyS') - Input.GetKeyDown('KeyW');
-    const rightFactor = Input.GetKeyDown('KeyD') - Input.GetKeyDown('KeyA');
+    // Get input direction (none while dead - body still falls and syncs)
+    const forwardFactor = this.frozen ? 0 : Input.GetKeyDown('KeyS') - Input.GetKeyDown('KeyW');
+    const rightFactor = this.frozen ? 0 : Input.GetKeyDown('KeyD') - Input.GetKeyDown('KeyA');
     const direction = this.moveDir.set(rightFactor, 0.0, forwardFactor).normalize();
 
     const velocity = this.physicsBody.getLinearVelocity();
 
-    // Handle jump
-    if (Input.GetKeyDown('Space') && this.physicsComponent.canJump) {
-      velocity.setY(this.jumpVelocity);
-      this.physicsComponent.canJump = false;
+    // Handle jump (or swim up while in water)
+    const swimming = this.physicsComponent.isSwimming;
+    if (!this.frozen && Input.GetKeyDown('Space')) {
+      if (swimming) {
+        velocity.setY(WATER_CONFIG.swim.swimUpSpeed);
+      } else if (this.physicsComponent.canJump) {
+        velocity.setY(this.jumpVelocity);
+        this.physicsComponent.canJump = false;
+      }
     }
 
-    // Apply movement
+    // Apply movement (slower in water)
+    const maxSpeed = swimming ? this.maxSpeed * WATER_CONFIG.swim.speedMultiplier : this.maxSpeed;
     this.decelerate(deltaTime);
-    this.accelerate(direction, deltaTime);
+    this.accelerate(direction, deltaTime, maxSpeed);
 
     const moveVector = this.tempVec.copy(this.speed);
     moveVector.applyQuaternion(this.yaw);
@@ -260,18 +277,14 @@ export default class PlayerControls extends Component {
     this.physicsBody.setLinearVelocity(velocity);
     this.physicsBody.setAngularVelocity(this.zeroVec!);
 
-    // Update camera position from physics body
-    const ms = this.physicsBody.getMotionState();
-    if (ms && this.transform) {
-      ms.getWorldTransform(this.transform);
-      const p = this.transform.getOrigin();
-      (this.camera as THREE.PerspectiveCamera).position.set(
-        p.x(),
-        p.y() + this.yOffset,
-        p.z()
-      );
-      this.parent!.SetPosition((this.camera as THREE.PerspectiveCamera).position);
-    }
+    // Update camera position from the body, blended between physics ticks
+    const p = this.physicsComponent.renderPosition;
+    (this.camera as THREE.PerspectiveCamera).position.set(
+      p.x,
+      p.y + this.yOffset,
+      p.z
+    );
+    this.parent!.SetPosition((this.camera as THREE.PerspectiveCamera).position);
   }
 
   // ============================================================================
@@ -279,6 +292,8 @@ export default class PlayerControls extends Component {
   // ============================================================================
 
   override Cleanup(): void {
-    document.removeEventListener('pointerlockchange', this.onPointerLockChange);
+    if (HAS_DOM) {
+      document.removeEventListener('pointerlockchange', this.onPointerLockChange);
+    }
   }
 }
@@ -5,7 +5,8 @@
  */
 
 import Component from '../../core/Component';
-import type { HitEvent } from '../../types/events.types';
+import type { HitEvent, PlayerDiedEvent, PlayerRespawnEvent } from '../../types/events.types';
+import type { ComponentSaveData } from '../../types/save.types';
 
 // ============================================================================
 // TYPES
@@ -47,6 +48,7 @@ export default class PlayerHealth extends Component {
 
     // Register hit event handler
     this.parent!.RegisterEventHandler(this.takeHit, 'hit');
+    this.Subscribe('player_respawn', this.onRespawn);
 
     // Set initial health display
     this.uimanager?.SetHealth(this.health);
@@ -60,9 +62,12 @@ export default class PlayerHealth extends Component {
    * Handle being hit.
    * Arrow function to preserve 'this' when used as event handler.
    */
-  private takeHit = (_e: HitEvent): void => {
-    // Take fixed damage per hit
-    this.health = Math.max(0, this.health - 10);
+  private takeHit = (e: HitEvent): void => {
+    // Already dead - ignore further hits so death fires once
+    if (!this.isAlive()) return;
+
+    // Damage is defined by the attacker
+    this.health = Math.max(0, this.health - e.amount);
     this.uimanager?.SetHealth(this.health);
 
     // Could add death handling here if health <= 0
@@ -72,8 +77,31 @@ export default class PlayerHealth extends Component {
   };
 
   private handleDeath(): void {
-    // Broadcast death event
-    this.parent?.Broadcast({ topic: 'player_died' });
+    const deathEvent: PlayerDiedEvent = {
+      topic: 'player_died',
+      position: this.parent!.position.clone(),
+    };
+
+    // Player components freeze, then GameManager ends the run
+    this.Publish(deathEvent);
+  }
+
+  private onRespawn = (_msg: PlayerRespawnEvent): void => {
+    this.setHealth(this.maxHealth);
+  };
+
+  // ============================================================================
+  // SAVE / LOAD
+  // ============================================================================
+
+  SaveState(): ComponentSaveData {
+    return { health: this.health };
+  }
+
+  LoadState(data: ComponentSaveData): void {
+    if (typeof data.health === 'number') {
+      this.setHealth(data.health);
+    }
   }
 
   // ============================================================================
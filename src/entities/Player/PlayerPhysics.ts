@@ -1,11 +1,16 @@
 /**
  * Player Physics Component
  *
- * Handles player physics body creation and ground detection for jumping.
+ * Handles player physics body creation, ground detection for jumping and
+ * buoyancy while swimming. Keeps the body's position at the last two
+ * physics ticks so the camera can be drawn smoothly between them.
  */
 
+import * as THREE from 'three';
 import Component from '../../core/Component';
 import { Ammo } from '../../core/AmmoLib';
+import { WATER_CONFIG } from '../../config/water.config';
+import type { ComponentSaveData } from '../../types/save.types';
 
 // ============================================================================
 // CONSTANTS
@@ -14,10 +19,28 @@ import { Ammo } from '../../core/AmmoLib';
 /** Bullet physics constant - disable deactivation */
 const DISABLE_DEACTIVATION = 4;
 
+/** World gravity (matches the physics world) */
+const WORLD_GRAVITY = -9.81;
+
+/** Capsule height including the rounded ends */
+const BODY_HEIGHT = 1.9;
+
+/** Capsule centre height above the ground when standing */
+const STAND_HEIGHT = BODY_HEIGHT / 2;
+
+/** How far the capsule may sink into the ground before being lifted out */
+const SINK_TOLERANCE = 0.5;
+
 // ============================================================================
 // TYPES
 // ============================================================================
 
+/** Terrain height service interface */
+interface TerrainService {
+  GetHeight(x: number, z: number): number;
+  GetWaterLevel(): number;
+}
+
 /** Ammo.js physics world interface */
 interface AmmoWorld {
   addRigidBody(body: AmmoRigidBody): void;
@@ -28,6 +51,12 @@ interface AmmoWorld {
 interface AmmoRigidBody {
   setFriction(friction: number): void;
   setActivationState(state: number): void;
+  setWorldTransform(transform: unknown): void;
+  getMotionState(): { setWorldTransform(transform: unknown): void } | null;
+  setLinearVelocity(velocity: AmmoVector3): void;
+  getLinearVelocity(): AmmoVector3;
+  getWorldTransform(): { getOrigin(): AmmoVector3 };
+  setGravity(gravity: AmmoVector3): void;
 }
 
 /** Ammo.js dispatcher interface */
@@ -58,6 +87,12 @@ interface AmmoVector3 {
   dot(other: AmmoVector3): number;
 }
 
+/** Ammo.js transform interface */
+interface AmmoTransform {
+  setIdentity(): void;
+  setOrigin(origin: AmmoVector3): void;
+}
+
 // ============================================================================
 // PLAYER PHYSICS COMPONENT
 // ============================================================================
@@ -78,12 +113,30 @@ export default class PlayerPhysics extends Component {
   /** Whether the player can jump (grounded) */
   public canJump: boolean = false;
 
+  /** Whether the player is deep enough in water to swim */
+  public isSwimming: boolean = false;
+
+  // ============================================================================
+  // INTERPOLATION
+  // ============================================================================
+
+  /** Body position at the previous physics tick */
+  private readonly previousPosition = new THREE.Vector3();
+
+  /** Body position at the latest physics tick */
+  private readonly currentPosition = new THREE.Vector3();
+
+  /** Body position blended between the last two ticks, for rendering */
+  public readonly renderPosition = new THREE.Vector3();
+
   // ============================================================================
   // TEMP OBJECTS
   // ============================================================================
 
+  private terrain: TerrainService | null = null;
   private up: AmmoVector3 | null = null;
   private tempVec: AmmoVector3 | null = null;
+  private tempTransform: AmmoTransform | null = null;
 
   // ============================================================================
   // CONSTRUCTOR
@@ -99,9 +152,12 @@ export default class PlayerPhysics extends Component {
   // ============================================================================
 
   override Initialize(): void {
+    this.terrain = this.FindEntity('Level')?.GetComponent('Terrain') as TerrainService | undefined ?? null;
+
     // Create temp vectors
     this.up = new Ammo.btVector3(0, 1, 0);
     this.tempVec = new Ammo.btVector3(0, 0, 0);
+    this.tempTransform = new Ammo.btTransform();
 
     // Physics body parameters
     const height = 1.3;
@@ -131,6 +187,7 @@ export default class PlayerPhysics extends Component {
 
     // Add to world
     this.world.addRigidBody(this.body);
+    this.resetInterpolation();
   }
 
   // ============================================================================
@@ -182,14 +239,126 @@ export default class PlayerPhysics extends Component {
     }
   }
 
+  // ============================================================================
+  // TELEPORT
+  // ============================================================================
+
+  /**
+   * Move the body to a position and stop it.
+   */
+  Teleport(x: number, y: number, z: number): void {
+    if (!this.body || !this.tempVec || !this.tempTransform) return;
+
+    const transform = this.tempTransform;
+    this.tempVec.setValue(x, y, z);
+    transform.setIdentity();
+    transform.setOrigin(this.tempVec);
+
+    this.body.setWorldTransform(transform);
+    this.body.getMotionState()?.setWorldTransform(transform);
+
+    this.tempVec.setValue(0, 0, 0);
+    this.body.setLinearVelocity(this.tempVec);
+
+    // Jump straight there rather than sliding across the next frame
+    this.resetInterpolation();
+  }
+
+  // ============================================================================
+  // SAVE / LOAD
+  // ============================================================================
+
+  SaveState(): ComponentSaveData {
+    // The body origin (what Teleport takes), not the entity position, which
+    // PlayerControls raises to eye height
+    const pos = this.parent!.position.clone();
+    if (this.body) {
+      this.readOrigin(pos);
+    }
+    return { position: { x: pos.x, y: pos.y, z: pos.z } };
+  }
+
+  LoadState(data: ComponentSaveData): void {
+    const pos = data.position as { x?: unknown; y?: unknown; z?: unknown } | undefined;
+    if (typeof pos?.x === 'number' && typeof pos.y === 'number' && typeof pos.z === 'number') {
+      this.Teleport(pos.x, pos.y, pos.z);
+    }
+  }
+
   // ============================================================================
   // PHYSICS UPDATE
   // ============================================================================
 
   /**
-   * Called during physics step.
+   * Called after every physics tick.
    */
-  PhysicsUpdate(): void {
+  override PhysicsUpdate(_world: unknown, _timeStep: number): void {
+    if (!this.body) return;
+
+    this.previousPosition.copy(this.currentPosition);
+    this.readOrigin(this.currentPosition);
     this.queryJump();
   }
+
+  override Interpolate(alpha: number): void {
+    this.renderPosition.lerpVectors(this.previousPosition, this.currentPosition, alpha);
+  }
+
+  private resetInterpolation(): void {
+    this.readOrigin(this.currentPosition);
+    this.previousPosition.copy(this.currentPosition);
+    this.renderPosition.copy(this.currentPosition);
+  }
+
+  private readOrigin(target: THREE.Vector3): void {
+    const origin = this.body!.getWorldTransform().getOrigin();
+    target.set(origin.x(), origin.y(), origin.z());
+  }
+
+  override Update(deltaTime: number): void {
+    if (!this.body || !this.terrain) return;
+
+    this.snapToGround();
+    this.updateSwimming(deltaTime);
+  }
+
+  /**
+   * Lift the player back onto the terrain if they slipped through it
+   * (e.g. a tile collider was rebuilt underneath them).
+   */
+  private snapToGround(): void {
+    const origin = this.body!.getWorldTransform().getOrigin();
+    const standY = this.terrain!.GetHeight(origin.x(), origin.z()) + STAND_HEIGHT;
+    if (origin.y() < standY - SINK_TOLERANCE) {
+      this.Teleport(origin.x(), standY, origin.z());
+      this.canJump = true;
+    }
+  }
+
+  /**
+   * Switch to buoyant, damped movement once the body is deep enough in
+   * water. PlayerControls reads isSwimming for the swim-up key and speed.
+   */
+  private updateSwimming(deltaTime: number): void {
+    if (!this.tempVec) return;
+
+    const { immersion, gravityScale, verticalDrag } = WATER_CONFIG.swim;
+    const origin = this.body!.getWorldTransform().getOrigin();
+    const depth = this.terrain!.GetWaterLevel() - (origin.y() - STAND_HEIGHT);
+    const swimming = depth / BODY_HEIGHT >= immersion;
+
+    if (swimming !== this.isSwimming) {
+      this.isSwimming = swimming;
+      this.tempVec.setValue(0, WORLD_GRAVITY * (swimming ? gravityScale : 1), 0);
+      this.body!.setGravity(this.tempVec);
+    }
+
+    if (swimming) {
+      const velocity = this.body!.getLinearVelocity();
+      const damping = Math.max(0, 1 - verticalDrag * deltaTime);
+      velocity.setValue(velocity.x(), velocity.y() * damping, velocity.z());
+      this.body!.setLinearVelocity(velocity);
+      this.canJump = false;
+    }
+  }
 }
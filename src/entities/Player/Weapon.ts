@@ -8,17 +8,37 @@
 import * as THREE from 'three';
 import Component from '../../core/Component';
 import Input from '../../core/Input';
+import { HAS_DOM } from '../../core/Environment';
 import { Ammo, AmmoHelper, CollisionFilterGroups } from '../../core/AmmoLib';
 import WeaponFSM, { type WeaponAnimation, type WeaponState } from './WeaponFSM';
 import {
   getWeaponConfig,
   WEAPONS,
-  WEAPON_TIERS,
+  WEAPON_PROGRESSION,
   type WeaponKey,
   type WeaponConfig,
   type WeaponAnimationName,
 } from '../../config/weapons.config';
-import type { HitEvent, WeaponUpgradeEvent, WeaponPickupEvent, AmmoPickupEvent } from '../../types/events.types';
+import { ENTITY_CONFIGS } from '../../config/animals.config';
+import type {
+  HitEvent,
+  WeaponUpgradeEvent,
+  WeaponPickupEvent,
+  AmmoPickupEvent,
+  PlayerDiedEvent,
+  PlayerRespawnEvent,
+  HuntEndedEvent,
+} from '../../types/events.types';
+import { SeededRandom } from '../../systems/SeededRandom';
+import type { ComponentSaveData } from '../../types/save.types';
+import type { IEntity } from '../../types/entity.types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Controller components that mark an entity as an animal */
+const ANIMAL_CONTROLLERS: readonly string[] = Object.values(ENTITY_CONFIGS).map((config) => config.name);
 
 // ============================================================================
 // TYPES
@@ -47,6 +67,21 @@ interface UIManagerComponent {
   SetWeaponList(owned: string[], current: string): void;
 }
 
+/** Level weather service interface */
+interface WeatherService {
+  GetWind(target: THREE.Vector3): THREE.Vector3;
+}
+
+/** Terrain height interface */
+interface TerrainService {
+  GetHeight(x: number, z: number): number;
+}
+
+/** Level random service interface */
+interface RandomService {
+  GetStream(name: string): SeededRandom;
+}
+
 /** Asset dictionary for weapon models */
 type WeaponAssets = Record<string, THREE.Object3D>;
 
@@ -66,7 +101,7 @@ export default class Weapon extends Component {
   private readonly assets: WeaponAssets;
   private readonly flash: THREE.Object3D;
   private readonly shotSoundBuffer: AudioBuffer;
-  private readonly audioListener: THREE.AudioListener;
+  private readonly audioListener: THREE.AudioListener | null;
   private readonly nukeProjectileFactory: unknown | null;
 
   // ============================================================================
@@ -106,6 +141,9 @@ export default class Weapon extends Component {
   /** Is currently reloading */
   private reloading: boolean = false;
 
+  /** Firing and switching disabled while the player is dead */
+  private frozen: boolean = false;
+
   /** Currently displayed weapon model */
   private currentModel: THREE.Object3D | null = null;
 
@@ -131,6 +169,13 @@ export default class Weapon extends Component {
   /** Scene reference for effects */
   private scene: THREE.Scene | null = null;
 
+  /** Seeded RNG for shot spread */
+  private rng: SeededRandom = new SeededRandom(Date.now());
+
+  /** Weather (wind drift for grenades) */
+  private weather: WeatherService | null = null;
+  private terrain: TerrainService | null = null;
+
   /** Impact effects for cleanup */
   private impactEffects: ImpactEffect[] = [];
 
@@ -153,7 +198,7 @@ export default class Weapon extends Component {
     flash: THREE.Object3D,
     world: unknown,
     shotSoundBuffer: AudioBuffer,
-    listener: THREE.AudioListener,
+    listener: THREE.AudioListener | null,
     nukeProjectileFactory: unknown | null = null
   ) {
     super();
@@ -171,10 +216,7 @@ export default class Weapon extends Component {
     this.ammo = this.config.maxAmmo;
 
     // Init ammo storage
-    Object.keys(WEAPONS).forEach((k) => {
-      const conf = WEAPONS[k as WeaponKey];
-      this.weaponAmmo[k] = { mag: conf.magAmmo, reserve: conf.maxAmmo };
-    });
+    this.resetAmmo();
   }
 
   // ============================================================================
@@ -208,6 +250,13 @@ export default class Weapon extends Component {
     const forestLighting = level?.GetComponent('ForestLighting') as { scene?: THREE.Scene } | undefined;
     this.scene = tileManager?.scene ?? forestLighting?.scene ?? null;
 
+    const random = level?.GetComponent('Random') as RandomService | undefined;
+    if (random) {
+      this.rng = random.GetStream('weapon');
+    }
+    this.weather = level?.GetComponent('Weather') as WeatherService | undefined ?? null;
+    this.terrain = level?.GetComponent('Terrain') as TerrainService | undefined ?? null;
+
     // Setup input
     if (!this.inputSetup) {
       this.setupInput();
@@ -218,6 +267,9 @@ export default class Weapon extends Component {
     this.parent!.RegisterEventHandler(this.onAmmoPickup, 'AmmoPickup');
     this.parent!.RegisterEventHandler(this.onWeaponPickup, 'weapon_pickup');
     this.parent!.RegisterEventHandler(this.onWeaponUpgrade, 'weapon_upgrade');
+    this.Subscribe('player_died', this.onPlayerDied);
+    this.Subscribe('hunt_ended', this.onPlayerDied);
+    this.Subscribe('player_respawn', this.onPlayerRespawn);
   }
 
   // ============================================================================
@@ -237,6 +289,8 @@ export default class Weapon extends Component {
   }
 
   private setupSoundEffect(): void {
+    // No listener in headless runs - weapons fire silently
+    if (!this.audioListener) return;
     this.shotSound = new THREE.Audio(this.audioListener);
     this.shotSound.setBuffer(this.shotSoundBuffer);
     this.shotSound.setLoop(false);
@@ -245,7 +299,7 @@ export default class Weapon extends Component {
 
   private setupInput(): void {
     Input.AddMouseDownListner((e: MouseEvent) => {
-      if (e.button !== 0 || this.reloading) return;
+      if (e.button !== 0 || this.reloading || this.frozen) return;
       this.shoot = true;
       this.shootTimer = 0.0;
     });
@@ -256,7 +310,7 @@ export default class Weapon extends Component {
     });
 
     Input.AddKeyDownListener((e: KeyboardEvent) => {
-      if (e.repeat) return;
+      if (e.repeat || this.frozen) return;
       if (e.code === 'KeyR') {
         this.reload();
       }
@@ -270,6 +324,7 @@ export default class Weapon extends Component {
     });
 
     Input.AddWheelListener((e: WheelEvent) => {
+      if (this.frozen) return;
       if (e.deltaY > 0) this.nextWeapon();
       else if (e.deltaY < 0) this.prevWeapon();
     });
@@ -321,6 +376,14 @@ export default class Weapon extends Component {
     this.switchWeapon(this.ownedWeapons[index]);
   }
 
+  /** Fill every weapon's magazine and reserve */
+  private resetAmmo(): void {
+    Object.keys(WEAPONS).forEach((k) => {
+      const conf = WEAPONS[k as WeaponKey];
+      this.weaponAmmo[k] = { mag: conf.magAmmo, reserve: conf.maxAmmo };
+    });
+  }
+
   private saveCurrentAmmo(): void {
     this.weaponAmmo[this.currentWeaponKey] = {
       mag: this.magAmmo,
@@ -421,17 +484,11 @@ export default class Weapon extends Component {
   };
 
   private onWeaponUpgrade = (msg: WeaponUpgradeEvent): void => {
-    // Disable auto-switch for upgrade, just unlock?
-    // User logic: "Picking up weapon adds it".
-    // This upgrade logic matches kills.
-    // Let's just unlock it.
-    const newTier = msg.tier;
-    if (newTier < WEAPON_TIERS.length) {
-      const key = WEAPON_TIERS[newTier];
-      if (!this.ownedWeapons.includes(key)) {
-        this.ownedWeapons.push(key);
-        this.uimanager?.ShowUpgradeNotification(`Unlocked ${key}`);
-      }
+    // Unlock only - no auto-switch. GameManager shows the notification.
+    const key = msg.weaponKey;
+    if (key in WEAPONS && !this.ownedWeapons.includes(key)) {
+      this.ownedWeapons.push(key);
+      this.uimanager?.SetWeaponList(this.ownedWeapons, this.currentWeaponKey);
     }
   };
 
@@ -458,6 +515,76 @@ export default class Weapon extends Component {
     }
   };
 
+  /** Also used when the hunt timer runs out */
+  private onPlayerDied = (_msg: PlayerDiedEvent | HuntEndedEvent): void => {
+    this.frozen = true;
+    this.shoot = false;
+    if (this.currentModel) this.currentModel.visible = false;
+  };
+
+  private onPlayerRespawn = (msg: PlayerRespawnEvent): void => {
+    this.frozen = false;
+
+    if (!msg.keepWeapons) {
+      // Back to the starting loadout with full ammo
+      this.ownedWeapons = [WEAPON_PROGRESSION[0].weapon];
+      this.currentWeaponIndex = 0;
+      this.resetAmmo();
+      const active = this.weaponAmmo[this.currentWeaponKey];
+      this.magAmmo = active.mag;
+      this.ammo = active.reserve;
+      this.switchWeapon(this.ownedWeapons[0]);
+    }
+
+    if (this.currentModel) this.currentModel.visible = true;
+  };
+
+  // ============================================================================
+  // SAVE / LOAD
+  // ============================================================================
+
+  SaveState(): ComponentSaveData {
+    this.saveCurrentAmmo();
+    return {
+      currentWeapon: this.currentWeaponKey,
+      ownedWeapons: [...this.ownedWeapons],
+      ammo: JSON.parse(JSON.stringify(this.weaponAmmo)),
+    };
+  }
+
+  LoadState(data: ComponentSaveData): void {
+    if (Array.isArray(data.ownedWeapons)) {
+      const owned = data.ownedWeapons.filter(
+        (k): k is WeaponKey => typeof k === 'string' && k in WEAPONS
+      );
+      if (owned.length > 0) {
+        this.ownedWeapons = owned;
+      }
+    }
+
+    const ammo = data.ammo as Record<string, { mag?: unknown; reserve?: unknown }> | undefined;
+    if (ammo && typeof ammo === 'object') {
+      for (const key in this.weaponAmmo) {
+        const saved = ammo[key];
+        if (typeof saved?.mag === 'number' && typeof saved.reserve === 'number') {
+          this.weaponAmmo[key] = { mag: saved.mag, reserve: saved.reserve };
+        }
+      }
+    }
+
+    const current = data.currentWeapon as WeaponKey;
+    const index = this.ownedWeapons.indexOf(current);
+    this.currentWeaponIndex = index >= 0 ? index : 0;
+    const key = this.ownedWeapons[this.currentWeaponIndex];
+
+    // switchWeapon stores the live ammo first - sync it so the restored
+    // values of the active weapon are not overwritten
+    const active = this.weaponAmmo[this.currentWeaponKey];
+    this.magAmmo = active.mag;
+    this.ammo = active.reserve;
+    this.switchWeapon(key);
+  }
+
   // ============================================================================
   // RELOAD
   // ============================================================================
@@ -566,9 +693,9 @@ export default class Weapon extends Component {
 
       // Apply spread
       if (spread > 0) {
-        const spreadX = (Math.random() - 0.5) * spread;
-        const spreadY = (Math.random() - 0.5) * spread;
-        const spreadZ = (Math.random() - 0.5) * spread;
+        const spreadX = this.rng.spread(spread);
+        const spreadY = this.rng.spread(spread);
+        const spreadZ = this.rng.spread(spread);
         forward.x += spreadX;
         forward.y += spreadY;
         forward.z += spreadZ;
@@ -591,16 +718,22 @@ export default class Weapon extends Component {
         // Look up entity from collision object registry
         const entity = AmmoHelper.GetEntityFromCollisionObject(collisionObj);
 
+        const hitEvent: HitEvent = {
+          topic: 'hit',
+          from: this.parent!,
+          amount: this.config.damage,
+          hitResult: this.hitResult,
+          damageType: 'bullet',
+          weapon: this.currentWeaponKey,
+        };
+
         let isLiving = false;
         if (entity && typeof entity.Broadcast === 'function') {
-          const hitEvent: HitEvent = {
-            topic: 'hit',
-            from: this.parent!,
-            amount: this.config.damage,
-            hitResult: this.hitResult,
-          };
           entity.Broadcast(hitEvent);
           isLiving = true;
+        } else {
+          // Scenery (trees, rocks): the Level leaves a bullet decal
+          this.FindEntity('Level')?.Broadcast(hitEvent);
         }
 
         // Create impact effect
@@ -677,15 +810,12 @@ export default class Weapon extends Component {
     const startPos = (this.camera as THREE.PerspectiveCamera).position.clone();
     startPos.add(forward.clone().multiplyScalar(1.0));
 
-    const spawnManager = this.FindEntity('SpawnManager');
-    if (spawnManager) {
-      spawnManager.Broadcast({
-        topic: 'nuke_fired',
-        startPosition: startPos,
-        direction: forward,
-        camera: this.camera,
-      });
-    }
+    this.Publish({
+      topic: 'nuke_fired',
+      startPosition: startPos,
+      direction: forward,
+      camera: this.camera,
+    });
 
     this.triggerNukeEffects();
   }
@@ -708,6 +838,9 @@ export default class Weapon extends Component {
   private createGrenadeProjectile(startPos: THREE.Vector3, direction: THREE.Vector3): void {
     if (!this.scene) return;
 
+    // Credit kills to the launcher even if the player switches mid-flight
+    const weaponKey = this.currentWeaponKey;
+
     // Create visual grenade
     const geometry = new THREE.SphereGeometry(0.15, 8, 8);
     const material = new THREE.MeshStandardMaterial({
@@ -722,19 +855,24 @@ export default class Weapon extends Component {
     // Grenade physics
     const velocity = direction.clone().multiplyScalar(30); // Speed
     const gravity = -15;
+    const wind = new THREE.Vector3();
     let time = 0;
     const maxTime = 3; // Max flight time
 
     const updateGrenade = () => {
       time += 0.016; // ~60fps
 
-      // Apply velocity and gravity
+      // Apply velocity, gravity and wind drift
       grenade.position.add(velocity.clone().multiplyScalar(0.016));
       velocity.y += gravity * 0.016;
+      if (this.weather) {
+        velocity.addScaledVector(this.weather.GetWind(wind), 0.016);
+      }
 
       // Check ground collision
-      if (grenade.position.y <= 0.2 || time >= maxTime) {
-        this.explodeGrenade(grenade.position.clone());
+      const groundY = this.terrain?.GetHeight(grenade.position.x, grenade.position.z) ?? 0;
+      if (grenade.position.y <= groundY + 0.2 || time >= maxTime) {
+        this.explodeGrenade(grenade.position.clone(), weaponKey);
         this.scene?.remove(grenade);
         geometry.dispose();
         material.dispose();
@@ -757,7 +895,7 @@ export default class Weapon extends Component {
         const entity = AmmoHelper.GetEntityFromCollisionObject(hitResult.collisionObject);
         if (entity) {
           // Hit an entity, explode
-          this.explodeGrenade(hitResult.intersectionPoint);
+          this.explodeGrenade(hitResult.intersectionPoint, weaponKey);
           this.scene?.remove(grenade);
           geometry.dispose();
           material.dispose();
@@ -771,7 +909,7 @@ export default class Weapon extends Component {
     requestAnimationFrame(updateGrenade);
   }
 
-  private explodeGrenade(position: THREE.Vector3): void {
+  private explodeGrenade(position: THREE.Vector3, weaponKey: WeaponKey): void {
     if (!this.scene) return;
 
     const explosionRadius = this.config.explosionRadius;
@@ -807,32 +945,19 @@ export default class Weapon extends Component {
     requestAnimationFrame(expandExplosion);
 
     // Deal explosion damage to all entities in radius
-    this.dealExplosionDamage(position, explosionRadius, explosionDamage);
+    this.dealExplosionDamage(position, explosionRadius, explosionDamage, weaponKey);
   }
 
-  private dealExplosionDamage(position: THREE.Vector3, radius: number, damage: number): void {
-    // Find all animals via SpawnManager
-    const spawnManager = this.FindEntity('SpawnManager');
-    if (!spawnManager) return;
+  private dealExplosionDamage(position: THREE.Vector3, radius: number, damage: number, weaponKey: WeaponKey): void {
+    const entityManager = this.parent!.parent;
+    if (!entityManager) return;
 
-    const spawnComponent = spawnManager.GetComponent('SpawnManager') as {
-      GetRabbits(): { Position: THREE.Vector3; Broadcast: (msg: object) => void }[];
-      GetFoxes(): { Position: THREE.Vector3; Broadcast: (msg: object) => void }[];
-      GetTrexes(): { Position: THREE.Vector3; Broadcast: (msg: object) => void }[];
-      GetApatosauruses(): { Position: THREE.Vector3; Broadcast: (msg: object) => void }[];
-    } | undefined;
+    // Every animal in reach, whether from the spawn manager, a wave or a tile
+    const isAnimal = (entity: IEntity) => ANIMAL_CONTROLLERS.some((name) => entity.components[name] !== undefined);
+    const nearbyAnimals = entityManager.spatial.queryRadius(position, radius, isAnimal);
 
-    if (!spawnComponent) return;
-
-    const allAnimals = [
-      ...spawnComponent.GetRabbits(),
-      ...spawnComponent.GetFoxes(),
-      ...spawnComponent.GetTrexes(),
-      ...spawnComponent.GetApatosauruses(),
-    ];
-
-    for (const animal of allAnimals) {
-      const dist = animal.Position.distanceTo(position);
+    for (const animal of nearbyAnimals) {
+      const dist = animal.position.distanceTo(position);
       if (dist <= radius) {
         // Damage falls off with distance
         const falloff = 1 - (dist / radius);
@@ -843,7 +968,9 @@ export default class Weapon extends Component {
             topic: 'hit',
             from: this.parent!,
             amount: actualDamage,
-            hitResult: { intersectionPoint: position, intersectionNormal: new THREE.Vector3(0, 1, 0) },
+            hitResult: { intersectionPoint: position, intersectionNormal: new THREE.Vector3(0, 1, 0), collisionObject: null },
+            damageType: 'explosion',
+            weapon: weaponKey,
           });
         }
       }
@@ -851,6 +978,8 @@ export default class Weapon extends Component {
   }
 
   private triggerNukeEffects(): void {
+    if (!HAS_DOM) return;
+
     const flashOverlay = document.createElement('div');
     flashOverlay.style.cssText = `
       position: fixed;
@@ -897,7 +1026,7 @@ export default class Weapon extends Component {
   override Update(deltaTime: number): void {
     this.mixer?.update(deltaTime);
     this.stateMachine?.Update(deltaTime);
-    this.handleShoot(deltaTime);
+    if (!this.frozen) this.handleShoot(deltaTime);
     this.animateMuzzle(deltaTime);
   }
 
@@ -1,5 +1,7 @@
 import * as THREE from 'three';
 import { Component } from '../../core/Component';
+import type { IEntity } from '../../types/entity.types';
+import type WorldClock from '../Level/WorldClock';
 
 const _VS = `
 varying vec3 vWorldPosition;
@@ -24,6 +26,17 @@ export default class Sky extends Component {
   public readonly name = 'Sky';
 
   private scene: THREE.Scene;
+  private sky: THREE.Mesh | null = null;
+  private uniforms: {
+    topColor: { value: THREE.Color };
+    bottomColor: { value: THREE.Color };
+    offset: { value: number };
+    exponent: { value: number };
+  } | null = null;
+
+  // Dome follows the player; colours follow the Level 'WorldClock'
+  private player: IEntity | null = null;
+  private clock: WorldClock | null = null;
 
   constructor(scene: THREE.Scene) {
     super();
@@ -31,21 +44,17 @@ export default class Sky extends Component {
   }
 
   Initialize(): void {
-    const hemiLight = new THREE.HemisphereLight(0xffffff, 0xfffffff, 0.6);
-    hemiLight.color.setHSL(0.6, 1, 0.6);
-    hemiLight.groundColor.setHSL(0.095, 1, 0.75);
-    this.scene.add(hemiLight);
+    this.player = this.FindEntity('Player') ?? null;
+    this.clock = (this.GetComponent('WorldClock') as WorldClock | undefined) ?? null;
 
+    // Lights and fog come from ForestLighting; this is the dome only
     const uniforms = {
       topColor: { value: new THREE.Color(0x0077ff) },
-      bottomColor: { value: new THREE.Color(0xffffff) },
+      bottomColor: { value: new THREE.Color(0x87ceeb) },
       offset: { value: 33 },
       exponent: { value: 0.6 },
     };
-    uniforms['topColor'].value.copy(hemiLight.color);
-
-    this.scene.fog = new THREE.FogExp2(0x89b2eb, 0.002);
-    (this.scene.fog as THREE.FogExp2).color.copy(uniforms['bottomColor'].value);
+    this.uniforms = uniforms;
 
     const skyGeo = new THREE.SphereGeometry(1000, 32, 15);
     const skyMat = new THREE.ShaderMaterial({
@@ -53,9 +62,28 @@ export default class Sky extends Component {
       vertexShader: _VS,
       fragmentShader: _FS,
       side: THREE.BackSide,
+      depthWrite: false,
     });
 
-    const sky = new THREE.Mesh(skyGeo, skyMat);
-    this.scene.add(sky);
+    this.sky = new THREE.Mesh(skyGeo, skyMat);
+    this.scene.add(this.sky);
+  }
+
+  Update(_deltaTime: number): void {
+    if (this.sky && this.player) {
+      this.sky.position.copy(this.player.position);
+    }
+
+    if (this.uniforms && this.clock) {
+      const lighting = this.clock.GetLighting();
+      this.uniforms.topColor.value.copy(lighting.zenithColor);
+      this.uniforms.bottomColor.value.copy(lighting.horizonColor);
+    }
+  }
+
+  Cleanup(): void {
+    if (this.sky) {
+      this.scene.remove(this.sky);
+    }
   }
 }
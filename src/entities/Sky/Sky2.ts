@@ -1,11 +1,22 @@
 import * as THREE from 'three';
 import { Component } from '../../core/Component';
+import type { IEntity } from '../../types/entity.types';
+import type WorldClock from '../Level/WorldClock';
+import { DAY_NIGHT_CONFIG } from '../../config/daynight.config';
+
+/** Brightest hemisphere intensity of the day, used to normalise the tint */
+const PEAK_HEMI_INTENSITY = Math.max(...DAY_NIGHT_CONFIG.keyframes.map((k) => k.hemiIntensity));
 
 export default class Sky2 extends Component {
   public readonly name = 'Sky';
 
   private scene: THREE.Scene;
   private texture: THREE.Texture;
+  private sky: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial> | null = null;
+
+  // Dome follows the player and darkens with the Level 'WorldClock'
+  private player: IEntity | null = null;
+  private clock: WorldClock | null = null;
 
   constructor(scene: THREE.Scene, skyTexture: THREE.Texture) {
     super();
@@ -14,11 +25,10 @@ export default class Sky2 extends Component {
   }
 
   Initialize(): void {
-    const hemiLight = new THREE.HemisphereLight(0xffffff, 0xfffffff, 1);
-    hemiLight.color.setHSL(0.6, 1, 0.6);
-    hemiLight.groundColor.setHSL(0.095, 1, 0.75);
-    this.scene.add(hemiLight);
+    this.player = this.FindEntity('Player') ?? null;
+    this.clock = (this.GetComponent('WorldClock') as WorldClock | undefined) ?? null;
 
+    // Lights come from ForestLighting; this is the dome only
     const skyGeo = new THREE.SphereGeometry(1000, 25, 25);
     const skyMat = new THREE.MeshBasicMaterial({
       map: this.texture,
@@ -26,8 +36,27 @@ export default class Sky2 extends Component {
       depthWrite: false,
       toneMapped: false,
     });
-    const sky = new THREE.Mesh(skyGeo, skyMat);
-    sky.rotateY(THREE.MathUtils.degToRad(-60));
-    this.scene.add(sky);
+    this.sky = new THREE.Mesh(skyGeo, skyMat);
+    this.sky.rotateY(THREE.MathUtils.degToRad(-60));
+    this.scene.add(this.sky);
+  }
+
+  Update(_deltaTime: number): void {
+    if (!this.sky) return;
+
+    if (this.player) {
+      this.sky.position.copy(this.player.position);
+    }
+
+    if (this.clock) {
+      const brightness = this.clock.GetLighting().hemiIntensity / PEAK_HEMI_INTENSITY;
+      this.sky.material.color.setScalar(brightness);
+    }
+  }
+
+  Cleanup(): void {
+    if (this.sky) {
+      this.scene.remove(this.sky);
+    }
   }
 }
@@ -0,0 +1,223 @@
+/**
+ * Prefab Factory
+ *
+ * Builds entities from the prefab definitions in prefabs.json. Component
+ * types are looked up by name in a registry, so a prefab can use any
+ * registered component; constructor arguments are resolved from the
+ * spawner's scene, physics world and loaded assets.
+ */
+
+import * as THREE from 'three';
+import { SkeletonUtils } from 'three/examples/jsm/utils/SkeletonUtils';
+import Entity from '../../core/Entity';
+import type Component from '../../core/Component';
+import RabbitController from '../Animals/RabbitController';
+import FoxController from '../Animals/FoxController';
+import TRexController from '../Animals/TRexController';
+import ApatosaurusController from '../Animals/ApatosaurusController';
+import CharacterController, { type AnimationClipDict } from '../NPC/CharacterController';
+import AttackTrigger from '../NPC/AttackTrigger';
+import CharacterCollision from '../NPC/CharacterCollision';
+import WeaponPickup from '../Pickups/WeaponPickup';
+import AmmoPickup from '../Pickups/AmmoPickup';
+import { getPrefab, type PrefabParam } from '../../config/prefabs.config';
+import type { IEntity } from '../../types/entity.types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Component class a prefab can name */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ComponentConstructor = new (...args: any[]) => Component;
+
+/** A loaded asset: a model, or a glTF result holding one */
+type PrefabAsset = THREE.Object3D | { scene?: THREE.Object3D; animations?: THREE.AnimationClip[] };
+
+/**
+ * What a spawner provides for building its prefabs.
+ */
+export interface PrefabContext {
+  scene: THREE.Scene;
+  physicsWorld: unknown;
+
+  /** Loaded assets by key */
+  assets: object;
+
+  /** Mutant animation clips (loaded separately from its model) */
+  mutantClips?: AnimationClipDict;
+}
+
+// ============================================================================
+// COMPONENT REGISTRY
+// ============================================================================
+
+const COMPONENT_TYPES = new Map<string, ComponentConstructor>([
+  ['RabbitController', RabbitController],
+  ['FoxController', FoxController],
+  ['TRexController', TRexController],
+  ['ApatosaurusController', ApatosaurusController],
+  ['CharacterController', CharacterController],
+  ['AttackTrigger', AttackTrigger],
+  ['CharacterCollision', CharacterCollision],
+  ['WeaponPickup', WeaponPickup],
+  ['AmmoPickup', AmmoPickup],
+]);
+
+/**
+ * Make a component class available to prefabs under a type name.
+ */
+export function registerPrefabComponent(type: string, constructor: ComponentConstructor): void {
+  COMPONENT_TYPES.set(type, constructor);
+}
+
+/** Prefab key each built entity came from */
+const PREFAB_KEYS = new WeakMap<IEntity, string>();
+
+/**
+ * Key of the prefab an entity was built from (undefined for entities not
+ * built by a PrefabFactory).
+ */
+export function getPrefabKey(entity: IEntity): string | undefined {
+  return PREFAB_KEYS.get(entity);
+}
+
+// ============================================================================
+// PREFAB FACTORY
+// ============================================================================
+
+export default class PrefabFactory {
+  private readonly context: PrefabContext;
+
+  constructor(context: PrefabContext) {
+    this.context = context;
+  }
+
+  /**
+   * Whether a prefab exists and the assets it needs are loaded.
+   */
+  Has(key: string): boolean {
+    const prefab = getPrefab(key);
+    return !!prefab && prefab.requires.every((asset) => this.asset(asset) !== undefined);
+  }
+
+  /**
+   * Build an entity from a prefab. The entity is not added to the entity
+   * manager or initialised. Returns null (and logs why) if the prefab is
+   * unknown, its assets are missing or its definition is broken.
+   *
+   * @param key - Prefab key in prefabs.json
+   * @param position - Where the entity starts; also the value of { ref: 'position' }
+   * @param args - Per-spawn values for { arg } parameters
+   */
+  Create(key: string, position?: THREE.Vector3, args: Record<string, unknown> = {}): Entity | null {
+    const prefab = getPrefab(key);
+    if (!prefab) {
+      console.error(`PrefabFactory: unknown prefab '${key}'`);
+      return null;
+    }
+
+    const missing = prefab.requires.find((asset) => this.asset(asset) === undefined);
+    if (missing) {
+      console.error(`PrefabFactory: '${key}' needs asset '${missing}', which is not loaded`);
+      return null;
+    }
+
+    const entity = new Entity();
+    entity.SetName(`${prefab.name}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+    if (position) {
+      entity.SetPosition(position);
+    }
+
+    try {
+      for (const { type, params } of prefab.components) {
+        const ComponentType = COMPONENT_TYPES.get(type);
+        if (!ComponentType) {
+          throw new Error(`unknown component type '${type}'`);
+        }
+        entity.AddComponent(new ComponentType(...params.map((param) => this.resolve(param, position, args))));
+      }
+    } catch (e) {
+      console.error(`PrefabFactory: could not build '${key}':`, e instanceof Error ? e.message : e);
+      entity.Cleanup();
+      return null;
+    }
+
+    PREFAB_KEYS.set(entity, key);
+    return entity;
+  }
+
+  // ============================================================================
+  // PARAMETERS
+  // ============================================================================
+
+  private resolve(param: PrefabParam, position: THREE.Vector3 | undefined, args: Record<string, unknown>): unknown {
+    if (param === null || typeof param !== 'object') {
+      return param;
+    }
+
+    if ('ref' in param) {
+      return this.ref(param.ref, position);
+    }
+    if ('arg' in param) {
+      if (!(param.arg in args)) {
+        throw new Error(`missing spawn argument '${param.arg}'`);
+      }
+      return args[param.arg];
+    }
+    if ('model' in param) {
+      return this.cloneModel(param.model, param.animations ?? true);
+    }
+    if ('asset' in param) {
+      return this.asset(param.asset);
+    }
+    if ('assets' in param) {
+      return Object.fromEntries(param.assets.map((key) => [key, this.asset(key)]));
+    }
+    return param;
+  }
+
+  private ref(name: string, position: THREE.Vector3 | undefined): unknown {
+    switch (name) {
+      case 'scene':
+        return this.context.scene;
+      case 'physicsWorld':
+        return this.context.physicsWorld;
+      case 'mutantClips':
+        return this.context.mutantClips ?? {};
+      case 'position':
+        if (!position) {
+          throw new Error("{ ref: 'position' } needs a spawn position");
+        }
+        return position;
+      default:
+        throw new Error(`unknown reference '${name}'`);
+    }
+  }
+
+  private asset(key: string): PrefabAsset | undefined {
+    return (this.context.assets as Record<string, PrefabAsset | undefined>)[key];
+  }
+
+  /**
+   * Skinned clone of a model asset (the glTF scene when there is one), so
+   * each entity animates on its own skeleton.
+   */
+  private cloneModel(key: string, withAnimations: boolean): THREE.Object3D {
+    const asset = this.asset(key);
+    if (!asset) {
+      throw new Error(`asset '${key}' is not loaded`);
+    }
+
+    const source = (asset as { scene?: THREE.Object3D }).scene ?? asset;
+    if (!(source instanceof THREE.Object3D)) {
+      throw new Error(`asset '${key}' has no model`);
+    }
+
+    const model = SkeletonUtils.clone(source) as THREE.Object3D;
+    if (withAnimations && asset.animations && asset.animations.length > 0) {
+      model.animations = asset.animations;
+    }
+    return model;
+  }
+}
@@ -1,21 +1,27 @@
 /**
  * Spawn Manager Component
  *
- * Manages spawning/respawning of animals and weapon pickups.
+ * Manages spawning/respawning of animals, mutants and weapon pickups.
+ * Entities are built from prefabs (see prefabs.json).
  */
 
 import * as THREE from 'three';
-import { SkeletonUtils } from 'three/examples/jsm/utils/SkeletonUtils';
 import Component from '../../core/Component';
 import Entity from '../../core/Entity';
-import RabbitController from '../Animals/RabbitController';
-import FoxController from '../Animals/FoxController';
-import TRexController from '../Animals/TRexController';
-import ApatosaurusController from '../Animals/ApatosaurusController';
+import type { AnimationClipDict } from '../NPC/CharacterController';
 import NukeProjectile from '../Player/NukeProjectile';
-import WeaponPickup from '../Pickups/WeaponPickup';
-import type { AnimalDiedEvent, NukeFiredEvent, NukeDetonatedEvent, FoxWeaponDropEvent } from '../../types/events.types';
+import PrefabFactory, { getPrefabKey } from './PrefabFactory';
+import { getPrefab } from '../../config/prefabs.config';
+import { ENTITY_CONFIGS } from '../../config/animals.config';
+import type {
+  AnimalDiedEvent,
+  HitEvent,
+  NukeFiredEvent,
+  NukeDetonatedEvent,
+  FoxWeaponDropEvent,
+} from '../../types/events.types';
 import type { IEntity } from '../../types/entity.types';
+import { SeededRandom } from '../../systems/SeededRandom';
 
 // ============================================================================
 // TYPES
@@ -26,19 +32,39 @@ interface NavmeshComponent {
   GetRandomNode(position: THREE.Vector3, range: number): THREE.Vector3 | null;
 }
 
+/** Terrain height service interface */
+interface TerrainService {
+  GetHeight(x: number, z: number): number;
+}
+
+/** Level random service interface */
+interface RandomService {
+  GetStream(name: string): SeededRandom;
+}
+
+/** Tile manager interface (animals on loaded tiles) */
+interface TileService {
+  GetSpawnCount(type: string): number;
+}
+
 /** Entity Manager interface */
 interface EntityManagerInterface {
   Add(entity: Entity): void;
   Remove(entity: Entity): void;
+  Query(components: readonly string[]): IEntity[];
 }
 
 /** Respawn queue item */
 interface RespawnItem {
-  type: 'rabbit' | 'fox' | 'trex' | 'apatosaurus';
+  /** Prefab key */
+  type: string;
   timer: number;
   position: THREE.Vector3;
 }
 
+/** Controller component names of every animal type */
+const ANIMAL_CONTROLLERS: readonly string[] = Object.values(ENTITY_CONFIGS).map((config) => config.name);
+
 /** Asset dictionary */
 type AssetDict = Record<string, THREE.Object3D & { scene?: THREE.Object3D; animations?: THREE.AnimationClip[] }>;
 
@@ -54,51 +80,21 @@ export default class SpawnManager extends Component {
   // ============================================================================
 
   private readonly scene: THREE.Scene;
-  private readonly physicsWorld: unknown;
-  private readonly assets: AssetDict;
+  private readonly prefabs: PrefabFactory;
 
   // ============================================================================
   // CONFIGURATION
   // ============================================================================
 
-  private readonly maxRabbits: number = 12;
-  private readonly maxFoxes: number = 2;
-  private readonly maxTrex: number = 1;
-  private readonly maxApatosaurus: number = 2;
+  // Caps and respawn alternatives are per prefab (spawn.respawn in prefabs.json)
   private readonly respawnCooldown: number = 5;
-  private readonly trexSpawnChance: number = 0.25; // 25% chance
 
   // ============================================================================
   // STATE
   // ============================================================================
 
-  /** Active rabbit entities */
-  private rabbits: Entity[] = [];
-
-  /** Active fox entities */
-  private foxes: Entity[] = [];
-
-  public GetRabbits(): Entity[] {
-    return this.rabbits;
-  }
-
-  public GetFoxes(): Entity[] {
-    return this.foxes;
-  }
-
-  public GetTrexes(): Entity[] {
-    return this.trexes;
-  }
-
-  public GetApatosauruses(): Entity[] {
-    return this.apatosauruses;
-  }
-
-  /** Active T-Rex entities */
-  private trexes: Entity[] = [];
-
-  /** Active Apatosaurus entities */
-  private apatosauruses: Entity[] = [];
+  /** Live entities this manager spawned, by prefab key */
+  private readonly active = new Map<string, Entity[]>();
 
   /** Pending respawns */
   private respawnQueue: RespawnItem[] = [];
@@ -106,22 +102,27 @@ export default class SpawnManager extends Component {
   /** Whether initial spawn is complete */
   public initialSpawnComplete: boolean = false;
 
+  /** Whether dead animals are queued for respawn (off while a wave director spawns) */
+  private respawnEnabled: boolean = true;
+
   // ============================================================================
   // REFERENCES
   // ============================================================================
 
   private navmesh: NavmeshComponent | null = null;
+  private terrain: TerrainService | null = null;
+  private tiles: TileService | null = null;
   private entityManager: EntityManagerInterface | null = null;
+  private rng: SeededRandom = new SeededRandom(Date.now());
 
   // ============================================================================
   // CONSTRUCTOR
   // ============================================================================
 
-  constructor(scene: THREE.Scene, physicsWorld: unknown, assets: AssetDict) {
+  constructor(scene: THREE.Scene, physicsWorld: unknown, assets: AssetDict, mutantClips: AnimationClipDict = {}) {
     super();
     this.scene = scene;
-    this.physicsWorld = physicsWorld;
-    this.assets = assets;
+    this.prefabs = new PrefabFactory({ scene, physicsWorld, assets, mutantClips });
   }
 
   // ============================================================================
@@ -131,54 +132,70 @@ export default class SpawnManager extends Component {
   override Initialize(): void {
     const level = this.FindEntity('Level');
     this.navmesh = level?.GetComponent('Navmesh') as NavmeshComponent | undefined ?? null;
+    this.terrain = level?.GetComponent('Terrain') as TerrainService | undefined ?? null;
+    this.tiles = level?.GetComponent('TileManager') as TileService | undefined ?? null;
     this.entityManager = this.parent?.parent as EntityManagerInterface | undefined ?? null;
 
-    // Listen for events
-    this.parent!.RegisterEventHandler(this.onAnimalDied, 'animal_died');
-    this.parent!.RegisterEventHandler(this.onNukeDetonated, 'nuke_detonated');
-    this.parent!.RegisterEventHandler(this.onNukeFired, 'nuke_fired');
-    this.parent!.RegisterEventHandler(this.onFoxWeaponDrop, 'fox_weapon_drop');
+    const random = level?.GetComponent('Random') as RandomService | undefined;
+    if (random) {
+      this.rng = random.GetStream('spawn');
+    }
+
+    // Listen for world events
+    this.Subscribe('animal_died', this.onAnimalDied);
+    this.Subscribe('nuke_detonated', this.onNukeDetonated);
+    this.Subscribe('nuke_fired', this.onNukeFired);
+    this.Subscribe('fox_weapon_drop', this.onFoxWeaponDrop);
   }
 
   // ============================================================================
   // SPAWN POSITION
   // ============================================================================
 
-  GetRandomSpawnPosition(): THREE.Vector3 {
-    const minDistFromCenter = 8;
-    const maxDist = 30;
-
-    const angle = Math.random() * Math.PI * 2;
-    const distance = minDistFromCenter + Math.random() * (maxDist - minDistFromCenter);
+  GetRandomSpawnPosition(
+    center: THREE.Vector3 | null = null,
+    minDistFromCenter: number = 8,
+    maxDist: number = 30
+  ): THREE.Vector3 {
+    const angle = this.rng.angle();
+    const distance = this.rng.range(minDistFromCenter, maxDist);
 
-    const x = Math.cos(angle) * distance;
-    const z = Math.sin(angle) * distance;
-    const spawnY = 0;
+    const x = (center?.x ?? 0) + Math.cos(angle) * distance;
+    const z = (center?.z ?? 0) + Math.sin(angle) * distance;
 
     // Try navmesh first
     try {
-      const targetPos = new THREE.Vector3(x, spawnY, z);
+      const targetPos = new THREE.Vector3(x, this.groundHeight(x, z), z);
       const node = this.navmesh?.GetRandomNode(targetPos, 10);
       if (node) {
-        node.y = spawnY;
+        node.y = this.groundHeight(node.x, node.z);
         return node;
       }
     } catch (e) {
       // Navmesh failed, use fallback
     }
 
-    return new THREE.Vector3(x, spawnY, z);
+    return new THREE.Vector3(x, this.groundHeight(x, z), z);
+  }
+
+  private groundHeight(x: number, z: number): number {
+    return this.terrain?.GetHeight(x, z) ?? 0;
   }
 
   // ============================================================================
-  // RABBIT SPAWNING
+  // SPAWNING
   // ============================================================================
 
-  SpawnRabbit(): Entity | null {
-    if (this.rabbits.length >= this.maxRabbits) return null;
+  /**
+   * Spawn a prefab at a random position, up to its respawn cap
+   * (spawn.respawn.max in prefabs.json) and, together with the animals on
+   * loaded tiles, its tile cap.
+   */
+  Spawn(type: string): Entity | null {
+    if (!this.hasRoom(type)) return null;
 
     const position = this.GetRandomSpawnPosition();
-    const entity = this.createRabbitEntity(position);
+    const entity = this.prefabs.Create(type, position);
 
     if (entity && this.entityManager) {
       this.entityManager.Add(entity);
@@ -187,185 +204,114 @@ export default class SpawnManager extends Component {
         this.initializeEntity(entity);
       }
 
-      this.rabbits.push(entity);
+      this.getActiveList(type).push(entity);
     }
 
     return entity;
   }
 
-  private createRabbitEntity(position: THREE.Vector3): Entity | null {
-    const rabbitModel = this.assets['rabbit'];
-    if (!rabbitModel) {
-      console.error('Rabbit model not loaded');
-      return null;
-    }
-
-    const sourceScene = rabbitModel.scene || rabbitModel;
-    const modelClone = SkeletonUtils.clone(sourceScene) as THREE.Object3D;
-
-    if (rabbitModel.animations && rabbitModel.animations.length > 0) {
-      (modelClone as { animations?: THREE.AnimationClip[] }).animations = rabbitModel.animations;
-    }
-
-    const entity = new Entity();
-    entity.SetName(`Rabbit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
-    entity.SetPosition(position);
-    entity.AddComponent(new RabbitController(modelClone, this.scene, this.physicsWorld));
-
-    return entity;
+  /**
+   * Live entities this manager spawned from a prefab.
+   */
+  GetActive(type: string): Entity[] {
+    return this.active.get(type) ?? [];
   }
 
   // ============================================================================
-  // FOX SPAWNING
+  // DIRECTED SPAWNING
   // ============================================================================
 
-  SpawnFox(): Entity | null {
-    if (this.foxes.length >= this.maxFoxes) return null;
-
-    const position = this.GetRandomSpawnPosition();
-    const entity = this.createFoxEntity(position);
-
-    if (entity && this.entityManager) {
-      this.entityManager.Add(entity);
-
-      if (this.initialSpawnComplete) {
-        this.initializeEntity(entity);
-      }
+  /**
+   * Spawn an animal at a position, ignoring the respawn caps.
+   * Used by the wave director, which sizes waves itself.
+   */
+  SpawnAnimal(type: string, position: THREE.Vector3): Entity | null {
+    const entity = this.prefabs.Create(type, position);
+    if (!entity || !this.entityManager) return null;
 
-      this.foxes.push(entity);
-    }
+    // Directed spawns always happen after EndSetup
+    this.entityManager.Add(entity);
+    this.initializeEntity(entity);
+    this.getActiveList(type).push(entity);
 
     return entity;
   }
 
-  private createFoxEntity(position: THREE.Vector3): Entity | null {
-    const foxModel = this.assets['fox'];
-    if (!foxModel) {
-      console.error('Fox model not loaded');
-      return null;
-    }
-
-    const sourceScene = foxModel.scene || foxModel;
-    const modelClone = SkeletonUtils.clone(sourceScene) as THREE.Object3D;
-
-    if (foxModel.animations && foxModel.animations.length > 0) {
-      (modelClone as { animations?: THREE.AnimationClip[] }).animations = foxModel.animations;
-    }
-
-    const entity = new Entity();
-    entity.SetName(`Fox_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
-    entity.SetPosition(position);
-    entity.AddComponent(new FoxController(modelClone, this.scene, this.physicsWorld));
-
-    return entity;
+  /**
+   * Remove a live animal without it dying (no score, no respawn).
+   */
+  Despawn(entity: Entity): void {
+    this.forget(entity);
+    this.cleanupEntity(entity);
   }
 
-  // ============================================================================
-  // T-REX SPAWNING
-  // ============================================================================
-
-  SpawnTRex(): Entity | null {
-    if (this.trexes.length >= this.maxTrex) return null;
-
-    const position = this.GetRandomSpawnPosition();
-    const entity = this.createTRexEntity(position);
-
-    if (entity && this.entityManager) {
-      this.entityManager.Add(entity);
-
-      if (this.initialSpawnComplete) {
-        this.initializeEntity(entity);
-      }
-
-      this.trexes.push(entity);
+  /**
+   * Turn automatic respawning of dead animals on or off.
+   * Disabling also drops anything already queued.
+   */
+  SetRespawnEnabled(enabled: boolean): void {
+    this.respawnEnabled = enabled;
+    if (!enabled) {
+      this.respawnQueue = [];
     }
-
-    return entity;
   }
 
-  private createTRexEntity(position: THREE.Vector3): Entity | null {
-    const trexModel = this.assets['trex'];
-    if (!trexModel) {
-      console.error('T-Rex model not loaded');
-      return null;
-    }
-
-    const modelClone = SkeletonUtils.clone(trexModel) as THREE.Object3D;
-
-    if (trexModel.animations && trexModel.animations.length > 0) {
-      (modelClone as { animations?: THREE.AnimationClip[] }).animations = trexModel.animations;
+  private getActiveList(type: string): Entity[] {
+    let list = this.active.get(type);
+    if (!list) {
+      list = [];
+      this.active.set(type, list);
     }
-
-    const entity = new Entity();
-    entity.SetName(`TRex_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
-    entity.SetPosition(position);
-    entity.AddComponent(new TRexController(modelClone, this.scene, this.physicsWorld));
-
-    return entity;
+    return list;
   }
 
-  // ============================================================================
-  // APATOSAURUS SPAWNING
-  // ============================================================================
-
-  SpawnApatosaurus(): Entity | null {
-    if (this.apatosauruses.length >= this.maxApatosaurus) return null;
-
-    const position = this.GetRandomSpawnPosition();
-    const entity = this.createApatosaurusEntity(position);
-
-    if (entity && this.entityManager) {
-      this.entityManager.Add(entity);
-
-      if (this.initialSpawnComplete) {
-        this.initializeEntity(entity);
+  private forget(entity: IEntity): void {
+    for (const list of this.active.values()) {
+      const index = list.indexOf(entity as Entity);
+      if (index > -1) {
+        list.splice(index, 1);
+        return;
       }
-
-      this.apatosauruses.push(entity);
     }
+  }
 
-    return entity;
+  private respawnCap(type: string): number {
+    return getPrefab(type)?.spawn?.respawn?.max ?? 0;
   }
 
-  private createApatosaurusEntity(position: THREE.Vector3): Entity | null {
-    const apatosaurusModel = this.assets['apatosaurus'];
-    if (!apatosaurusModel) {
-      console.error('Apatosaurus model not loaded');
-      return null;
-    }
+  /** Whether another of a prefab fits under its respawn and tile caps */
+  private hasRoom(type: string): boolean {
+    const active = this.GetActive(type).length;
+    if (active >= this.respawnCap(type)) return false;
 
-    const modelClone = SkeletonUtils.clone(apatosaurusModel) as THREE.Object3D;
+    const tileCap = getPrefab(type)?.spawn?.tileCap;
+    return tileCap === undefined || active + (this.tiles?.GetSpawnCount(type) ?? 0) < tileCap;
+  }
 
-    if (apatosaurusModel.animations && apatosaurusModel.animations.length > 0) {
-      (modelClone as { animations?: THREE.AnimationClip[] }).animations = apatosaurusModel.animations;
+  /**
+   * Prefab to respawn a dead one as: one of its spawn.respawn.as
+   * alternatives if its chance comes up and it has room, else itself.
+   */
+  private respawnType(type: string): string {
+    const alternatives = getPrefab(type)?.spawn?.respawn?.as ?? {};
+    for (const [other, chance] of Object.entries(alternatives)) {
+      if (this.rng.chance(chance) && this.hasRoom(other)) {
+        return other;
+      }
     }
-
-    const entity = new Entity();
-    entity.SetName(`Apatosaurus_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
-    entity.SetPosition(position);
-    entity.AddComponent(new ApatosaurusController(modelClone, this.scene, this.physicsWorld));
-
-    return entity;
+    return type;
   }
 
   // ============================================================================
   // WEAPON PICKUP
   // ============================================================================
 
-  SpawnWeaponPickup(position: THREE.Vector3, weaponKey: string): Entity {
-    const weaponAssets = {
-      pistol: this.assets['pistol'],
-      smg: this.assets['smg'],
-      assaultRifle: this.assets['assaultRifle'],
-      smg2: this.assets['smg2'],
-    };
-
-    const entity = new Entity();
-    entity.SetName(`WeaponDrop_${weaponKey}_${Date.now()}`);
-    entity.SetPosition(position);
-    entity.AddComponent(new WeaponPickup(this.scene, weaponKey, position, weaponAssets));
+  SpawnWeaponPickup(dropPosition: THREE.Vector3, weaponKey: string): Entity | null {
+    const position = dropPosition.clone();
+    position.y = this.groundHeight(position.x, position.z);
 
-    if (this.entityManager) {
+    const entity = this.prefabs.Create('weaponPickup', position, { weaponKey });
+    if (entity && this.entityManager) {
       this.entityManager.Add(entity);
       this.initializeEntity(entity);
     }
@@ -387,7 +333,8 @@ export default class SpawnManager extends Component {
     const controller = entity.GetComponent('RabbitController') ??
       entity.GetComponent('FoxController') ??
       entity.GetComponent('TRexController') ??
-      entity.GetComponent('ApatosaurusController');
+      entity.GetComponent('ApatosaurusController') ??
+      entity.GetComponent('MutantController');
 
     if (controller && typeof (controller as { Cleanup?: () => void }).Cleanup === 'function') {
       (controller as { Cleanup: () => void }).Cleanup();
@@ -401,23 +348,18 @@ export default class SpawnManager extends Component {
   // ============================================================================
 
   private onAnimalDied = (msg: AnimalDiedEvent): void => {
-    // Remove from active list
-    if (msg.type === 'rabbit') {
-      this.rabbits = this.rabbits.filter((r) => r !== msg.entity);
-    } else if (msg.type === 'fox') {
-      this.foxes = this.foxes.filter((f) => f !== msg.entity);
-    } else if (msg.type === 'trex') {
-      this.trexes = this.trexes.filter((t) => t !== msg.entity);
-    } else if (msg.type === 'apatosaurus') {
-      this.apatosauruses = this.apatosauruses.filter((a) => a !== msg.entity);
-    }
+    // Tile animals die here too; they come back as the prefab they were built from
+    this.forget(msg.entity);
+    const type = getPrefabKey(msg.entity) ?? msg.type;
 
     // Queue respawn
-    this.respawnQueue.push({
-      type: msg.type as 'rabbit' | 'fox' | 'trex' | 'apatosaurus',
-      timer: this.respawnCooldown,
-      position: msg.position,
-    });
+    if (this.respawnEnabled && this.respawnCap(type) > 0) {
+      this.respawnQueue.push({
+        type,
+        timer: this.respawnCooldown,
+        position: msg.position,
+      });
+    }
 
     // Schedule entity cleanup
     setTimeout(() => {
@@ -426,7 +368,7 @@ export default class SpawnManager extends Component {
   };
 
   private onFoxWeaponDrop = (msg: FoxWeaponDropEvent): void => {
-    const roll = Math.random();
+    const roll = this.rng.next();
     let weaponKey = 'ak47';
     if (roll < 0.15) {
       weaponKey = 'nuke';
@@ -450,16 +392,18 @@ export default class SpawnManager extends Component {
   };
 
   private onNukeDetonated = (_msg: NukeDetonatedEvent): void => {
-    const allAnimals = [...this.rabbits, ...this.foxes, ...this.trexes, ...this.apatosauruses];
-    allAnimals.forEach((animal) => {
-      const controller = animal.GetComponent('RabbitController') ??
-        animal.GetComponent('FoxController') ??
-        animal.GetComponent('TRexController') ??
-        animal.GetComponent('ApatosaurusController');
-      if (controller && !(controller as { isDead?: boolean }).isDead) {
-        (controller as { TakeHit: (msg: { amount: number }) => void }).TakeHit({ amount: 9999 });
-      }
-    });
+    const nukeHit: HitEvent = {
+      topic: 'hit',
+      amount: 9999,
+      from: this.FindEntity('Player'),
+      damageType: 'explosion',
+      weapon: 'nuke',
+    };
+
+    // Every animal in the world, whether from this manager, a wave or a tile
+    const allAnimals = ANIMAL_CONTROLLERS.flatMap((name) => this.entityManager?.Query([name]) ?? []);
+    // Dead animals ignore hits in TakeHit
+    allAnimals.forEach((animal) => animal.Broadcast(nukeHit));
   };
 
   // ============================================================================
@@ -473,20 +417,7 @@ export default class SpawnManager extends Component {
       item.timer -= deltaTime;
 
       if (item.timer <= 0) {
-        if (item.type === 'rabbit') {
-          this.SpawnRabbit();
-        } else if (item.type === 'fox') {
-          // 25% chance to spawn T-Rex instead of fox
-          if (Math.random() < this.trexSpawnChance && this.trexes.length < this.maxTrex) {
-            this.SpawnTRex();
-          } else {
-            this.SpawnFox();
-          }
-        } else if (item.type === 'trex') {
-          this.SpawnTRex();
-        } else if (item.type === 'apatosaurus') {
-          this.SpawnApatosaurus();
-        }
+        this.Spawn(this.respawnType(item.type));
         this.respawnQueue.splice(i, 1);
       }
     }
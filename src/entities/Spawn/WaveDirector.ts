@@ -0,0 +1,287 @@
+/**
+ * Wave Director Component
+ *
+ * Drives Wave mode: schedules escalating waves through SpawnManager,
+ * waits for every wave animal to die (animal_died) or be lost (removed
+ * without dying, or fallen out of the world), then runs an intermission
+ * before the next wave. Lives on the SpawnManager entity
+ * next to the spawner it drives.
+ */
+
+import type * as THREE from 'three';
+import Component from '../../core/Component';
+import { WAVE_CONFIG, getWaveDefinition, type WaveAnimalType } from '../../config/waves.config';
+import type { AnimalDiedEvent, PlayerRespawnEvent } from '../../types/events.types';
+import type { IEntity } from '../../types/entity.types';
+import type { ComponentSaveData } from '../../types/save.types';
+import { SeededRandom } from '../../systems/SeededRandom';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Spawn manager interface */
+interface SpawnManagerComponent {
+  GetRandomSpawnPosition(center: THREE.Vector3 | null, minDist: number, maxDist: number): THREE.Vector3;
+  SpawnAnimal(type: WaveAnimalType, position: THREE.Vector3): IEntity | null;
+  Despawn(entity: IEntity): void;
+  SetRespawnEnabled(enabled: boolean): void;
+}
+
+/** Game manager interface */
+interface GameManagerComponent {
+  IsGameOver(): boolean;
+}
+
+/** UI Manager interface */
+interface UIManagerComponent {
+  SetWave(wave: number, remaining: number): void;
+  SetWaveCountdown(nextWave: number, seconds: number): void;
+}
+
+/** Level random service interface */
+interface RandomService {
+  GetStream(name: string): SeededRandom;
+}
+
+/** Terrain height service interface */
+interface TerrainService {
+  GetHeight(x: number, z: number): number;
+}
+
+/** Waiting for the next wave, or fighting the current one */
+type WavePhase = 'intermission' | 'active';
+
+// ============================================================================
+// WAVE DIRECTOR COMPONENT
+// ============================================================================
+
+export default class WaveDirector extends Component {
+  override name = 'WaveDirector';
+
+  // ============================================================================
+  // STATE
+  // ============================================================================
+
+  /** Current wave number (0 before the first wave) */
+  private wave: number = 0;
+
+  private phase: WavePhase = 'intermission';
+
+  /** Seconds left in the intermission */
+  private intermissionTimer: number = WAVE_CONFIG.firstWaveDelay;
+
+  /** Animals of the current wave not spawned yet */
+  private pending: WaveAnimalType[] = [];
+
+  /** Seconds until the next pending animal spawns */
+  private spawnTimer: number = 0;
+
+  /** Spawned wave animals still alive */
+  private alive: Set<IEntity> = new Set();
+
+  /** Last whole second shown on the countdown */
+  private shownCountdown: number = -1;
+
+  // ============================================================================
+  // REFERENCES
+  // ============================================================================
+
+  private spawnManager: SpawnManagerComponent | null = null;
+  private gameManager: GameManagerComponent | null = null;
+  private uimanager: UIManagerComponent | null = null;
+  private player: IEntity | null = null;
+  private terrain: TerrainService | null = null;
+  private rng: SeededRandom = new SeededRandom(Date.now());
+
+  // ============================================================================
+  // INITIALIZATION
+  // ============================================================================
+
+  override Initialize(): void {
+    this.spawnManager = this.GetComponent('SpawnManager') as SpawnManagerComponent | undefined ?? null;
+    this.gameManager = this.FindEntity('GameManager')?.GetComponent('GameManager') as GameManagerComponent | undefined ?? null;
+    this.uimanager = this.FindEntity('UIManager')?.GetComponent('UIManager') as UIManagerComponent | undefined ?? null;
+    this.player = this.FindEntity('Player') ?? null;
+
+    const level = this.FindEntity('Level');
+    this.terrain = level?.GetComponent('Terrain') as TerrainService | undefined ?? null;
+    const random = level?.GetComponent('Random') as RandomService | undefined;
+    if (random) {
+      this.rng = random.GetStream('waves');
+    }
+
+    // Waves replace the free-roam respawn loop
+    this.spawnManager?.SetRespawnEnabled(false);
+
+    this.Subscribe('animal_died', this.onAnimalDied);
+    this.Subscribe('player_respawn', this.onPlayerRespawn);
+  }
+
+  // ============================================================================
+  // EVENT HANDLERS
+  // ============================================================================
+
+  private onAnimalDied = (msg: AnimalDiedEvent): void => {
+    if (this.alive.delete(msg.entity)) {
+      this.updateWaveUI();
+    }
+  };
+
+  private onPlayerRespawn = (msg: PlayerRespawnEvent): void => {
+    if (msg.keepProgress) return;
+
+    // Fresh run: clear the field and start over from wave 1
+    this.alive.forEach((entity) => this.spawnManager?.Despawn(entity));
+    this.reset(0);
+  };
+
+  // ============================================================================
+  // WAVES
+  // ============================================================================
+
+  private startWave(): void {
+    this.wave++;
+    this.phase = 'active';
+    this.spawnTimer = 0;
+
+    const definition = getWaveDefinition(this.wave);
+    this.pending = [];
+    (Object.keys(definition) as WaveAnimalType[]).forEach((type) => {
+      for (let i = 0; i < (definition[type] ?? 0); i++) {
+        this.pending.push(type);
+      }
+    });
+
+    this.updateWaveUI();
+  }
+
+  /**
+   * Spawn a random animal from the pending list around the player.
+   */
+  private spawnNext(): void {
+    if (!this.spawnManager) {
+      this.pending = [];
+      return;
+    }
+
+    const index = this.rng.int(0, this.pending.length - 1);
+    const [type] = this.pending.splice(index, 1);
+
+    const { min, max } = WAVE_CONFIG.spawnDistance;
+    const position = this.spawnManager.GetRandomSpawnPosition(this.player?.position ?? null, min, max);
+    const entity = this.spawnManager.SpawnAnimal(type, position);
+    if (entity) {
+      this.alive.add(entity);
+    }
+
+    this.updateWaveUI();
+  }
+
+  /**
+   * Count wave animals that can no longer die as resolved: ones removed
+   * from the entity manager without an animal_died, and ones that fell
+   * through the ground (those are despawned).
+   */
+  private pruneLost(): void {
+    const before = this.alive.size;
+
+    for (const entity of this.alive) {
+      const removed = !entity.name || entity.parent?.Get(entity.name) !== entity;
+      const { x, y, z } = entity.position;
+      const fallen = y < (this.terrain?.GetHeight(x, z) ?? 0) - WAVE_CONFIG.lostDepth;
+
+      if (removed || fallen) {
+        this.alive.delete(entity);
+        if (!removed) {
+          this.spawnManager?.Despawn(entity);
+        }
+      }
+    }
+
+    if (this.alive.size !== before) {
+      this.updateWaveUI();
+    }
+  }
+
+  private endWave(): void {
+    this.reset(this.wave, WAVE_CONFIG.intermission);
+  }
+
+  /**
+   * Go to an intermission before wave `wave + 1`.
+   */
+  private reset(wave: number, delay: number = WAVE_CONFIG.firstWaveDelay): void {
+    this.wave = wave;
+    this.phase = 'intermission';
+    this.intermissionTimer = delay;
+    this.pending = [];
+    this.alive.clear();
+    this.shownCountdown = -1;
+  }
+
+  private updateWaveUI(): void {
+    this.uimanager?.SetWave(this.wave, this.pending.length + this.alive.size);
+  }
+
+  // ============================================================================
+  // SAVE / LOAD
+  // ============================================================================
+
+  SaveState(): ComponentSaveData {
+    return { wave: this.wave };
+  }
+
+  LoadState(data: ComponentSaveData): void {
+    // Wave animals are not saved, so the interrupted wave is replayed
+    if (typeof data.wave === 'number' && data.wave > 0) {
+      this.reset(data.wave - 1);
+    }
+  }
+
+  // ============================================================================
+  // ACCESSORS
+  // ============================================================================
+
+  /**
+   * Get the current wave number (0 before the first wave).
+   */
+  GetWave(): number {
+    return this.wave;
+  }
+
+  // ============================================================================
+  // UPDATE
+  // ============================================================================
+
+  override Update(deltaTime: number): void {
+    if (this.gameManager?.IsGameOver()) return;
+
+    if (this.phase === 'intermission') {
+      this.intermissionTimer -= deltaTime;
+
+      const seconds = Math.max(0, Math.ceil(this.intermissionTimer));
+      if (seconds !== this.shownCountdown) {
+        this.shownCountdown = seconds;
+        this.uimanager?.SetWaveCountdown(this.wave + 1, seconds);
+      }
+
+      if (this.intermissionTimer <= 0) {
+        this.startWave();
+      }
+      return;
+    }
+
+    this.pruneLost();
+
+    if (this.pending.length > 0) {
+      this.spawnTimer -= deltaTime;
+      while (this.pending.length > 0 && this.spawnTimer <= 0) {
+        this.spawnNext();
+        this.spawnTimer += WAVE_CONFIG.spawnInterval;
+      }
+    } else if (this.alive.size === 0) {
+      this.endWave();
+    }
+  }
+}
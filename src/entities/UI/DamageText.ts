@@ -28,6 +28,7 @@ export default class DamageText extends Component {
 
   private readonly position: THREE.Vector3;
   private readonly amount: number;
+  private readonly critical: boolean;
   private readonly lifeTime: number = 1.0;
   private startTime: number = 0;
   private mesh: THREE.Sprite | null = null;
@@ -38,11 +39,12 @@ export default class DamageText extends Component {
   // CONSTRUCTOR
   // ============================================================================
 
-  constructor(position: THREE.Vector3, amount: number, scene: THREE.Scene) {
+  constructor(position: THREE.Vector3, amount: number, scene: THREE.Scene, critical: boolean = false) {
     super();
     this.scene = scene;
     this.position = position.clone();
     this.amount = Math.round(amount);
+    this.critical = critical;
   }
 
   // ============================================================================
@@ -60,7 +62,7 @@ export default class DamageText extends Component {
 
     // Text style
     ctx.font = 'Bold 80px Arial';
-    ctx.fillStyle = '#ff0000'; // Red text
+    ctx.fillStyle = this.critical ? '#ffcc00' : '#ff0000'; // Gold for headshots, red otherwise
     ctx.strokeStyle = 'white';
     ctx.lineWidth = 4;
     ctx.textAlign = 'center';
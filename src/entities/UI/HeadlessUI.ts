@@ -0,0 +1,56 @@
+/**
+ * Headless UI Stand-ins
+ *
+ * No-op replacements for the DOM-bound UIManager and MiniMap components.
+ * Registered under the same component names so lookups via
+ * FindEntity('UIManager')?.GetComponent('UIManager') keep working when the
+ * game runs without a document (headless mode in entry.ts).
+ */
+
+import Component from '../../core/Component';
+
+// ============================================================================
+// HEADLESS UI MANAGER
+// ============================================================================
+
+export class HeadlessUIManager extends Component {
+  override name = 'UIManager';
+
+  SetAmmo(_mag: number, _rest: number): void {}
+
+  SetHealth(_health: number): void {}
+
+  SetScore(_kills: number): void {}
+
+  ShowScorePopup(_points: number, _multiplier: number, _labels: string[]): void {}
+
+  SetWave(_wave: number, _remaining: number): void {}
+
+  SetWaveCountdown(_nextWave: number, _seconds: number): void {}
+
+  SetWeaponName(_name: string): void {}
+
+  SetWeaponList(_owned: string[], _current: string): void {}
+
+  ShowUpgradeNotification(_weaponName: string): void {}
+
+  ShowGameOver(_stats: unknown): void {}
+
+  HideGameOver(): void {}
+
+  SetHuntStatus(_secondsLeft: number, _score: number): void {}
+
+  ShowHuntResults(_results: unknown, _leaderboard: unknown[], _canSubmit: boolean): void {}
+
+  ShowLeaderboard(_leaderboard: unknown[], _highlightRank: number): void {}
+
+  HideHuntResults(): void {}
+}
+
+// ============================================================================
+// HEADLESS MINIMAP
+// ============================================================================
+
+export class HeadlessMiniMap extends Component {
+  override name = 'MiniMap';
+}
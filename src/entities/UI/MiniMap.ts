@@ -1,14 +1,8 @@
 import * as THREE from 'three';
 import Component from '../../core/Component';
 import { Entity } from '../../core/Entity';
-import SpawnManager from '../Spawn/SpawnManager';
 import type { IEntity } from '../../types/entity.types';
 
-/** TileManager interface for getting entities */
-interface TileManagerComponent {
-    tiles: Array<{ entities: IEntity[] }>;
-}
-
 /** Animal controller interface for checking if dead */
 interface AnimalControllerLike {
     isDead?: boolean;
@@ -28,8 +22,6 @@ export default class MiniMap extends Component {
     private size = 200;
     private range = 50; // Map range in world units
 
-    private spawnManager: SpawnManager | null = null;
-    private tileManager: TileManagerComponent | null = null;
     private player: Entity | null = null;
 
     constructor() {
@@ -49,29 +41,12 @@ export default class MiniMap extends Component {
     }
 
     override Initialize(): void {
-        const spawnManagerEntity = this.FindEntity('SpawnManager');
-        if (spawnManagerEntity) {
-            this.spawnManager = spawnManagerEntity.GetComponent('SpawnManager') as SpawnManager;
-        }
-        const level = this.FindEntity('Level');
-        if (level) {
-            this.tileManager = level.GetComponent('TileManager') as TileManagerComponent | undefined ?? null;
-        }
         this.player = this.FindEntity('Player') as Entity;
     }
 
-    /** Get all entities with a specific component from TileManager */
+    /** Get all entities with a specific component */
     private getEntitiesWithComponent(componentName: string): IEntity[] {
-        if (!this.tileManager) return [];
-        const result: IEntity[] = [];
-        for (const tile of this.tileManager.tiles) {
-            for (const entity of tile.entities) {
-                if (entity.GetComponent(componentName)) {
-                    result.push(entity);
-                }
-            }
-        }
-        return result;
+        return this.parent?.parent?.Query([componentName]) ?? [];
     }
 
     /** Filter out dead animals from entity list */
@@ -124,19 +99,12 @@ export default class MiniMap extends Component {
         this.ctx.arc(this.size / 2, this.size / 2, 4, 0, Math.PI * 2);
         this.ctx.fill();
 
-        // Get animals from SpawnManager (filter out dead ones)
-        if (this.spawnManager) {
-            this.drawEntities(this.filterAlive(this.spawnManager.GetRabbits(), 'RabbitController'), 'white', playerRot, playerPos, 3);
-            this.drawEntities(this.filterAlive(this.spawnManager.GetFoxes(), 'FoxController'), 'orange', playerRot, playerPos, 4);
-            this.drawEntities(this.filterAlive(this.spawnManager.GetTrexes(), 'TRexController'), 'red', playerRot, playerPos, 6);
-            this.drawEntities(this.filterAlive(this.spawnManager.GetApatosauruses(), 'ApatosaurusController'), 'cyan', playerRot, playerPos, 5);
-        }
-
-        // Also get animals from TileManager (dynamically spawned, filter dead)
+        // Draw animals, wherever they were spawned (filter out dead ones)
         this.drawEntities(this.filterAlive(this.getEntitiesWithComponent('RabbitController'), 'RabbitController'), 'white', playerRot, playerPos, 3);
         this.drawEntities(this.filterAlive(this.getEntitiesWithComponent('FoxController'), 'FoxController'), 'orange', playerRot, playerPos, 4);
         this.drawEntities(this.filterAlive(this.getEntitiesWithComponent('TRexController'), 'TRexController'), 'red', playerRot, playerPos, 6);
         this.drawEntities(this.filterAlive(this.getEntitiesWithComponent('ApatosaurusController'), 'ApatosaurusController'), 'cyan', playerRot, playerPos, 5);
+        this.drawEntities(this.filterAlive(this.getEntitiesWithComponent('MutantController'), 'MutantController'), 'magenta', playerRot, playerPos, 5);
 
         // Draw pickups (weapon pickups = yellow, ammo pickups = green)
         this.drawEntities(this.getEntitiesWithComponent('WeaponPickup'), 'yellow', playerRot, playerPos, 4, true);
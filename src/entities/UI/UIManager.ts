@@ -6,6 +6,42 @@
  */
 
 import Component from '../../core/Component';
+import type { LeaderboardEntry } from '../../types/save.types';
+
+/** Run stats for the game-over screen */
+interface GameOverStats {
+  kills: number;
+  score: number;
+  timeSurvived: number;
+  animalKills: Partial<Record<string, number>>;
+  weaponName: string;
+  wave?: number;
+}
+
+/** Results for the hunt-over screen */
+interface HuntResults {
+  score: number;
+  kills: number;
+  animalKills: Partial<Record<string, number>>;
+  timeUp: boolean;
+}
+
+/** Format seconds as m:ss */
+function formatTime(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+/** Replace an element's children with one div per line */
+function setLines(el: HTMLElement, lines: string[]): void {
+  el.innerHTML = '';
+  lines.forEach((line) => {
+    const div = document.createElement('div');
+    div.innerText = line;
+    el.appendChild(div);
+  });
+}
 
 // ============================================================================
 // UI MANAGER COMPONENT
@@ -55,6 +91,57 @@ export default class UIManager extends Component {
     if (el) el.innerText = `KILLS: ${kills}`;
   }
 
+  /**
+   * Float a "+points" popup under the crosshair with bonus labels.
+   * Each popup removes itself when its CSS animation ends.
+   */
+  ShowScorePopup(points: number, multiplier: number, labels: string[]): void {
+    const container = document.getElementById('score_popups');
+    if (!container || points <= 0) return;
+
+    const popup = document.createElement('div');
+    popup.className = 'score-popup';
+
+    const pointsEl = document.createElement('div');
+    pointsEl.className = 'score-popup-points';
+    pointsEl.innerText = multiplier > 1 ? `+${points} x${multiplier}` : `+${points}`;
+    popup.appendChild(pointsEl);
+
+    labels.forEach((label) => {
+      const labelEl = document.createElement('div');
+      labelEl.className = 'score-popup-label';
+      labelEl.innerText = label;
+      popup.appendChild(labelEl);
+    });
+
+    popup.addEventListener('animationend', () => popup.remove());
+    container.appendChild(popup);
+  }
+
+  // ============================================================================
+  // WAVE
+  // ============================================================================
+
+  /**
+   * Show the wave counter with animals left to kill (Wave mode only).
+   */
+  SetWave(wave: number, remaining: number): void {
+    const el = document.getElementById('wave_counter');
+    if (!el) return;
+    el.innerText = `WAVE ${wave} - ${remaining} LEFT`;
+    el.style.visibility = 'visible';
+  }
+
+  /**
+   * Show the countdown to the next wave during an intermission.
+   */
+  SetWaveCountdown(nextWave: number, seconds: number): void {
+    const el = document.getElementById('wave_counter');
+    if (!el) return;
+    el.innerText = `WAVE ${nextWave} IN ${seconds}`;
+    el.style.visibility = 'visible';
+  }
+
   // ============================================================================
   // WEAPON NAME
   // ============================================================================
@@ -127,6 +214,124 @@ export default class UIManager extends Component {
     }, 3000);
   }
 
+  // ============================================================================
+  // GAME OVER
+  // ============================================================================
+
+  /**
+   * Show the game-over overlay with run stats.
+   * Respawn/menu buttons are wired by entry.ts.
+   */
+  ShowGameOver(stats: GameOverStats): void {
+    const overlay = document.getElementById('game_over');
+    const statsEl = document.getElementById('game_over_stats');
+    if (!overlay) return;
+
+    if (statsEl) {
+      const lines = [
+        `KILLS: ${stats.kills}`,
+        `SCORE: ${stats.score}`,
+        `SURVIVED: ${formatTime(stats.timeSurvived)}`,
+        `BEST WEAPON: ${stats.weaponName}`,
+      ];
+
+      if (stats.wave) {
+        lines.splice(1, 0, `WAVE: ${stats.wave}`);
+      }
+
+      Object.entries(stats.animalKills).forEach(([animal, count]) => {
+        if (count) lines.push(`${animal.toUpperCase()}: ${count}`);
+      });
+
+      setLines(statsEl, lines);
+    }
+
+    overlay.style.visibility = 'visible';
+  }
+
+  /**
+   * Hide the game-over overlay.
+   */
+  HideGameOver(): void {
+    const overlay = document.getElementById('game_over');
+    if (overlay) overlay.style.visibility = 'hidden';
+  }
+
+  // ============================================================================
+  // HUNT MODE
+  // ============================================================================
+
+  /**
+   * Show the hunt timer and score (Hunt mode only).
+   */
+  SetHuntStatus(secondsLeft: number, score: number): void {
+    const el = document.getElementById('hunt_status');
+    if (!el) return;
+    el.innerText = `${formatTime(secondsLeft)} - ${score} PTS`;
+    el.style.visibility = 'visible';
+  }
+
+  /**
+   * Show the hunt-over overlay with results and the leaderboard.
+   * The name entry is only shown when the score places.
+   */
+  ShowHuntResults(results: HuntResults, leaderboard: LeaderboardEntry[], canSubmit: boolean): void {
+    const overlay = document.getElementById('hunt_over');
+    if (!overlay) return;
+
+    const titleEl = document.getElementById('hunt_title');
+    if (titleEl) titleEl.innerText = results.timeUp ? "TIME'S UP" : 'YOU DIED';
+
+    const statsEl = document.getElementById('hunt_results');
+    if (statsEl) {
+      const lines = [`SCORE: ${results.score}`, `KILLS: ${results.kills}`];
+      Object.entries(results.animalKills).forEach(([animal, count]) => {
+        if (count) lines.push(`${animal.toUpperCase()}: ${count}`);
+      });
+      setLines(statsEl, lines);
+    }
+
+    const entryEl = document.getElementById('hunt_name_entry');
+    if (entryEl) entryEl.style.display = canSubmit ? 'block' : 'none';
+
+    this.ShowLeaderboard(leaderboard, -1);
+    overlay.style.visibility = 'visible';
+
+    if (canSubmit) {
+      document.getElementById('hunt_name')?.focus();
+    }
+  }
+
+  /**
+   * Fill the leaderboard list, highlighting one rank (-1 for none).
+   * Hides the name entry once a rank is highlighted.
+   */
+  ShowLeaderboard(leaderboard: LeaderboardEntry[], highlightRank: number): void {
+    const listEl = document.getElementById('leaderboard');
+    if (listEl) {
+      listEl.innerHTML = '';
+      leaderboard.forEach((entry, rank) => {
+        const li = document.createElement('li');
+        li.innerText = `${entry.name} - ${entry.score}`;
+        if (rank === highlightRank) li.className = 'highlight';
+        listEl.appendChild(li);
+      });
+    }
+
+    if (highlightRank >= 0) {
+      const entryEl = document.getElementById('hunt_name_entry');
+      if (entryEl) entryEl.style.display = 'none';
+    }
+  }
+
+  /**
+   * Hide the hunt-over overlay.
+   */
+  HideHuntResults(): void {
+    const overlay = document.getElementById('hunt_over');
+    if (overlay) overlay.style.visibility = 'hidden';
+  }
+
   // ============================================================================
   // INITIALIZATION
   // ============================================================================
@@ -141,6 +346,20 @@ export default class UIManager extends Component {
   // ============================================================================
 
   override Cleanup(): void {
+    this.HideGameOver();
+    this.HideHuntResults();
+    const hud = document.getElementById('game_hud');
+    if (hud) hud.style.visibility = 'hidden';
+
+    const wave = document.getElementById('wave_counter');
+    if (wave) wave.style.visibility = 'hidden';
+
+    const hunt = document.getElementById('hunt_status');
+    if (hunt) hunt.style.visibility = 'hidden';
+
+    const popups = document.getElementById('score_popups');
+    if (popups) popups.innerHTML = '';
+
     if (this.upgradeTimeout) {
       clearTimeout(this.upgradeTimeout);
       this.upgradeTimeout = null;
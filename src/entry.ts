@@ -1,522 +1,34 @@
 /**
  * entry.ts
  *
- * This is the first file loaded. It sets up the Renderer,
- * Scene, Physics and Entities. It also starts the render loop and
- * handles window resizes.
+ * This is the first file loaded in the browser. It loads the assets and
+ * starts FPSGameApp, which sets up the Renderer, Scene, Physics and
+ * Entities and runs the render loop.
  *
  */
 
-import * as THREE from 'three';
-import { AmmoHelper, Ammo, createConvexHullShape } from './core/AmmoLib';
-import { EntityManager } from './core/EntityManager';
-import { Entity } from './core/Entity';
-import ForestLighting from './entities/Level/ForestLighting';
-import ForestNavmesh from './entities/Level/ForestNavmesh';
-import TileManager from './entities/Level/TileManager';
-import PlayerControls from './entities/Player/PlayerControls';
-import PlayerPhysics from './entities/Player/PlayerPhysics';
-import Stats from 'three/examples/jsm/libs/stats.module';
-import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
-import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader';
-import { SkeletonUtils } from 'three/examples/jsm/utils/SkeletonUtils';
-import NpcCharacterController from './entities/NPC/CharacterController';
-import Input from './core/Input';
+import { FPSGameApp, type FPSGameOptions } from './FPSGameApp';
+import { loadGameAssets } from './GameAssets';
 
-// Rabbit and Fox models
-import rabbit from '../public/models/low_poly_rabbit.glb';
-import fox from '../public/models/fox_animated.glb';
-
-import mutant from './assets/animations/mutant.fbx';
-import idleAnim from './assets/animations/mutant breathing idle.fbx';
-import attackAnim from './assets/animations/mutant punch.fbx';
-import walkAnim from './assets/animations/mutant walking.fbx';
-import runAnim from './assets/animations/mutant run.fbx';
-import dieAnim from './assets/animations/mutant dying.fbx';
-
-// Weapon models
-import pistol from '../public/models/weapons/pistol.glb';
-import smg from '../public/models/weapons/smg.glb';
-import assaultRifle from '../public/models/weapons/assault_rifle.glb';
-import smg2 from '../public/models/weapons/smg2.glb';
-import muzzleFlash from './assets/muzzle_flash.glb';
-// Legacy AK47 for backwards compat
-import ak47 from './assets/guns/ak47/ak47.glb';
-// New weapons
-import minigun from './assets/minigun.glb';
-import shotgun from './assets/shotgun.glb';
-import grenadeLauncher from './assets/grenade_launcher.glb';
-
-// Environment models
-import tree1 from './assets/tree1.glb';
-import tree2 from './assets/tree2.glb';
-import grassBush from './assets/grass_bush.glb';
-import rock from './assets/rock.glb';
-// Shot sound
-import ak47Shot from './assets/sounds/ak47_shot.wav';
-
-// Dinosaurs
-import trex from './assets/dinos/Trex.fbx';
-import apatosaurus from './assets/dinos/Apatosaurus.fbx';
-
-// Ammo box
-import ammobox from './assets/ammo/AmmoBox.fbx';
-import ammoboxTexD from './assets/ammo/AmmoBox_D.tga.png';
-import ammoboxTexN from './assets/ammo/AmmoBox_N.tga.png';
-import ammoboxTexM from './assets/ammo/AmmoBox_M.tga.png';
-import ammoboxTexR from './assets/ammo/AmmoBox_R.tga.png';
-import ammoboxTexAO from './assets/ammo/AmmoBox_AO.tga.png';
-
-// Bullet Decal
-import decalColor from './assets/decals/decal_c.jpg';
-import decalNormal from './assets/decals/decal_n.jpg';
-import decalAlpha from './assets/decals/decal_a.jpg';
-
-// Sky
-import skyTex from './assets/sky.jpg';
-
-import Weapon from './entities/Player/Weapon';
-import UIManager from './entities/UI/UIManager';
-import AmmoBox from './entities/AmmoBox/AmmoBox';
-import LevelBulletDecals from './entities/Level/BulletDecals';
-import PlayerHealth from './entities/Player/PlayerHealth';
-import GameManager from './entities/Game/GameManager';
-import SpawnManager from './entities/Spawn/SpawnManager';
-import MiniMap from './entities/UI/MiniMap';
-
-interface Assets {
-  rabbit?: any;
-  fox?: any;
-  mutant?: THREE.Group;
-  idleAnim?: THREE.Group;
-  walkAnim?: THREE.Group;
-  runAnim?: THREE.Group;
-  attackAnim?: THREE.Group;
-  dieAnim?: THREE.Group;
-  pistol?: THREE.Object3D;
-  smg?: THREE.Object3D;
-  assaultRifle?: THREE.Object3D;
-  smg2?: THREE.Object3D;
-  ak47?: any;
-  minigun?: THREE.Object3D;
-  shotgun?: THREE.Object3D;
-  grenadeLauncher?: THREE.Object3D;
-  muzzleFlash?: THREE.Object3D;
-  ak47Shot?: AudioBuffer;
-  trex?: THREE.Group;
-  apatosaurus?: THREE.Group;
-  ammobox?: THREE.Group;
-  ammoboxTexD?: THREE.Texture;
-  ammoboxTexN?: THREE.Texture;
-  ammoboxTexM?: THREE.Texture;
-  ammoboxTexR?: THREE.Texture;
-  ammoboxTexAO?: THREE.Texture;
-  decalColor?: THREE.Texture;
-  decalNormal?: THREE.Texture;
-  decalAlpha?: THREE.Texture;
-  skyTex?: THREE.Texture;
-  ammoboxShape?: Ammo.btConvexHullShape;
-  // Environment models
-  tree1?: THREE.Object3D;
-  tree2?: THREE.Object3D;
-  grassBush?: THREE.Object3D;
-  rock?: THREE.Object3D;
-  [key: string]: any;
-}
-
-interface MutantAnims {
-  idle?: THREE.AnimationClip;
-  walk?: THREE.AnimationClip;
-  run?: THREE.AnimationClip;
-  attack?: THREE.AnimationClip;
-  die?: THREE.AnimationClip;
-  [key: string]: THREE.AnimationClip | undefined;
-}
-
-class FPSGameApp {
-  private lastFrameTime: number | null = null;
-  private assets: Assets = {};
-  private animFrameId = 0;
-  private mutantAnims: MutantAnims = {};
-  private scene!: THREE.Scene;
-  private renderer!: THREE.WebGLRenderer;
-  private camera!: THREE.PerspectiveCamera;
-  private listener!: THREE.AudioListener;
-  private stats!: Stats;
-  private physicsWorld!: Ammo.btDiscreteDynamicsWorld;
-  private entityManager!: EntityManager;
-
-  constructor() {
-    AmmoHelper.Init(() => {
-      this.Init();
-    }, 1);
-  }
-
-  Init(): void {
-    this.LoadAssets();
-    this.SetupGraphics();
-    this.SetupStartButton();
-  }
-
-  SetupGraphics(): void {
-    this.scene = new THREE.Scene();
-    this.renderer = new THREE.WebGLRenderer({ antialias: true });
-    this.renderer.shadowMap.enabled = true;
-    this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
-
-    this.renderer.toneMapping = THREE.ReinhardToneMapping;
-    this.renderer.toneMappingExposure = 1;
-    // Use outputEncoding for compatibility with three.js versions before r152
-    (this.renderer as any).outputEncoding = (THREE as any).sRGBEncoding;
-
-    this.camera = new THREE.PerspectiveCamera();
-    this.camera.near = 0.01;
-
-    // create an AudioListener and add it to the camera
-    this.listener = new THREE.AudioListener();
-    this.camera.add(this.listener);
-
-    // renderer
-    this.renderer.setPixelRatio(window.devicePixelRatio);
-
-    this.WindowResizeHanlder();
-    window.addEventListener('resize', this.WindowResizeHanlder);
-
-    document.body.appendChild(this.renderer.domElement);
-
-    // Stats.js
-    this.stats = new Stats();
-    document.body.appendChild(this.stats.dom);
-  }
-
-  SetupPhysics(): void {
-    // Physics configuration
-    const collisionConfiguration = new Ammo.btDefaultCollisionConfiguration();
-    const dispatcher = new Ammo.btCollisionDispatcher(collisionConfiguration);
-    const broadphase = new Ammo.btDbvtBroadphase();
-    const solver = new Ammo.btSequentialImpulseConstraintSolver();
-    this.physicsWorld = new Ammo.btDiscreteDynamicsWorld(
-      dispatcher,
-      broadphase,
-      solver,
-      collisionConfiguration
-    );
-    this.physicsWorld.setGravity(new Ammo.btVector3(0.0, -9.81, 0.0));
-    // Note: Ammo.addFunction and getOverlappingPairCache not available in ammo.js 0.0.10
-    // Ghost pair callback disabled - using raycast collision detection instead
-
-    // Physics debug drawer
-    // this.debugDrawer = new DebugDrawer(this.scene, this.physicsWorld);
-    // this.debugDrawer.enable();
-  }
-
-  SetAnim(name: string, obj: THREE.Group): void {
-    const clip = obj.animations[0];
-    this.mutantAnims[name] = clip;
-  }
-
-  PromiseProgress(
-    proms: Promise<any>[],
-    progress_cb: (percent: number) => void
-  ): Promise<any[]> {
-    let d = 0;
-    progress_cb(0);
-    for (const p of proms) {
-      p.then(() => {
-        d++;
-        progress_cb((d / proms.length) * 100);
-      });
-    }
-    return Promise.all(proms);
-  }
-
-  AddAsset<T>(asset: string, loader: { loadAsync: (url: string) => Promise<T> }, name: string): Promise<void> {
-    return loader.loadAsync(asset).then((result) => {
-      this.assets[name] = result;
-    });
-  }
-
-  OnProgress(p: number): void {
-    const progressbar = document.getElementById('progress');
-    if (progressbar) {
-      progressbar.style.width = `${p}%`;
-    }
-  }
-
-  HideProgress(): void {
-    this.OnProgress(0);
-  }
-
-  SetupStartButton(): void {
-    const startBtn = document.getElementById('start_game');
-    if (startBtn) {
-      startBtn.addEventListener('click', this.StartGame);
-    }
-  }
-
-  ShowMenu(visible = true): void {
-    const menu = document.getElementById('menu');
-    if (menu) {
-      menu.style.visibility = visible ? 'visible' : 'hidden';
-    }
-  }
-
-  async LoadAssets(): Promise<void> {
-    const gltfLoader = new GLTFLoader();
-    const fbxLoader = new FBXLoader();
-    const objLoader = new OBJLoader();
-    const audioLoader = new THREE.AudioLoader();
-    const texLoader = new THREE.TextureLoader();
-    const promises: Promise<void>[] = [];
-
-    // Rabbit and Fox
-    promises.push(this.AddAsset(rabbit, gltfLoader, 'rabbit'));
-    promises.push(this.AddAsset(fox, gltfLoader, 'fox'));
-    // Mutant
-    promises.push(this.AddAsset(mutant, fbxLoader, 'mutant'));
-    promises.push(this.AddAsset(idleAnim, fbxLoader, 'idleAnim'));
-    promises.push(this.AddAsset(walkAnim, fbxLoader, 'walkAnim'));
-    promises.push(this.AddAsset(runAnim, fbxLoader, 'runAnim'));
-    promises.push(this.AddAsset(attackAnim, fbxLoader, 'attackAnim'));
-    promises.push(this.AddAsset(dieAnim, fbxLoader, 'dieAnim'));
-    // Dinosaurs
-    promises.push(this.AddAsset(trex, fbxLoader, 'trex'));
-    promises.push(this.AddAsset(apatosaurus, fbxLoader, 'apatosaurus'));
-    // Weapons
-    promises.push(this.AddAsset(pistol, gltfLoader, 'pistol'));
-    promises.push(this.AddAsset(smg, gltfLoader, 'smg'));
-    promises.push(this.AddAsset(assaultRifle, gltfLoader, 'assaultRifle'));
-    promises.push(this.AddAsset(smg2, gltfLoader, 'smg2'));
-    promises.push(this.AddAsset(ak47, gltfLoader, 'ak47')); // Legacy
-    promises.push(this.AddAsset(minigun, gltfLoader, 'minigun'));
-    promises.push(this.AddAsset(shotgun, gltfLoader, 'shotgun'));
-    promises.push(this.AddAsset(grenadeLauncher, gltfLoader, 'grenadeLauncher'));
-    promises.push(this.AddAsset(muzzleFlash, gltfLoader, 'muzzleFlash'));
-    // Environment models
-    promises.push(this.AddAsset(tree1, gltfLoader, 'tree1'));
-    promises.push(this.AddAsset(tree2, gltfLoader, 'tree2'));
-    promises.push(this.AddAsset(grassBush, gltfLoader, 'grassBush'));
-    promises.push(this.AddAsset(rock, gltfLoader, 'rock'));
-    promises.push(this.AddAsset(ak47Shot, audioLoader, 'ak47Shot'));
-    // Ammo box
-    promises.push(this.AddAsset(ammobox, fbxLoader, 'ammobox'));
-    promises.push(this.AddAsset(ammoboxTexD, texLoader, 'ammoboxTexD'));
-    promises.push(this.AddAsset(ammoboxTexN, texLoader, 'ammoboxTexN'));
-    promises.push(this.AddAsset(ammoboxTexM, texLoader, 'ammoboxTexM'));
-    promises.push(this.AddAsset(ammoboxTexR, texLoader, 'ammoboxTexR'));
-    promises.push(this.AddAsset(ammoboxTexAO, texLoader, 'ammoboxTexAO'));
-    // Decal
-    promises.push(this.AddAsset(decalColor, texLoader, 'decalColor'));
-    promises.push(this.AddAsset(decalNormal, texLoader, 'decalNormal'));
-    promises.push(this.AddAsset(decalAlpha, texLoader, 'decalAlpha'));
-
-    promises.push(this.AddAsset(skyTex, texLoader, 'skyTex'));
-
-    await this.PromiseProgress(promises, this.OnProgress.bind(this));
-
-    this.assets['muzzleFlash'] = this.assets['muzzleFlash'].scene;
-
-    // Extract weapon scenes
-    this.assets['pistol'] = this.assets['pistol'].scene;
-    this.assets['smg'] = this.assets['smg'].scene;
-    this.assets['assaultRifle'] = this.assets['assaultRifle'].scene;
-    this.assets['smg2'] = this.assets['smg2'].scene;
-    this.assets['minigun'] = this.assets['minigun'].scene;
-    this.assets['shotgun'] = this.assets['shotgun'].scene;
-    this.assets['grenadeLauncher'] = this.assets['grenadeLauncher'].scene;
-
-    // Extract environment model scenes
-    this.assets['tree1'] = this.assets['tree1'].scene;
-    this.assets['tree2'] = this.assets['tree2'].scene;
-    this.assets['grassBush'] = this.assets['grassBush'].scene;
-    this.assets['rock'] = this.assets['rock'].scene;
-
-    // Extract mutant anims
-    this.SetAnim('idle', this.assets['idleAnim']);
-    this.SetAnim('walk', this.assets['walkAnim']);
-    this.SetAnim('run', this.assets['runAnim']);
-    this.SetAnim('attack', this.assets['attackAnim']);
-    this.SetAnim('die', this.assets['dieAnim']);
-
-    this.assets['ak47'].scene.animations = this.assets['ak47'].animations;
-
-    // Set ammo box textures and other props
-    this.assets['ammobox'].scale.set(0.01, 0.01, 0.01);
-    this.assets['ammobox'].traverse((child) => {
-      child.castShadow = true;
-      child.receiveShadow = true;
-
-      if ((child as THREE.Mesh).isMesh) {
-        (child as THREE.Mesh).material = new THREE.MeshStandardMaterial({
-          map: this.assets['ammoboxTexD'],
-          aoMap: this.assets['ammoboxTexAO'],
-          normalMap: this.assets['ammoboxTexN'],
-          metalness: 1,
-          metalnessMap: this.assets['ammoboxTexM'],
-          roughnessMap: this.assets['ammoboxTexR'],
-          color: new THREE.Color(0.4, 0.4, 0.4),
-        });
-      }
-    });
-
-    this.assets['ammoboxShape'] = createConvexHullShape(this.assets['ammobox']);
-
-    this.HideProgress();
-    this.ShowMenu();
-  }
-
-  EntitySetup(): void {
-    this.entityManager = new EntityManager();
-
-    // Level entity with lighting, navmesh, and tile manager
-    const levelEntity = new Entity();
-    levelEntity.SetName('Level');
-    levelEntity.AddComponent(new ForestLighting(this.scene));
-    levelEntity.AddComponent(new ForestNavmesh());
-    levelEntity.AddComponent(
-      new TileManager(this.scene, this.physicsWorld, this.assets, this.entityManager)
-    );
-    this.entityManager.Add(levelEntity);
-
-    // Player spawns at center of forest
-    const playerEntity = new Entity();
-    playerEntity.SetName('Player');
-    playerEntity.AddComponent(new PlayerPhysics(this.physicsWorld, Ammo));
-    playerEntity.AddComponent(new PlayerControls(this.camera, this.scene));
-    // Pass all weapon assets to Weapon component
-    const weaponAssets = {
-      pistol: this.assets['pistol'],
-      smg: this.assets['smg'],
-      assaultRifle: this.assets['assaultRifle'],
-      smg2: this.assets['smg2'],
-      minigun: this.assets['minigun'],
-      shotgun: this.assets['shotgun'],
-      grenadeLauncher: this.assets['grenadeLauncher'],
-    };
-    playerEntity.AddComponent(
-      new Weapon(
-        this.camera,
-        weaponAssets,
-        this.assets['muzzleFlash'],
-        this.physicsWorld,
-        this.assets['ak47Shot'],
-        this.listener
-      )
-    );
-    playerEntity.AddComponent(new PlayerHealth());
-    playerEntity.SetPosition(new THREE.Vector3(0, 1.5, 0));
-    this.entityManager.Add(playerEntity);
-
-    // Legacy mutant code - commented out, replaced with SpawnManager
-    // const npcLocations = [
-    //   [10.8, 0.0, 22.0],
-    // ];
-    // npcLocations.forEach((v,i)=>{
-    //   const npcEntity = new Entity();
-    //   npcEntity.SetPosition(new THREE.Vector3(v[0], v[1], v[2]));
-    //   npcEntity.SetName(`Mutant${i}`);
-    //   npcEntity.AddComponent(new NpcCharacterController(SkeletonUtils.clone(this.assets['mutant']), this.mutantAnims, this.scene, this.physicsWorld));
-    //   npcEntity.AddComponent(new AttackTrigger(this.physicsWorld));
-    //   npcEntity.AddComponent(new CharacterCollision(this.physicsWorld));
-    //   npcEntity.AddComponent(new DirectionDebug(this.scene));
-    //   this.entityManager.Add(npcEntity);
-    // });
-
-    const uimanagerEntity = new Entity();
-    uimanagerEntity.SetName('UIManager');
-    uimanagerEntity.AddComponent(new UIManager());
-    uimanagerEntity.AddComponent(new MiniMap());
-    this.entityManager.Add(uimanagerEntity);
-
-    // Game Manager for score tracking and weapon progression
-    const gameManagerEntity = new Entity();
-    gameManagerEntity.SetName('GameManager');
-    gameManagerEntity.AddComponent(new GameManager());
-    this.entityManager.Add(gameManagerEntity);
-
-    // Spawn Manager for rabbits and foxes
-    const spawnManagerEntity = new Entity();
-    spawnManagerEntity.SetName('SpawnManager');
-    spawnManagerEntity.AddComponent(new SpawnManager(this.scene, this.physicsWorld, this.assets));
-    this.entityManager.Add(spawnManagerEntity);
-
-    const ammoLocations = [
-      [15, 0.0, 15],
-      [-15, 0.0, -15],
-      [20, 0.0, -10],
-    ];
-
-    ammoLocations.forEach((loc, i) => {
-      const box = new Entity();
-      box.SetName(`AmmoBox${i}`);
-      box.AddComponent(
-        new AmmoBox(
-          this.scene,
-          this.assets['ammobox'].clone(),
-          this.assets['ammoboxShape'],
-          this.physicsWorld
-        )
-      );
-      box.SetPosition(new THREE.Vector3(loc[0], loc[1], loc[2]));
-      this.entityManager.Add(box);
-    });
-
-    this.entityManager.EndSetup();
-
-    this.scene.add(this.camera);
-    this.animFrameId = window.requestAnimationFrame(this.OnAnimationFrameHandler);
-  }
-
-  StartGame = (): void => {
-    window.cancelAnimationFrame(this.animFrameId);
-    Input.ClearEventListners();
-
-    // Create entities and physics
-    this.scene.clear();
-    this.SetupPhysics();
-    this.EntitySetup();
-    this.ShowMenu(false);
-  };
-
-  // resize
-  WindowResizeHanlder = (): void => {
-    const { innerHeight, innerWidth } = window;
-    this.renderer.setSize(innerWidth, innerHeight);
-    this.camera.aspect = innerWidth / innerHeight;
-    this.camera.updateProjectionMatrix();
-  };
-
-  // render loop
-  OnAnimationFrameHandler = (t: number): void => {
-    if (this.lastFrameTime === null) {
-      this.lastFrameTime = t;
-    }
-
-    const delta = t - this.lastFrameTime;
-    let timeElapsed = Math.min(1.0 / 30.0, delta * 0.001);
-    this.Step(timeElapsed);
-    this.lastFrameTime = t;
-
-    this.animFrameId = window.requestAnimationFrame(this.OnAnimationFrameHandler);
-  };
-
-  PhysicsUpdate = (world: Ammo.btDiscreteDynamicsWorld, timeStep: number): void => {
-    this.entityManager.PhysicsUpdate(world, timeStep);
+/**
+ * Read headless options from the page URL, e.g. ?headless&ticks=5000&dt=0.02&mode=wave
+ */
+function getOptionsFromUrl(): FPSGameOptions {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has('headless')) return {};
+
+  const ticks = parseInt(params.get('ticks') ?? '', 10);
+  const timeStep = parseFloat(params.get('dt') ?? '');
+  const mode = params.get('mode');
+  return {
+    headless: true,
+    ticks: Number.isFinite(ticks) && ticks > 0 ? ticks : undefined,
+    timeStep: Number.isFinite(timeStep) && timeStep > 0 ? timeStep : undefined,
+    mode: mode === 'wave' || mode === 'hunt' ? mode : undefined,
   };
-
-  Step(elapsedTime: number): void {
-    this.physicsWorld.stepSimulation(elapsedTime, 10);
-    // this.debugDrawer.update();
-
-    this.entityManager.Update(elapsedTime);
-
-    this.renderer.render(this.scene, this.camera);
-    this.stats.update();
-  }
 }
 
 let _APP: FPSGameApp | null = null;
 window.addEventListener('DOMContentLoaded', () => {
-  _APP = new FPSGameApp();
+  _APP = new FPSGameApp(loadGameAssets, getOptionsFromUrl());
 });
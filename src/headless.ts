@@ -0,0 +1,117 @@
+/**
+ * headless.ts
+ *
+ * Node entry for headless runs (`npm run headless`). The three.js loaders
+ * need a DOM, so models are replaced by placeholder meshes and the game is
+ * stepped without a browser. Built by vite.headless.config.js.
+ *
+ *   npm run headless -- --ticks 600 --dt 0.02 --mode wave
+ */
+
+import * as THREE from 'three';
+import { createConvexHullShape } from './core/AmmoLib';
+import { FPSGameApp } from './FPSGameApp';
+import type { Assets } from './GameAssets';
+import type { GameMode } from './config/game.config';
+import { getPrefabAssetUrls } from './config/prefabs.config';
+
+/** The parts of Node's process global the runner uses */
+declare const process: { argv: string[]; exit(code?: number): never };
+
+/** Animation clip names the controllers look up, per placeholder model */
+const PLACEHOLDER_CLIPS: Record<string, string[]> = {
+  rabbit: ['Idle', 'Walk', 'Run', 'Death'],
+  fox: ['Idle', 'Walk', 'Gallop', 'Attack', 'Death'],
+  trex: ['Idle', 'Walk', 'Run', 'Attack', 'Death'],
+  apatosaurus: ['Idle', 'Walk', 'Run', 'Death'],
+};
+
+const MUTANT_ANIMS = ['idleAnim', 'walkAnim', 'runAnim', 'attackAnim', 'dieAnim'];
+
+/** Weapons map their clips by index: shoot, idle, reload */
+const WEAPON_CLIPS = ['Shoot', 'Idle', 'Reload'];
+
+const WEAPON_MODELS = ['pistol', 'smg', 'assaultRifle', 'smg2', 'minigun', 'shotgun', 'grenadeLauncher'];
+
+const PROP_MODELS = ['tree1', 'tree2', 'grassBush', 'rock'];
+
+const TEXTURES = [
+  'ammoboxTexD', 'ammoboxTexN', 'ammoboxTexM', 'ammoboxTexR', 'ammoboxTexAO',
+  'decalColor', 'decalNormal', 'decalAlpha', 'skyTex', 'grass',
+];
+
+/**
+ * A unit box in a group, standing in for a loaded model.
+ */
+function placeholderModel(clips: string[] = []): THREE.Group {
+  const group = new THREE.Group();
+  group.add(new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), new THREE.MeshStandardMaterial()));
+  group.animations = clips.map((name) => new THREE.AnimationClip(name, 1, []));
+  return group;
+}
+
+/**
+ * Assets in the shape loadGameAssets returns them, built from placeholders.
+ */
+export function createPlaceholderAssets(): Assets {
+  const assets: Assets = {};
+
+  for (const [key, clips] of Object.entries(PLACEHOLDER_CLIPS)) {
+    const model = placeholderModel(clips);
+    // Rabbit and fox are glTF results; the dinosaurs are FBX groups
+    assets[key] = key === 'rabbit' || key === 'fox' ? { scene: model, animations: model.animations } : model;
+  }
+
+  assets.mutant = placeholderModel();
+  for (const key of MUTANT_ANIMS) {
+    assets[key] = placeholderModel([key.replace('Anim', '')]);
+  }
+
+  for (const key of WEAPON_MODELS) {
+    assets[key] = placeholderModel(WEAPON_CLIPS);
+  }
+  for (const key of [...PROP_MODELS, 'muzzleFlash']) {
+    assets[key] = placeholderModel();
+  }
+  assets.ak47 = { scene: placeholderModel() };
+
+  for (const key of TEXTURES) {
+    assets[key] = new THREE.Texture();
+  }
+
+  assets.ammobox = placeholderModel();
+  assets.ammoboxShape = createConvexHullShape(assets.ammobox);
+
+  // Models only a prefab declares (e.g. a modded animal)
+  for (const key of Object.keys(getPrefabAssetUrls())) {
+    assets[key] ??= placeholderModel();
+  }
+
+  return assets;
+}
+
+/**
+ * Read --ticks, --dt and --mode from the command line.
+ */
+function parseArgs(argv: string[]): { ticks?: number; timeStep?: number; mode?: GameMode } {
+  const value = (flag: string): string | undefined => {
+    const idx = argv.indexOf(flag);
+    return idx > -1 ? argv[idx + 1] : undefined;
+  };
+
+  const ticks = parseInt(value('--ticks') ?? '', 10);
+  const timeStep = parseFloat(value('--dt') ?? '');
+  const mode = value('--mode');
+  return {
+    ticks: Number.isFinite(ticks) && ticks > 0 ? ticks : undefined,
+    timeStep: Number.isFinite(timeStep) && timeStep > 0 ? timeStep : undefined,
+    mode: mode === 'wave' || mode === 'hunt' ? mode : undefined,
+  };
+}
+
+new FPSGameApp(async () => createPlaceholderAssets(), {
+  headless: true,
+  ...parseArgs(process.argv.slice(2)),
+  // Timers left by the run (e.g. corpse cleanup) would keep Node alive
+  onHeadlessComplete: () => process.exit(0),
+});
@@ -0,0 +1,125 @@
+/**
+ * Combo Scorer
+ *
+ * Turns kills into points: base score plus multi-kill, long-range and
+ * headshot bonuses, scaled by the current kill-streak multiplier.
+ * Time is passed in by the caller so headless runs stay deterministic.
+ */
+
+import { SCORING_CONFIG } from '../config/scoring.config';
+import type { HitZone } from '../types/entity.types';
+
+/**
+ * A kill to score.
+ */
+export interface ScoredKill {
+  /** AnimalConfig.scoreValue of the victim */
+  baseScore: number;
+
+  /** Run time in seconds when the kill happened */
+  time: number;
+
+  /** Killer-to-victim distance, if known */
+  distance?: number;
+
+  /** Hit zone of the killing hit, if known */
+  zone?: HitZone;
+}
+
+/**
+ * Points awarded for a kill and why.
+ */
+export interface ScoreAward {
+  /** Total points (already multiplied) */
+  points: number;
+
+  /** Streak multiplier applied */
+  multiplier: number;
+
+  /** Kills in the current multi-kill chain (1 for a single kill) */
+  chain: number;
+
+  /** Bonus labels for the popup, e.g. 'HEADSHOT' */
+  labels: string[];
+}
+
+/**
+ * Combo Scorer - tracks streak and multi-kill chain between kills.
+ */
+export class ComboScorer {
+  private streak: number = 0;
+  private chain: number = 0;
+  private lastKillTime: number = -Infinity;
+
+  /**
+   * Score a kill and advance the streak/chain.
+   */
+  registerKill(kill: ScoredKill): ScoreAward {
+    const { streak, multiKill, longRange, headshot } = SCORING_CONFIG;
+    const sinceLast = kill.time - this.lastKillTime;
+    this.lastKillTime = kill.time;
+
+    this.streak = sinceLast > streak.timeout ? 1 : this.streak + 1;
+    this.chain = sinceLast <= multiKill.window ? this.chain + 1 : 1;
+
+    const labels: string[] = [];
+    let bonus = 0;
+
+    if (this.chain > 1) {
+      bonus += kill.baseScore * multiKill.bonusPerKill * (this.chain - 1);
+      const label = this.getChainLabel(this.chain);
+      if (label) labels.push(label);
+    }
+
+    if (kill.zone === 'head') {
+      bonus += kill.baseScore * headshot.bonus;
+      labels.push('HEADSHOT');
+    }
+
+    if (kill.distance !== undefined && kill.distance >= longRange.distance) {
+      bonus += kill.baseScore * longRange.bonus;
+      labels.push('LONG SHOT');
+    }
+
+    const multiplier = this.getMultiplier();
+    return {
+      points: Math.round((kill.baseScore + bonus) * multiplier),
+      multiplier,
+      chain: this.chain,
+      labels,
+    };
+  }
+
+  /**
+   * Current streak multiplier.
+   */
+  getMultiplier(): number {
+    const { killsPerStep, multiplierStep, maxMultiplier } = SCORING_CONFIG.streak;
+    const steps = Math.floor(this.streak / killsPerStep);
+    return Math.min(maxMultiplier, 1 + steps * multiplierStep);
+  }
+
+  /**
+   * Current kill streak.
+   */
+  getStreak(): number {
+    return this.streak;
+  }
+
+  /**
+   * Drop the streak and chain (e.g. on player death).
+   */
+  reset(): void {
+    this.streak = 0;
+    this.chain = 0;
+    this.lastKillTime = -Infinity;
+  }
+
+  private getChainLabel(chain: number): string | null {
+    let label: string | null = null;
+    for (const [count, text] of Object.entries(SCORING_CONFIG.multiKill.labels)) {
+      if (chain >= Number(count)) label = text;
+    }
+    return label;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Damage
+ *
+ * Turns a raw HitEvent amount into the damage an animal actually takes:
+ * hit-zone multiplier (bullets only), then resistance for the damage
+ * type, then flat armor.
+ */
+
+import * as THREE from 'three';
+import type { AnimalConfig, HitZone } from '../types/entity.types';
+import type { HitEvent } from '../types/events.types';
+
+/**
+ * Outcome of resolving a hit against an animal.
+ */
+export interface DamageResult {
+  /** Damage to subtract from health */
+  amount: number;
+
+  /** Zone the hit landed in ('body' when no zone matched) */
+  zone: HitZone;
+}
+
+/** Smallest damage a non-zero hit can be reduced to by armor */
+const MIN_DAMAGE = 1;
+
+// Temp objects reused between calls
+const _local = new THREE.Vector3();
+const _inverse = new THREE.Quaternion();
+
+/**
+ * Find the hit zone containing a world-space point.
+ * Zones are tested in config order; the first match wins.
+ */
+export function resolveHitZone(
+  config: AnimalConfig,
+  model: THREE.Object3D,
+  point: THREE.Vector3
+): { zone: HitZone; multiplier: number } {
+  if (config.hitZones?.length) {
+    // Bring the point into the animal's facing frame
+    _local.copy(point).sub(model.position);
+    _local.applyQuaternion(_inverse.copy(model.quaternion).invert());
+
+    for (const hz of config.hitZones) {
+      const { min = {}, max = {} } = hz;
+      if (
+        _local.x >= (min.x ?? -Infinity) && _local.x <= (max.x ?? Infinity) &&
+        _local.y >= (min.y ?? -Infinity) && _local.y <= (max.y ?? Infinity) &&
+        _local.z >= (min.z ?? -Infinity) && _local.z <= (max.z ?? Infinity)
+      ) {
+        return { zone: hz.zone, multiplier: hz.multiplier };
+      }
+    }
+  }
+
+  return { zone: 'body', multiplier: 1 };
+}
+
+/**
+ * Compute the damage an animal takes from a hit.
+ */
+export function resolveDamage(
+  msg: HitEvent,
+  config: AnimalConfig,
+  model: THREE.Object3D
+): DamageResult {
+  let amount = msg.amount;
+  let zone: HitZone = 'body';
+
+  // Only bullets carry a meaningful impact point
+  if (msg.damageType === 'bullet' && msg.hitResult) {
+    const hit = resolveHitZone(config, model, msg.hitResult.intersectionPoint);
+    zone = hit.zone;
+    amount *= hit.multiplier;
+  }
+
+  if (msg.damageType) {
+    amount *= config.resistances?.[msg.damageType] ?? 1;
+  }
+
+  if (config.armor && amount > 0) {
+    amount = Math.max(MIN_DAMAGE, amount - config.armor);
+  }
+
+  return { amount, zone };
+}
@@ -0,0 +1,63 @@
+/**
+ * Fixed Timestep
+ *
+ * Accumulator that turns variable frame times into a whole number of
+ * fixed-length physics ticks. Physics only ever advances by the same
+ * step, so collisions and jumps behave the same at 30 or 144 fps; what is
+ * left over becomes the blend factor renderers use between the last two
+ * ticks. Gameplay updates still run once per frame with the frame time.
+ */
+
+/**
+ * Fixed Timestep - runs fixed ticks for the time that has passed.
+ */
+export class FixedTimestep {
+  /** Length of one tick in seconds */
+  readonly step: number;
+
+  /** Most ticks run for a single frame; time beyond that is dropped */
+  readonly maxSubsteps: number;
+
+  private accumulator = 0;
+
+  constructor(step: number, maxSubsteps: number) {
+    this.step = step;
+    this.maxSubsteps = maxSubsteps;
+  }
+
+  /**
+   * How far the current moment is between the previous tick (0) and the
+   * latest one (1).
+   */
+  get alpha(): number {
+    return this.accumulator / this.step;
+  }
+
+  /**
+   * Add a frame's elapsed time and run `tick` once for every whole step it
+   * completes. Returns the number of ticks run.
+   */
+  advance(elapsed: number, tick: (step: number) => void): number {
+    this.accumulator += elapsed;
+
+    let ticks = 0;
+    while (this.accumulator >= this.step && ticks < this.maxSubsteps) {
+      tick(this.step);
+      this.accumulator -= this.step;
+      ticks++;
+    }
+
+    // Too far behind (slow frame, tab in the background): catch up no
+    // further, rather than spiral into ever longer frames
+    if (this.accumulator >= this.step) {
+      this.accumulator %= this.step;
+    }
+
+    return ticks;
+  }
+
+  /** Forget leftover time, e.g. after a pause */
+  reset(): void {
+    this.accumulator = 0;
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Leaderboard
+ *
+ * Local top-N list of Hunt mode scores, kept in localStorage next to
+ * the save slot. Entries are sorted by score, highest first.
+ */
+
+import { CONFIG } from '../config/game.config';
+import type { LeaderboardEntry } from '../types/save.types';
+import { getStorage } from './SaveSystem';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** localStorage key for the leaderboard */
+export const LEADERBOARD_STORAGE_KEY = 'bunnyhunt.leaderboard';
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * Read the leaderboard. Unreadable data counts as empty.
+ */
+export function readLeaderboard(): LeaderboardEntry[] {
+  const json = getStorage()?.getItem(LEADERBOARD_STORAGE_KEY);
+  if (!json) return [];
+
+  try {
+    const data: unknown = JSON.parse(json);
+    if (!Array.isArray(data)) return [];
+
+    return data
+      .filter((e): e is LeaderboardEntry =>
+        !!e && typeof e.name === 'string' && typeof e.score === 'number' &&
+        typeof e.kills === 'number' && typeof e.date === 'number'
+      )
+      .sort((a, b) => b.score - a.score)
+      .slice(0, CONFIG.hunt.leaderboardSize);
+  } catch (e) {
+    console.warn('Leaderboard: corrupt data', e);
+    return [];
+  }
+}
+
+/**
+ * Whether a score would make it onto the leaderboard.
+ */
+export function qualifiesForLeaderboard(score: number): boolean {
+  if (score <= 0) return false;
+
+  const entries = readLeaderboard();
+  return entries.length < CONFIG.hunt.leaderboardSize ||
+    score > entries[entries.length - 1].score;
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Insert an entry and persist the trimmed list.
+ * Returns the entry's 0-based rank, or -1 if it did not place.
+ */
+export function addLeaderboardEntry(entry: LeaderboardEntry): number {
+  const entries = readLeaderboard();
+
+  // Ties go below existing entries
+  let rank = entries.findIndex((e) => entry.score > e.score);
+  if (rank === -1) rank = entries.length;
+  if (rank >= CONFIG.hunt.leaderboardSize) return -1;
+
+  entries.splice(rank, 0, entry);
+  entries.length = Math.min(entries.length, CONFIG.hunt.leaderboardSize);
+
+  try {
+    getStorage()?.setItem(LEADERBOARD_STORAGE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.warn('Leaderboard: failed to write', e);
+  }
+
+  return rank;
+}
+
+/**
+ * Clean up a typed name for display (trimmed, upper-case, length-capped).
+ */
+export function sanitizeLeaderboardName(name: string): string {
+  const clean = name.trim().toUpperCase().slice(0, CONFIG.hunt.maxNameLength);
+  return clean || 'HUNTER';
+}
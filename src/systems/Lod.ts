@@ -0,0 +1,163 @@
+/**
+ * Level of Detail
+ *
+ * Helpers for drawing distant objects cheaply: picking a detail level by
+ * distance, simplifying a mesh by vertex clustering, and baking an object
+ * into a side-on impostor texture for camera-facing billboards.
+ */
+
+import * as THREE from 'three';
+
+/** Per-component attribute readers (works for interleaved attributes too) */
+const COMPONENT_GETTERS = ['getX', 'getY', 'getZ', 'getW'] as const;
+
+/** How much detail an object is drawn with */
+export type LodLevel = 'full' | 'simplified' | 'impostor';
+
+/** Baked side view of an object */
+export interface Impostor {
+  texture: THREE.Texture;
+  /** Size of the baked view in the object's own units */
+  width: number;
+  height: number;
+  /** Bottom of the object relative to its origin */
+  minY: number;
+  /** Free the render target the view was baked into */
+  dispose(): void;
+}
+
+/**
+ * Detail level for an object at a distance.
+ */
+export function lodLevelFor(distance: number, simplifiedDistance: number, impostorDistance: number): LodLevel {
+  if (distance >= impostorDistance) return 'impostor';
+  if (distance >= simplifiedDistance) return 'simplified';
+  return 'full';
+}
+
+/**
+ * Simplify a geometry by vertex clustering: vertices are snapped to a grid
+ * of `cells` cells along the longest side, each cell keeps its first vertex
+ * (with that vertex's normal, UV and colour) and triangles that collapse
+ * are dropped. Material groups are kept.
+ */
+export function simplifyGeometry(geometry: THREE.BufferGeometry, cells: number): THREE.BufferGeometry {
+  const position = geometry.getAttribute('position');
+  if (!geometry.boundingBox) geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  const size = box.getSize(new THREE.Vector3());
+  const cellSize = Math.max(size.x, size.y, size.z) / cells || 1;
+
+  // Representative vertex per occupied cell
+  const cellVertex = new Map<string, number>();
+  const remap = new Uint32Array(position.count);
+  const kept: number[] = [];
+  for (let i = 0; i < position.count; i++) {
+    const key = `${Math.floor((position.getX(i) - box.min.x) / cellSize)},`
+      + `${Math.floor((position.getY(i) - box.min.y) / cellSize)},`
+      + `${Math.floor((position.getZ(i) - box.min.z) / cellSize)}`;
+    let vertex = cellVertex.get(key);
+    if (vertex === undefined) {
+      vertex = kept.length;
+      kept.push(i);
+      cellVertex.set(key, vertex);
+    }
+    remap[i] = vertex;
+  }
+
+  const simplified = new THREE.BufferGeometry();
+  for (const name of Object.keys(geometry.attributes)) {
+    const source = geometry.getAttribute(name);
+    const array = new Float32Array(kept.length * source.itemSize);
+    kept.forEach((i, vertex) => {
+      for (let c = 0; c < source.itemSize; c++) {
+        array[vertex * source.itemSize + c] = source[COMPONENT_GETTERS[c]](i);
+      }
+    });
+    simplified.setAttribute(name, new THREE.BufferAttribute(array, source.itemSize, source.normalized));
+  }
+
+  // Rebuild triangles per material group
+  const index = geometry.getIndex();
+  const vertexAt = (n: number): number => remap[index ? index.getX(n) : n];
+  const triangleCount = index ? index.count : position.count;
+  const groups = geometry.groups.length > 0
+    ? geometry.groups
+    : [{ start: 0, count: triangleCount, materialIndex: 0 }];
+
+  const indices: number[] = [];
+  for (const group of groups) {
+    const start = indices.length;
+    const end = Math.min(group.start + group.count, triangleCount);
+    for (let n = group.start; n + 2 < end; n += 3) {
+      const a = vertexAt(n);
+      const b = vertexAt(n + 1);
+      const c = vertexAt(n + 2);
+      if (a === b || b === c || a === c) continue;
+      indices.push(a, b, c);
+    }
+    if (geometry.groups.length > 0) {
+      simplified.addGroup(start, indices.length - start, group.materialIndex);
+    }
+  }
+  simplified.setIndex(indices);
+  simplified.computeBoundingSphere();
+  return simplified;
+}
+
+/**
+ * Render an object side-on into a transparent texture. The object is
+ * moved to its origin unrotated for the bake and put back afterwards;
+ * the renderer's target and clear colour are restored.
+ */
+export function bakeImpostor(renderer: THREE.WebGLRenderer, object: THREE.Object3D, textureSize: number): Impostor {
+  const parent = object.parent;
+  const position = object.position.clone();
+  const quaternion = object.quaternion.clone();
+
+  // Flat, even light so the billboard can be tinted by the time of day
+  const bakeScene = new THREE.Scene();
+  bakeScene.add(new THREE.AmbientLight(0xffffff, 1));
+  bakeScene.add(object);
+  object.position.set(0, 0, 0);
+  object.quaternion.identity();
+  object.updateMatrixWorld(true);
+
+  const box = new THREE.Box3().setFromObject(object);
+  const center = box.getCenter(new THREE.Vector3());
+  const size = box.getSize(new THREE.Vector3());
+  // Wide enough for the object seen from any side
+  const width = Math.max(size.x, size.z);
+  const height = size.y;
+
+  const camera = new THREE.OrthographicCamera(-width / 2, width / 2, height / 2, -height / 2, 0.01, size.z + 2);
+  camera.position.set(center.x, center.y, box.max.z + 1);
+  camera.lookAt(center);
+
+  const target = new THREE.WebGLRenderTarget(textureSize, textureSize);
+  const previousTarget = renderer.getRenderTarget();
+  const previousColor = renderer.getClearColor(new THREE.Color());
+  const previousAlpha = renderer.getClearAlpha();
+
+  renderer.setRenderTarget(target);
+  renderer.setClearColor(0x000000, 0);
+  renderer.clear();
+  renderer.render(bakeScene, camera);
+
+  renderer.setRenderTarget(previousTarget);
+  renderer.setClearColor(previousColor, previousAlpha);
+
+  bakeScene.remove(object);
+  parent?.add(object);
+  object.position.copy(position);
+  object.quaternion.copy(quaternion);
+  object.updateMatrixWorld(true);
+
+  return {
+    texture: target.texture,
+    width,
+    height,
+    minY: box.min.y,
+    dispose: () => target.dispose(),
+  };
+}
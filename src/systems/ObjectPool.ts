@@ -0,0 +1,111 @@
+/**
+ * Object Pool
+ *
+ * Keeps released objects around for reuse so tile streaming does not clone
+ * models and build physics bodies every time the player crosses a border.
+ * A keyed pool holds one pool per kind, e.g. per prop model or animal type.
+ */
+
+/**
+ * How a pool makes, parks and throws away its objects.
+ */
+export interface PoolHooks<T> {
+  /** Build a new object when the pool is empty */
+  create(): T;
+
+  /** Take an object out of the world as it goes back into the pool */
+  release?(item: T): void;
+
+  /** Free an object the pool has no room for (or on clear) */
+  dispose?(item: T): void;
+}
+
+/**
+ * Object Pool - free list with an optional size cap.
+ */
+export class ObjectPool<T> {
+  private readonly hooks: PoolHooks<T>;
+  private readonly maxSize: number;
+  private readonly free: T[] = [];
+
+  constructor(hooks: PoolHooks<T>, maxSize: number = Infinity) {
+    this.hooks = hooks;
+    this.maxSize = maxSize;
+  }
+
+  /** Objects waiting to be reused */
+  get available(): number {
+    return this.free.length;
+  }
+
+  /**
+   * Take a pooled object, or create one if none are free.
+   */
+  acquire(): T {
+    return this.free.pop() ?? this.hooks.create();
+  }
+
+  /**
+   * Give an object back. It is disposed instead if the pool is full.
+   */
+  release(item: T): void {
+    this.hooks.release?.(item);
+    if (this.free.length < this.maxSize) {
+      this.free.push(item);
+    } else {
+      this.hooks.dispose?.(item);
+    }
+  }
+
+  /**
+   * Dispose every pooled object.
+   */
+  clear(): void {
+    for (const item of this.free) {
+      this.hooks.dispose?.(item);
+    }
+    this.free.length = 0;
+  }
+}
+
+/**
+ * Keyed Pool - one ObjectPool per key, created on first use.
+ */
+export class KeyedPool<K extends string, T> {
+  private readonly hooksFor: (key: K) => PoolHooks<T>;
+  private readonly maxSize: number;
+  private readonly pools = new Map<K, ObjectPool<T>>();
+
+  constructor(hooksFor: (key: K) => PoolHooks<T>, maxSize: number = Infinity) {
+    this.hooksFor = hooksFor;
+    this.maxSize = maxSize;
+  }
+
+  /** Objects of a kind waiting to be reused */
+  available(key: K): number {
+    return this.pools.get(key)?.available ?? 0;
+  }
+
+  acquire(key: K): T {
+    return this.pool(key).acquire();
+  }
+
+  release(key: K, item: T): void {
+    this.pool(key).release(item);
+  }
+
+  clear(): void {
+    for (const pool of this.pools.values()) {
+      pool.clear();
+    }
+  }
+
+  private pool(key: K): ObjectPool<T> {
+    let pool = this.pools.get(key);
+    if (!pool) {
+      pool = new ObjectPool(this.hooksFor(key), this.maxSize);
+      this.pools.set(key, pool);
+    }
+    return pool;
+  }
+}
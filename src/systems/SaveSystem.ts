@@ -0,0 +1,190 @@
+/**
+ * Save System
+ *
+ * Collects state from components into a versioned JSON snapshot and
+ * restores it. Components opt in by implementing SaveState/LoadState
+ * (see IComponent); only named entities are saved, so transient
+ * entities (animals, pickups) are regenerated from the world seed.
+ *
+ * Older snapshots are upgraded step by step through registered migrations.
+ */
+
+import type { IEntityManager } from '../types/entity.types';
+import type { SaveSnapshot, SaveMigration, EntitySaveData } from '../types/save.types';
+import type { GameMode } from '../config/game.config';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Current snapshot schema version */
+export const SAVE_VERSION = 1;
+
+/** localStorage key for the save slot */
+export const SAVE_STORAGE_KEY = 'bunnyhunt.save';
+
+/** Migrations keyed by the version they upgrade from */
+const migrations = new Map<number, SaveMigration>();
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/**
+ * Register a migration that upgrades a snapshot from `fromVersion`
+ * to `fromVersion + 1`.
+ */
+export function registerSaveMigration(fromVersion: number, migrate: SaveMigration): void {
+  migrations.set(fromVersion, migrate);
+}
+
+/**
+ * Upgrade raw snapshot JSON to the current version.
+ * Returns null if the data is unreadable, newer than this build,
+ * or a migration step is missing.
+ */
+export function migrateSnapshot(raw: unknown): SaveSnapshot | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  let data = raw as Record<string, unknown>;
+  let version = typeof data.version === 'number' ? data.version : 0;
+
+  if (version > SAVE_VERSION) {
+    console.warn(`SaveSystem: snapshot version ${version} is newer than ${SAVE_VERSION}`);
+    return null;
+  }
+
+  while (version < SAVE_VERSION) {
+    const migrate = migrations.get(version);
+    if (!migrate) {
+      console.warn(`SaveSystem: no migration from version ${version}`);
+      return null;
+    }
+    data = migrate(data);
+    version++;
+    data.version = version;
+  }
+
+  if (!data.entities || typeof data.entities !== 'object') return null;
+  return data as unknown as SaveSnapshot;
+}
+
+// ============================================================================
+// SNAPSHOT
+// ============================================================================
+
+/**
+ * Build a snapshot from every named entity's saveable components.
+ */
+export function createSnapshot(
+  entityManager: IEntityManager,
+  seed: number | null,
+  mode: GameMode = 'freeroam'
+): SaveSnapshot {
+  const entities: Record<string, EntitySaveData> = {};
+
+  for (const entity of entityManager.GetAll()) {
+    if (!entity.name) continue;
+
+    const entityData: EntitySaveData = {};
+    for (const key in entity.components) {
+      const data = entity.components[key].SaveState?.();
+      if (data !== undefined) {
+        entityData[key] = data;
+      }
+    }
+
+    if (Object.keys(entityData).length > 0) {
+      entities[entity.name] = entityData;
+    }
+  }
+
+  return {
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+    seed,
+    mode,
+    entities,
+  };
+}
+
+/**
+ * Hand saved state back to components. Entities or components missing
+ * from the current tree are skipped.
+ */
+export function applySnapshot(entityManager: IEntityManager, snapshot: SaveSnapshot): void {
+  for (const entityName in snapshot.entities) {
+    const entity = entityManager.Get(entityName);
+    if (!entity) continue;
+
+    const entityData = snapshot.entities[entityName];
+    for (const componentName in entityData) {
+      const component = entity.GetComponent(componentName);
+      try {
+        component?.LoadState?.(entityData[componentName]);
+      } catch (e) {
+        console.warn(`SaveSystem: failed to load ${entityName}.${componentName}`, e);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Whether localStorage is usable (false in headless runs or private mode).
+ */
+export function getStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a snapshot to the save slot.
+ */
+export function writeSave(snapshot: SaveSnapshot): boolean {
+  const storage = getStorage();
+  if (!storage) return false;
+
+  try {
+    storage.setItem(SAVE_STORAGE_KEY, JSON.stringify(snapshot));
+    return true;
+  } catch (e) {
+    console.warn('SaveSystem: failed to write save', e);
+    return false;
+  }
+}
+
+/**
+ * Read and migrate the snapshot in the save slot.
+ */
+export function readSave(): SaveSnapshot | null {
+  const json = getStorage()?.getItem(SAVE_STORAGE_KEY);
+  if (!json) return null;
+
+  try {
+    return migrateSnapshot(JSON.parse(json));
+  } catch (e) {
+    console.warn('SaveSystem: corrupt save', e);
+    return null;
+  }
+}
+
+/**
+ * Whether a loadable save exists.
+ */
+export function hasSave(): boolean {
+  return readSave() !== null;
+}
+
+/**
+ * Delete the save slot.
+ */
+export function clearSave(): void {
+  getStorage()?.removeItem(SAVE_STORAGE_KEY);
+}
@@ -0,0 +1,75 @@
+/**
+ * Seeded Random
+ *
+ * Deterministic pseudo-random number generator (Mulberry32).
+ * The same seed always yields the same sequence, which makes world
+ * generation, spawns and AI decisions reproducible.
+ */
+
+/**
+ * Hash a list of integers/strings into a 32-bit seed.
+ * Used to derive independent streams from the world seed.
+ */
+export function hashSeed(...parts: Array<number | string>): number {
+  let h = 0x811c9dc5;
+  for (const part of parts) {
+    const str = String(part);
+    for (let i = 0; i < str.length; i++) {
+      h ^= str.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    // Separator so ('ab', 'c') and ('a', 'bc') differ
+    h ^= 0xff;
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Seeded Random - Mulberry32 generator with range helpers.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Next float in [0, 1) */
+  next(): number {
+    let t = (this.state = (this.state + 0x6d2b79f5) >>> 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Float in [min, max) */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /** Integer in [min, max] (inclusive) */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /** True with the given probability */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /** Float in [-0.5, 0.5) scaled by `scale` */
+  spread(scale: number): number {
+    return (this.next() - 0.5) * scale;
+  }
+
+  /** Angle in [0, 2π) */
+  angle(): number {
+    return this.next() * Math.PI * 2;
+  }
+
+  /** Random element of a non-empty array */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Spatial Hash
+ *
+ * Uniform grid over the ground plane for gameplay proximity queries
+ * (explosions, pickups, aggro). Items are bucketed by the cell their x/z
+ * position falls in, so a query only looks at the cells it overlaps
+ * instead of every item in the world. Distances are measured on the
+ * ground plane; callers that care about height check it on the results.
+ */
+
+import type * as THREE from 'three';
+
+/** Anything with a world position */
+export interface Positioned {
+  readonly position: THREE.Vector3;
+}
+
+/**
+ * Spatial Hash - buckets items into square cells on the x/z plane.
+ */
+export class SpatialHash<T extends Positioned> {
+  private size: number;
+  private readonly cells = new Map<string, Set<T>>();
+
+  /** Cell each item is filed under, to find it again when it moves */
+  private readonly cellOf = new Map<T, string>();
+
+  constructor(cellSize: number) {
+    this.size = cellSize;
+  }
+
+  /** Side length of a cell */
+  get cellSize(): number {
+    return this.size;
+  }
+
+  /** Number of items in the grid */
+  get count(): number {
+    return this.cellOf.size;
+  }
+
+  /**
+   * Change the cell size, refiling every item.
+   */
+  resize(cellSize: number): void {
+    if (cellSize === this.size) return;
+    this.size = cellSize;
+
+    const items = Array.from(this.cellOf.keys());
+    this.cells.clear();
+    this.cellOf.clear();
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+
+  /**
+   * Add an item at its current position.
+   */
+  insert(item: T): void {
+    if (this.cellOf.has(item)) {
+      this.update(item);
+      return;
+    }
+    this.file(item, this.keyAt(item.position.x, item.position.z));
+  }
+
+  /**
+   * Take an item out of the grid.
+   */
+  remove(item: T): void {
+    const key = this.cellOf.get(item);
+    if (key === undefined) return;
+    this.unfile(item, key);
+  }
+
+  /**
+   * Refile an item after it moved. Items not in the grid are ignored.
+   */
+  update(item: T): void {
+    const key = this.cellOf.get(item);
+    if (key === undefined) return;
+
+    const next = this.keyAt(item.position.x, item.position.z);
+    if (next === key) return;
+    this.unfile(item, key);
+    this.file(item, next);
+  }
+
+  /**
+   * Remove every item.
+   */
+  clear(): void {
+    this.cells.clear();
+    this.cellOf.clear();
+  }
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  /**
+   * Items within `radius` of `center`.
+   */
+  queryRadius(center: THREE.Vector3, radius: number, filter?: (item: T) => boolean): T[] {
+    const result: T[] = [];
+    const radiusSq = radius * radius;
+
+    this.forEachInSquare(center.x, center.z, radius, (item) => {
+      if (this.distanceSq(center, item) <= radiusSq && (!filter || filter(item))) {
+        result.push(item);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Items within `range` of `origin` and at most `halfAngle` radians off
+   * `direction`, e.g. what an animal can see ahead of it.
+   */
+  queryCone(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    range: number,
+    halfAngle: number,
+    filter?: (item: T) => boolean
+  ): T[] {
+    const result: T[] = [];
+    const length = Math.hypot(direction.x, direction.z);
+    if (length === 0) return result;
+
+    const dirX = direction.x / length;
+    const dirZ = direction.z / length;
+    const rangeSq = range * range;
+    const minCos = Math.cos(halfAngle);
+
+    this.forEachInSquare(origin.x, origin.z, range, (item) => {
+      const dx = item.position.x - origin.x;
+      const dz = item.position.z - origin.z;
+      const distSq = dx * dx + dz * dz;
+      if (distSq === 0 || distSq > rangeSq) return;
+
+      const cos = (dx * dirX + dz * dirZ) / Math.sqrt(distSq);
+      if (cos >= minCos && (!filter || filter(item))) {
+        result.push(item);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Closest item to `position` within `maxRadius`, or null.
+   */
+  nearest(position: THREE.Vector3, maxRadius: number, filter?: (item: T) => boolean): T | null {
+    let best: T | null = null;
+    let bestSq = maxRadius * maxRadius;
+
+    this.forEachInSquare(position.x, position.z, maxRadius, (item) => {
+      const distSq = this.distanceSq(position, item);
+      if (distSq <= bestSq && (!filter || filter(item))) {
+        best = item;
+        bestSq = distSq;
+      }
+    });
+
+    return best;
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private keyAt(x: number, z: number): string {
+    return `${Math.floor(x / this.size)},${Math.floor(z / this.size)}`;
+  }
+
+  private file(item: T, key: string): void {
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = new Set();
+      this.cells.set(key, cell);
+    }
+    cell.add(item);
+    this.cellOf.set(item, key);
+  }
+
+  private unfile(item: T, key: string): void {
+    const cell = this.cells.get(key);
+    cell?.delete(item);
+    if (cell && cell.size === 0) {
+      this.cells.delete(key);
+    }
+    this.cellOf.delete(item);
+  }
+
+  /** Visit every item in the cells overlapping a square around (x, z) */
+  private forEachInSquare(x: number, z: number, halfSize: number, visit: (item: T) => void): void {
+    const minX = Math.floor((x - halfSize) / this.size);
+    const maxX = Math.floor((x + halfSize) / this.size);
+    const minZ = Math.floor((z - halfSize) / this.size);
+    const maxZ = Math.floor((z + halfSize) / this.size);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cz = minZ; cz <= maxZ; cz++) {
+        const cell = this.cells.get(`${cx},${cz}`);
+        if (!cell) continue;
+        for (const item of cell) {
+          visit(item);
+        }
+      }
+    }
+  }
+
+  private distanceSq(point: THREE.Vector3, item: T): number {
+    const dx = item.position.x - point.x;
+    const dz = item.position.z - point.z;
+    return dx * dx + dz * dz;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Terrain Noise
+ *
+ * Deterministic fractal value noise for ground height. A height depends
+ * only on the world seed and world position, never on which tile asked,
+ * so tiles generated at different times share identical edges.
+ */
+
+import { TERRAIN_CONFIG } from '../config/terrain.config';
+import { hashSeed } from './SeededRandom';
+
+/**
+ * Integer lattice hash to [-1, 1].
+ */
+function latticeValue(seed: number, ix: number, iz: number): number {
+  let h = seed ^ Math.imul(ix, 0x27d4eb2d) ^ Math.imul(iz, 0x165667b1);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  h ^= h >>> 16;
+  return ((h >>> 0) / 4294967295) * 2 - 1;
+}
+
+/** Quintic fade for C2-continuous interpolation */
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+/**
+ * Smoothly interpolated lattice noise in [-1, 1] with one lattice cell
+ * per unit. Also drives the biome climate.
+ */
+export function valueNoise(seed: number, x: number, z: number): number {
+  const ix = Math.floor(x);
+  const iz = Math.floor(z);
+  const u = fade(x - ix);
+  const v = fade(z - iz);
+
+  const a = latticeValue(seed, ix, iz);
+  const b = latticeValue(seed, ix + 1, iz);
+  const c = latticeValue(seed, ix, iz + 1);
+  const d = latticeValue(seed, ix + 1, iz + 1);
+
+  const top = a + (b - a) * u;
+  const bottom = c + (d - c) * u;
+  return top + (bottom - top) * v;
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Terrain Noise - height and slope queries for the procedural ground.
+ */
+export class TerrainNoise {
+  private readonly octaveSeeds: number[];
+  private readonly normalisation: number;
+  private readonly riverSeed: number;
+
+  constructor(seed: number) {
+    const { octaves, persistence } = TERRAIN_CONFIG;
+
+    this.octaveSeeds = [];
+    let total = 0;
+    let amplitude = 1;
+    for (let i = 0; i < octaves; i++) {
+      this.octaveSeeds.push(hashSeed(seed, 'terrain', i) | 0);
+      total += amplitude;
+      amplitude *= persistence;
+    }
+    this.normalisation = total > 0 ? 1 / total : 0;
+    this.riverSeed = hashSeed(seed, 'river') | 0;
+  }
+
+  /**
+   * Ground height at a world position.
+   */
+  heightAt(x: number, z: number): number {
+    const { amplitude, wavelength, persistence, lacunarity, flatSpawnRadius } = TERRAIN_CONFIG;
+
+    let sum = 0;
+    let octaveAmplitude = 1;
+    let frequency = 1 / wavelength;
+    for (const seed of this.octaveSeeds) {
+      sum += valueNoise(seed, x * frequency, z * frequency) * octaveAmplitude;
+      octaveAmplitude *= persistence;
+      frequency *= lacunarity;
+    }
+
+    // Rivers follow the zero contour of a separate noise field, sinking
+    // the ground to the riverbed within the channel
+    const { waterLevel, rivers } = TERRAIN_CONFIG;
+    const river = Math.abs(valueNoise(this.riverSeed, x / rivers.wavelength, z / rivers.wavelength));
+    const channel = 1 - smoothstep(0, rivers.width, river);
+    const height = sum * this.normalisation * amplitude;
+    const carved = height + (Math.min(height, waterLevel - rivers.depth) - height) * channel;
+
+    // Flatten towards the origin so the player spawns on level ground
+    const flatten = smoothstep(flatSpawnRadius, flatSpawnRadius * 3, Math.hypot(x, z));
+    return carved * flatten;
+  }
+
+  /**
+   * Steepness (rise over run) at a world position.
+   */
+  slopeAt(x: number, z: number, step: number = 0.5): number {
+    const dx = this.heightAt(x + step, z) - this.heightAt(x - step, z);
+    const dz = this.heightAt(x, z + step) - this.heightAt(x, z - step);
+    return Math.hypot(dx, dz) / (2 * step);
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Tile Generator
+ *
+ * Decides what is on a streamed tile: ground heights and colours, where
+ * trees, bushes and rocks stand, which animals spawn and which pickups lie
+ * around. It touches no scene, physics or entities, so it runs the same in
+ * the tile worker and on the main thread; the tile manager instantiates
+ * the result.
+ *
+ * Every tile draws from generators seeded by its coordinates, so a tile's
+ * content does not depend on which thread built it or when.
+ */
+
+import * as THREE from 'three';
+import Terrain, { type TerrainSamples } from '../entities/Level/Terrain';
+import Biomes, { type BiomeWeights } from '../entities/Level/Biomes';
+import type { NavObstacle } from '../entities/Level/ForestNavmesh';
+import { TERRAIN_CONFIG } from '../config/terrain.config';
+import { BIOME_CONFIG, type BiomeDefinition, type BiomeType, type CountRange, type WeaponPickupChances } from '../config/biomes.config';
+import { getPrefab, getSpawnablePrefabs, type PrefabSpawn } from '../config/prefabs.config';
+import { SeededRandom, hashSeed } from './SeededRandom';
+import type {
+  TileGeneratorSettings,
+  TileRequest,
+  TileContent,
+  PropPlacement,
+  SpawnPlacement,
+  PickupPlacement,
+} from '../types/tiles.types';
+
+/** Distance kept from the tile edge when placing each kind of thing */
+const MARGINS = {
+  tree: 5,
+  bush: 3,
+  rock: 4,
+  pickup: 5,
+} as const;
+
+/**
+ * Spawn tables from prefabs.json, in spawn order; each prefab rolls its
+ * count from its own biome rates and keeps its own edge margin.
+ */
+const SPAWN_TABLE: ReadonlyArray<{ type: string; spawn: PrefabSpawn }> = getSpawnablePrefabs().map((type) => ({
+  type,
+  spawn: getPrefab(type)!.spawn!,
+}));
+
+/** Weapon pickups in the order they are rolled (rarest first) */
+const WEAPON_PICKUP_ORDER: readonly (keyof WeaponPickupChances)[] = ['nuke', 'gatling', 'ak47'];
+
+/** Radius carved around a fallback cone tree */
+const FALLBACK_TRUNK_RADIUS = 0.4;
+
+/**
+ * Tile Generator - plain-data tile content from the world seed.
+ */
+export class TileGenerator {
+  private readonly settings: TileGeneratorSettings;
+  private readonly terrain: Terrain | null;
+  private readonly biomes: Biomes | null;
+  private readonly props: Set<string>;
+
+  // Generator and biome mix for the tile being generated
+  private rng: SeededRandom = new SeededRandom(0);
+  private biome: BiomeWeights | null = null;
+
+  constructor(settings: TileGeneratorSettings) {
+    this.settings = settings;
+    this.terrain = settings.terrain ? new Terrain(settings.seed) : null;
+    this.biomes = settings.biomes ? new Biomes(settings.seed) : null;
+    this.props = new Set(settings.props);
+  }
+
+  /**
+   * Generate a tile's content.
+   */
+  generate(request: TileRequest): TileContent {
+    const { x: tileX, z: tileZ } = request;
+    const { tileSize } = this.settings;
+    const centerX = tileX * tileSize;
+    const centerZ = tileZ * tileSize;
+    this.biome = this.biomes?.GetWeights(centerX, centerZ) ?? null;
+
+    // Counts come from the tile's biome mix, predators scaled by time of day
+    this.rng = this.tileRandom(tileX, tileZ, 'prepare');
+    const treeCount = this.rollRange((biome) => biome.trees);
+    const spawnCounts = SPAWN_TABLE.map(({ type, spawn }) => {
+      const rate = this.biomeValue((_biome, biomeType) => spawn.biomes[biomeType] ?? 0);
+      const count = this.rollExpected(rate * (request.activity[type] ?? 1));
+      return Math.min(count, request.spawnRoom[type] ?? Infinity);
+    });
+
+    // Placement
+    this.rng = this.tileRandom(tileX, tileZ, 'tile');
+    const samples = this.terrain
+      ? this.terrain.SampleTile(centerX, centerZ, tileSize)
+      : this.flatSamples();
+
+    const props: PropPlacement[] = [];
+    const obstacles: NavObstacle[] = [];
+
+    // Trees (forest 5-8, sparse elsewhere)
+    for (let i = 0; i < treeCount; i++) {
+      const tree = this.placeTree(centerX, centerZ);
+      props.push(tree);
+      obstacles.push({
+        x: tree.x,
+        z: tree.z,
+        radius: this.props.has(tree.kind) ? 0.5 * tree.scale : FALLBACK_TRUNK_RADIUS,
+      });
+    }
+
+    // Grass bushes (meadows are full of them)
+    const bushCount = this.rollRange((biome) => biome.bushes);
+    if (this.props.has('grassBush')) {
+      for (let i = 0; i < bushCount; i++) {
+        props.push(this.placeBush(centerX, centerZ));
+      }
+    }
+
+    // Rocks (badlands are full of them)
+    const rockCount = this.rollRange((biome) => biome.rocks);
+    if (this.props.has('rock')) {
+      for (let i = 0; i < rockCount; i++) {
+        const rock = this.placeRock(centerX, centerZ);
+        props.push(rock);
+        // Box corners reach further than its half-width
+        obstacles.push({ x: rock.x, z: rock.z, radius: 0.5 * rock.scale * Math.SQRT2 });
+      }
+    }
+
+    // Animals (wave mode spawns them through the wave director instead)
+    const spawns: SpawnPlacement[] = [];
+    if (request.spawnAnimals) {
+      SPAWN_TABLE.forEach(({ type, spawn }, i) => {
+        for (let n = 0; n < spawnCounts[i]; n++) {
+          spawns.push({ type, ...this.groundPoint(centerX, centerZ, spawn.margin) });
+        }
+      });
+    }
+
+    // One ammo box, and a weapon with the biome's rarity
+    const pickups: PickupPlacement[] = [{ kind: 'ammo', ...this.groundPoint(centerX, centerZ, MARGINS.pickup) }];
+    const weaponKey = this.rollWeapon();
+    if (weaponKey) {
+      pickups.push({ kind: 'weapon', weaponKey, ...this.groundPoint(centerX, centerZ, MARGINS.pickup) });
+    }
+
+    return {
+      x: tileX,
+      z: tileZ,
+      samples,
+      groundColors: this.groundColors(centerX, centerZ, samples),
+      props,
+      obstacles,
+      spawns,
+      pickups,
+    };
+  }
+
+  // ============================================================================
+  // PROPS
+  // ============================================================================
+
+  private placeTree(centerX: number, centerZ: number): PropPlacement {
+    const { x, y, z } = this.groundPoint(centerX, centerZ, MARGINS.tree);
+    const isPine = this.rng.chance(this.biomeValue((biome) => biome.pineChance));
+    const kind = isPine ? 'tree2' : 'tree1'; // Assuming tree2 is pine-like
+
+    // Fallback cone trees are not scaled or turned
+    if (!this.props.has(kind)) {
+      return { kind, x, y, z, rotationY: 0, scale: 1 };
+    }
+
+    // Pine trees: [3.0, 5.0], other trees: [1.2, 1.8]
+    const scale = isPine ? 3.0 + this.rng.next() * 2.0 : 1.2 + this.rng.next() * 0.6;
+    return { kind, x, y, z, rotationY: this.rng.angle(), scale };
+  }
+
+  private placeBush(centerX: number, centerZ: number): PropPlacement {
+    const { x, y, z } = this.groundPoint(centerX, centerZ, MARGINS.bush);
+    // Small random scale (0.3 to 0.6)
+    const scale = 0.3 + this.rng.next() * 0.3;
+    return { kind: 'grassBush', x, y, z, rotationY: this.rng.angle(), scale };
+  }
+
+  private placeRock(centerX: number, centerZ: number): PropPlacement {
+    // Rocks may sit in the shallows
+    const halfSize = this.settings.tileSize / 2 - MARGINS.rock;
+    const x = centerX + this.rng.spread(2 * halfSize);
+    const z = centerZ + this.rng.spread(2 * halfSize);
+    // Random scale (0.5 to 1.5)
+    const scale = 0.5 + this.rng.next() * 1.0;
+    return { kind: 'rock', x, y: this.groundHeight(x, z), z, rotationY: this.rng.angle(), scale };
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /** Deterministic generator for one purpose on one tile */
+  private tileRandom(tileX: number, tileZ: number, purpose: string): SeededRandom {
+    return new SeededRandom(hashSeed(this.settings.seed, purpose, tileX, tileZ));
+  }
+
+  /** Property of the tile's biome mix (plain forest without a biome map) */
+  private biomeValue(pick: (biome: BiomeDefinition, type: BiomeType) => number): number {
+    if (!this.biomes || !this.biome) {
+      return pick(BIOME_CONFIG.biomes.forest, 'forest');
+    }
+    return this.biomes.Blend(this.biome, pick);
+  }
+
+  /** Roll a count within the tile's blended range */
+  private rollRange(pick: (biome: BiomeDefinition) => CountRange): number {
+    const min = Math.round(this.biomeValue((biome) => pick(biome).min));
+    const max = Math.round(this.biomeValue((biome) => pick(biome).max));
+    return this.rng.int(min, Math.max(min, max));
+  }
+
+  /** Pick the tile's weapon pickup, rarest first, or null for none */
+  private rollWeapon(): keyof WeaponPickupChances | null {
+    const weaponRoll = this.rng.next();
+    let threshold = 0;
+    for (const weaponKey of WEAPON_PICKUP_ORDER) {
+      threshold += this.biomeValue((biome) => biome.weaponPickups[weaponKey]);
+      if (weaponRoll < threshold) return weaponKey;
+    }
+    return null;
+  }
+
+  /** Roll a count with the given expected value (e.g. 1.3 = 1, 30% chance of 2) */
+  private rollExpected(expected: number): number {
+    const whole = Math.floor(expected);
+    return whole + (this.rng.chance(expected - whole) ? 1 : 0);
+  }
+
+  /**
+   * Random point on the ground at least `margin` inside the tile, rerolled
+   * a few times to keep it out of lakes and rivers.
+   */
+  private groundPoint(centerX: number, centerZ: number, margin: number): { x: number; y: number; z: number } {
+    const halfSize = this.settings.tileSize / 2 - margin;
+    let x = centerX;
+    let z = centerZ;
+    for (let attempt = 0; attempt < 4; attempt++) {
+      x = centerX + this.rng.spread(2 * halfSize);
+      z = centerZ + this.rng.spread(2 * halfSize);
+      if (!this.terrain?.IsUnderwater(x, z)) break;
+    }
+    return { x, y: this.groundHeight(x, z), z };
+  }
+
+  private groundHeight(x: number, z: number): number {
+    return this.terrain?.GetHeight(x, z) ?? 0;
+  }
+
+  /** Level ground for when the Level has no terrain */
+  private flatSamples(): TerrainSamples {
+    const size = TERRAIN_CONFIG.resolution + 1;
+    return {
+      heights: new Float32Array(size * size),
+      size,
+      spacing: this.settings.tileSize / TERRAIN_CONFIG.resolution,
+      minHeight: 0,
+      maxHeight: 0,
+    };
+  }
+
+  /**
+   * Per-vertex ground colour from the biome map. Sampled per vertex rather
+   * than per tile so colours blend smoothly across tile edges.
+   */
+  private groundColors(centerX: number, centerZ: number, samples: TerrainSamples): Float32Array {
+    const { size, spacing } = samples;
+    const half = (size - 1) * spacing / 2;
+    const colors = new Float32Array(size * size * 3);
+    const color = new THREE.Color(1, 1, 1);
+
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        if (this.biomes) {
+          this.biomes.GetGroundColor(centerX - half + col * spacing, centerZ - half + row * spacing, color);
+        }
+        color.toArray(colors, (row * size + col) * 3);
+      }
+    }
+
+    return colors;
+  }
+}
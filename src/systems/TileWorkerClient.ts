@@ -0,0 +1,128 @@
+/**
+ * Tile Worker Client
+ *
+ * Main-thread side of tile generation. Requests go to the tile worker and
+ * come back through a callback; without Worker support, when the worker
+ * fails, or when asked not to use one (headless runs step the game in a
+ * tight loop that would never see a worker reply), tiles are generated
+ * synchronously and the callback runs straight away.
+ */
+
+import { TileGenerator } from './TileGenerator';
+import type {
+  TileGeneratorSettings,
+  TileRequest,
+  TileContent,
+  TileWorkerRequest,
+  TileWorkerResponse,
+} from '../types/tiles.types';
+
+interface PendingTile {
+  request: TileRequest;
+  onReady: (content: TileContent) => void;
+}
+
+/**
+ * Tile Worker Client - generates tiles on the worker, or inline.
+ */
+export class TileWorkerClient {
+  // Used inline, and to redo requests the worker could not finish
+  private readonly generator: TileGenerator;
+
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingTile>();
+
+  constructor(settings: TileGeneratorSettings, useWorker: boolean = true) {
+    this.generator = new TileGenerator(settings);
+
+    if (useWorker && typeof Worker !== 'undefined') {
+      try {
+        this.worker = new Worker(new URL('../workers/tileGenerator.worker.ts', import.meta.url), { type: 'module' });
+        this.worker.onmessage = (event: MessageEvent<TileWorkerResponse>) => this.handleResponse(event.data);
+        this.worker.onerror = (event) => {
+          console.warn('TileWorkerClient: worker failed, generating tiles on the main thread', event.message);
+          this.stopWorker();
+        };
+        this.post({ type: 'init', settings });
+      } catch (e) {
+        console.warn('TileWorkerClient: could not start worker, generating tiles on the main thread', e);
+        this.worker = null;
+      }
+    }
+  }
+
+  /** Whether tiles are generated off the main thread */
+  get threaded(): boolean {
+    return this.worker !== null;
+  }
+
+  /** Tiles requested but not yet delivered */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Generate a tile. `onReady` runs when the worker answers, or before
+   * this returns when generating inline.
+   */
+  request(request: TileRequest, onReady: (content: TileContent) => void): void {
+    if (!this.worker) {
+      onReady(this.generator.generate(request));
+      return;
+    }
+
+    const id = this.nextId++;
+    this.pending.set(id, { request, onReady });
+    this.post({ type: 'generate', id, request });
+  }
+
+  /**
+   * Generate a tile on the calling thread, e.g. the spawn tile the player
+   * needs before the first frame.
+   */
+  generateSync(request: TileRequest): TileContent {
+    return this.generator.generate(request);
+  }
+
+  /**
+   * Stop the worker and drop outstanding requests.
+   */
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.clear();
+  }
+
+  private post(message: TileWorkerRequest): void {
+    this.worker?.postMessage(message);
+  }
+
+  private handleResponse(response: TileWorkerResponse): void {
+    const tile = this.pending.get(response.id);
+    if (!tile) return;
+    this.pending.delete(response.id);
+
+    if (response.type === 'tile') {
+      tile.onReady(response.content);
+    } else {
+      console.warn(`TileWorkerClient: worker could not generate tile, retrying inline: ${response.message}`);
+      tile.onReady(this.generator.generate(tile.request));
+    }
+  }
+
+  /**
+   * Fall back to inline generation, finishing whatever the worker had
+   * in hand.
+   */
+  private stopWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+
+    const unfinished = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const tile of unfinished) {
+      tile.onReady(this.generator.generate(tile.request));
+    }
+  }
+}
@@ -3,3 +3,38 @@
  */
 
 export { AnimationController } from './AnimationController';
+export { SeededRandom, hashSeed } from './SeededRandom';
+export {
+  SAVE_VERSION,
+  SAVE_STORAGE_KEY,
+  registerSaveMigration,
+  migrateSnapshot,
+  createSnapshot,
+  applySnapshot,
+  writeSave,
+  readSave,
+  hasSave,
+  clearSave,
+} from './SaveSystem';
+export { ComboScorer, type ScoredKill, type ScoreAward } from './ComboScorer';
+export { resolveDamage, resolveHitZone, type DamageResult } from './Damage';
+export {
+  LEADERBOARD_STORAGE_KEY,
+  readLeaderboard,
+  qualifiesForLeaderboard,
+  addLeaderboardEntry,
+  sanitizeLeaderboardName,
+} from './Leaderboard';
+export { TerrainNoise, valueNoise } from './TerrainNoise';
+export { ObjectPool, KeyedPool, type PoolHooks } from './ObjectPool';
+export {
+  lodLevelFor,
+  simplifyGeometry,
+  bakeImpostor,
+  type LodLevel,
+  type Impostor,
+} from './Lod';
+export { TileGenerator } from './TileGenerator';
+export { TileWorkerClient } from './TileWorkerClient';
+export { FixedTimestep } from './FixedTimestep';
+export { SpatialHash, type Positioned } from './SpatialHash';
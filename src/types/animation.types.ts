@@ -29,7 +29,7 @@ export type AnimalType = 'rabbit' | 'fox' | 'mutant' | 'trex' | 'apatosaurus';
 /**
  * Weapon keys for type-safe weapon identification.
  */
-export type WeaponKey = 'rifle' | 'ak47' | 'shotgun' | 'gatling' | 'nuke';
+export type WeaponKey = 'rifle' | 'ak47' | 'shotgun' | 'gatling' | 'grenadeLauncher' | 'nuke';
 
 /**
  * Animation source types - determines how animations are loaded.
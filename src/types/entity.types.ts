@@ -5,7 +5,11 @@
  */
 
 import type * as THREE from 'three';
-import type { GameEvent } from './events.types';
+import type { GameEvent, DamageType, Unsubscribe } from './events.types';
+import type { ComponentSaveData } from './save.types';
+import type { AnimalType } from './animation.types';
+import type { SpatialHash } from '../systems/SpatialHash';
+import type { EventBus } from '../core/EventBus';
 
 // Forward declare component types - will be updated as components are migrated
 // This allows components to be added incrementally during migration
@@ -49,6 +53,9 @@ export interface IEntity {
   /** Whether entity is active (updated each frame) */
   active: boolean;
 
+  /** Attached components keyed by name */
+  readonly components: Record<string, IComponent>;
+
   /**
    * Get a component by name with type inference.
    * Returns undefined if component not found.
@@ -76,12 +83,12 @@ export interface IEntity {
   SetName(name: string | number): void;
 
   /**
-   * Register an event handler for a specific topic.
+   * Register an event handler for a specific topic on this entity's channel.
    */
   RegisterEventHandler<T extends GameEvent>(
     handler: (msg: T) => void,
     topic: T['topic']
-  ): void;
+  ): Unsubscribe;
 
   /**
    * Broadcast an event to all registered handlers.
@@ -102,6 +109,11 @@ export interface IEntity {
    * Physics update for all components.
    */
   PhysicsUpdate(world: unknown, timeStep: number): void;
+
+  /**
+   * Blend all components between the last two physics ticks.
+   */
+  Interpolate(alpha: number): void;
 }
 
 /**
@@ -134,6 +146,11 @@ export interface IComponent {
    */
   PhysicsUpdate(world: unknown, timeStep: number): void;
 
+  /**
+   * Blend rendered state between the last two physics ticks.
+   */
+  Interpolate(alpha: number): void;
+
   /**
    * Get another component from the parent entity.
    */
@@ -149,16 +166,44 @@ export interface IComponent {
    */
   Broadcast(msg: GameEvent): void;
 
+  /**
+   * Listen for a world event; the subscription ends with the parent entity.
+   */
+  Subscribe<T extends GameEvent>(topic: T['topic'], handler: (msg: T) => void): Unsubscribe;
+
+  /**
+   * Send a world event to every subscriber, now or at the next frame.
+   */
+  Publish(msg: GameEvent, deferred?: boolean): void;
+
   /**
    * Cleanup resources when entity is removed.
    */
   Cleanup?(): void;
+
+  /**
+   * Contribute state to a save snapshot.
+   * Return undefined to skip this component.
+   */
+  SaveState?(): ComponentSaveData | undefined;
+
+  /**
+   * Restore state from a save snapshot.
+   * Called after all components are initialized.
+   */
+  LoadState?(data: ComponentSaveData): void;
 }
 
 /**
  * Entity manager interface.
  */
 export interface IEntityManager {
+  /** Managed entities by where they stand, for proximity queries */
+  readonly spatial: SpatialHash<IEntity>;
+
+  /** World and entity event channels */
+  readonly events: EventBus;
+
   /**
    * Get an entity by name.
    */
@@ -170,9 +215,31 @@ export interface IEntityManager {
   Add(entity: IEntity): void;
 
   /**
-   * Remove an entity from the manager.
+   * Remove an entity from the manager. Pass cleanup = false to keep its
+   * components intact, e.g. when the entity goes back into a pool.
+   */
+  Remove(entity: IEntity, cleanup?: boolean): void;
+
+  /**
+   * Get the entities that have every one of the given components.
+   */
+  Query(components: readonly ComponentName[]): IEntity[];
+
+  /**
+   * Number of entities with a component.
+   */
+  CountWith(component: ComponentName): number;
+
+  /**
+   * Keep the component index up to date when a managed entity gains a
+   * component.
+   */
+  OnComponentAdded(entity: IEntity, component: IComponent): void;
+
+  /**
+   * Keep the spatial index up to date when a managed entity moves.
    */
-  Remove(entity: IEntity): void;
+  OnEntityMoved(entity: IEntity): void;
 
   /**
    * Get all entities.
@@ -193,6 +260,11 @@ export interface IEntityManager {
    * Physics update all entities.
    */
   PhysicsUpdate(world: unknown, timeStep: number): void;
+
+  /**
+   * Blend all entities between the last two physics ticks.
+   */
+  Interpolate(alpha: number): void;
 }
 
 /**
@@ -203,7 +275,7 @@ export interface AnimalConfig {
   readonly name: string;
 
   /** Animal type identifier */
-  readonly animalType: string;
+  readonly animalType: AnimalType;
 
   /** Starting health */
   readonly health: number;
@@ -228,6 +300,44 @@ export interface AnimalConfig {
 
   /** Scale for health bar (optional, defaults to 1.0) */
   readonly healthBarScale?: number;
+
+  /** Points awarded for a kill */
+  readonly scoreValue: number;
+
+  /** Hit zones checked in order for bullet hits (optional, whole body otherwise) */
+  readonly hitZones?: readonly HitZoneConfig[];
+
+  /** Flat damage removed from every hit (optional) */
+  readonly armor?: number;
+
+  /** Damage multipliers per damage type, e.g. 0.5 halves it (optional) */
+  readonly resistances?: Partial<Record<DamageType, number>>;
+}
+
+/**
+ * Named body region of an animal.
+ */
+export type HitZone = 'head' | 'body' | 'legs';
+
+/**
+ * Region of an animal's collider that scales incoming damage.
+ * Bounds are world units from the model origin in the animal's facing
+ * frame (+Z forward, +Y up); the origin sits at the feet, on the ground,
+ * so heights are positive. Omitted bounds are open. Hits land on the
+ * collider surface, so bounds describe where on that surface a shot hit.
+ */
+export interface HitZoneConfig {
+  /** Which region this is */
+  readonly zone: HitZone;
+
+  /** Lower bounds per axis (optional) */
+  readonly min?: { readonly x?: number; readonly y?: number; readonly z?: number };
+
+  /** Upper bounds per axis (optional) */
+  readonly max?: { readonly x?: number; readonly y?: number; readonly z?: number };
+
+  /** Damage multiplier for hits inside the region */
+  readonly multiplier: number;
 }
 
 /**
@@ -252,3 +362,19 @@ export interface BehaviorConfig {
   /** Speed when chasing */
   readonly chaseSpeed?: number;
 }
+
+/**
+ * One point on an activity curve.
+ */
+export interface ActivityKey {
+  /** Hour of day, 0-24 */
+  readonly hour: number;
+
+  /** Activity level: 0 = asleep, 1 = normal daytime, above 1 = busier than usual */
+  readonly level: number;
+}
+
+/**
+ * Activity over a day, sorted by hour. Wraps around midnight.
+ */
+export type ActivityCurve = readonly ActivityKey[];
@@ -6,7 +6,7 @@
  */
 
 import type * as THREE from 'three';
-import type { IEntity } from './entity.types';
+import type { IEntity, HitZone } from './entity.types';
 import type { AnimalType, WeaponKey } from './animation.types';
 
 /**
@@ -23,6 +23,12 @@ export interface HitResult {
   collisionObject: unknown;
 }
 
+/**
+ * Kind of damage a hit deals.
+ * Bullets resolve hit zones; resistances are keyed by this.
+ */
+export type DamageType = 'bullet' | 'explosion' | 'melee';
+
 /**
  * Hit event - damage dealt to an entity.
  */
@@ -37,6 +43,12 @@ export interface HitEvent {
 
   /** Raycast hit result (optional) */
   hitResult?: HitResult;
+
+  /** Kind of damage (optional, untyped hits skip zones and resistances) */
+  damageType?: DamageType;
+
+  /** Player weapon that dealt the hit (optional) */
+  weapon?: WeaponKey;
 }
 
 /**
@@ -50,6 +62,15 @@ export interface AnimalKilledEvent {
 
   /** Type of animal killed */
   type: AnimalType;
+
+  /** Weapon that landed the killing hit (unknown for non-player kills) */
+  weapon?: WeaponKey;
+
+  /** Distance from the killer to the animal at death */
+  distance?: number;
+
+  /** Hit zone of the killing hit */
+  zone?: HitZone;
 }
 
 /**
@@ -69,15 +90,18 @@ export interface AnimalDiedEvent {
 }
 
 /**
- * Weapon upgrade event - player earned a new weapon tier.
+ * Weapon upgrade event - player met the unlock rule for a weapon.
  */
 export interface WeaponUpgradeEvent {
   topic: 'weapon_upgrade';
 
-  /** New weapon tier (1-4) */
+  /** Tier index of the granted weapon in WEAPON_PROGRESSION */
   tier: number;
 
-  /** Name of the new weapon */
+  /** Key of the granted weapon */
+  weaponKey: WeaponKey;
+
+  /** Display name of the granted weapon (WEAPONS[weaponKey].name) */
   weaponName: string;
 }
 
@@ -177,6 +201,40 @@ export interface HealthChangedEvent {
   max: number;
 }
 
+/**
+ * Player died event - sent to the Player and GameManager entities.
+ */
+export interface PlayerDiedEvent {
+  topic: 'player_died';
+
+  /** Where the player died */
+  position: THREE.Vector3;
+}
+
+/**
+ * Player respawn event - sent to the Player entity to reset its components,
+ * and to the SpawnManager entity so game modes can restart.
+ */
+export interface PlayerRespawnEvent {
+  topic: 'player_respawn';
+
+  /** Keep owned weapons and ammo instead of resetting to the starting weapon */
+  keepWeapons: boolean;
+
+  /** Keep run progress (kills, score, wave) instead of starting a fresh run */
+  keepProgress: boolean;
+}
+
+/**
+ * Hunt ended event - sent to the Player entity when the hunt timer runs out.
+ */
+export interface HuntEndedEvent {
+  topic: 'hunt_ended';
+
+  /** Final hunt score */
+  score: number;
+}
+
 /**
  * Union of all game events.
  * Use this type for event handlers and broadcasts.
@@ -194,7 +252,10 @@ export type GameEvent =
   | FoxWeaponDropEvent
   | NavEndEvent
   | AmmoChangedEvent
-  | HealthChangedEvent;
+  | HealthChangedEvent
+  | PlayerDiedEvent
+  | PlayerRespawnEvent
+  | HuntEndedEvent;
 
 /**
  * Extract event type by topic.
@@ -214,3 +275,8 @@ export type EventTopic = GameEvent['topic'];
  * Event handler type for a specific topic.
  */
 export type EventHandler<T extends EventTopic> = (event: EventByTopic<T>) => void;
+
+/**
+ * Stops a subscription made on the event bus.
+ */
+export type Unsubscribe = () => void;
@@ -14,3 +14,9 @@ export * from './events.types';
 
 // Physics system
 export * from './physics.types';
+
+// Save system
+export * from './save.types';
+
+// Tile generation
+export * from './tiles.types';
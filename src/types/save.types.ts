@@ -0,0 +1,61 @@
+/**
+ * Save System Type Definitions
+ *
+ * Shape of the versioned JSON snapshot written to localStorage.
+ */
+
+import type { GameMode } from '../config/game.config';
+
+/**
+ * State contributed by a single component.
+ * Must be plain JSON (no class instances, no cycles).
+ */
+export type ComponentSaveData = Record<string, unknown>;
+
+/**
+ * Per-entity state: component name -> component data.
+ */
+export type EntitySaveData = Record<string, ComponentSaveData>;
+
+/**
+ * Full save snapshot.
+ */
+export interface SaveSnapshot {
+  /** Schema version - bumped whenever the layout changes */
+  version: number;
+
+  /** Unix time (ms) when the snapshot was written */
+  savedAt: number;
+
+  /** World seed, so the same forest is regenerated on load */
+  seed: number | null;
+
+  /** Game mode of the saved run (older saves are free-roam) */
+  mode?: GameMode;
+
+  /** Entity name -> component state */
+  entities: Record<string, EntitySaveData>;
+}
+
+/**
+ * One row of the local Hunt mode leaderboard.
+ */
+export interface LeaderboardEntry {
+  /** Name entered by the player */
+  name: string;
+
+  /** Final hunt score */
+  score: number;
+
+  /** Animals killed during the hunt */
+  kills: number;
+
+  /** Unix time (ms) when the entry was recorded */
+  date: number;
+}
+
+/**
+ * Migration from one snapshot version to the next.
+ * Receives the raw parsed JSON of version N and returns version N + 1.
+ */
+export type SaveMigration = (snapshot: Record<string, unknown>) => Record<string, unknown>;
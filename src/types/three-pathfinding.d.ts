@@ -0,0 +1,42 @@
+/**
+ * Type declarations for three-pathfinding (the package ships none)
+ */
+
+declare module 'three-pathfinding' {
+  import type { BufferGeometry, Vector3 } from 'three';
+
+  /** One navmesh polygon */
+  export interface PathfindingNode {
+    id: number;
+    neighbours: number[];
+    vertexIds: number[];
+    centroid: Vector3;
+    portals: number[][];
+  }
+
+  /** Navigation data for one zone; groups are connected islands of polygons */
+  export interface PathfindingZone {
+    vertices: Vector3[];
+    groups: PathfindingNode[][];
+  }
+
+  export class Pathfinding {
+    zones: Record<string, PathfindingZone>;
+
+    static createZone(geometry: BufferGeometry, tolerance?: number): PathfindingZone;
+
+    setZoneData(zoneID: string, zone: PathfindingZone): void;
+    getGroup(zoneID: string, position: Vector3, checkPolygon?: boolean): number | null;
+    getRandomNode(zoneID: string, groupID: number, nearPosition?: Vector3 | null, nearRange?: number): Vector3;
+    getClosestNode(position: Vector3, zoneID: string, groupID: number, checkPolygon?: boolean): PathfindingNode | null;
+    findPath(startPosition: Vector3, targetPosition: Vector3, zoneID: string, groupID: number): Vector3[] | null;
+    clampStep(
+      start: Vector3,
+      end: Vector3,
+      node: PathfindingNode,
+      zoneID: string,
+      groupID: number,
+      endTarget: Vector3
+    ): PathfindingNode;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Tile Generation Type Definitions
+ *
+ * What goes into a streamed tile and the messages exchanged with the tile
+ * generation worker. Everything here is plain data so it can be posted
+ * between threads; height and colour arrays are transferred, not copied.
+ */
+
+import type { WeaponKey } from './animation.types';
+import type { PropKind } from '../entities/Level/PropInstances';
+import type { TerrainSamples } from '../entities/Level/Terrain';
+import type { NavObstacle } from '../entities/Level/ForestNavmesh';
+
+// ============================================================================
+// GENERATOR INPUT
+// ============================================================================
+
+/**
+ * Fixed for a level; sent to the worker once.
+ */
+export interface TileGeneratorSettings {
+  /** World seed (same as the Level's Random component) */
+  seed: number;
+
+  /** Tile side length in metres */
+  tileSize: number;
+
+  /** Whether the Level has terrain; tiles are flat without it */
+  terrain: boolean;
+
+  /** Whether the Level has a biome map; tiles are plain forest without it */
+  biomes: boolean;
+
+  /** Prop models that are loaded (others are skipped or use a fallback) */
+  props: PropKind[];
+}
+
+/**
+ * One tile to generate, with the world state its spawns depend on.
+ */
+export interface TileRequest {
+  x: number;
+  z: number;
+
+  /** Whether the tile brings its own animals */
+  spawnAnimals: boolean;
+
+  /** Spawn chance multipliers from the time of day, by prefab key (default 1) */
+  activity: Record<string, number>;
+
+  /** Room left under the tile caps, for capped prefabs */
+  spawnRoom: Record<string, number>;
+}
+
+// ============================================================================
+// GENERATOR OUTPUT
+// ============================================================================
+
+/** A tree, bush or rock standing on the ground */
+export interface PropPlacement {
+  kind: PropKind;
+  x: number;
+  y: number;
+  z: number;
+  rotationY: number;
+  scale: number;
+}
+
+/** An animal to spawn */
+export interface SpawnPlacement {
+  /** Prefab key */
+  type: string;
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** An ammo box, or a weapon lying on the ground */
+export interface PickupPlacement {
+  kind: 'ammo' | 'weapon';
+  weaponKey?: WeaponKey;
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Everything on a tile, ready for the main thread to instantiate.
+ */
+export interface TileContent {
+  x: number;
+  z: number;
+
+  /** Ground heights */
+  samples: TerrainSamples;
+
+  /** Per-vertex ground colour (RGB, one per height sample) */
+  groundColors: Float32Array;
+
+  props: PropPlacement[];
+
+  /** Trunks and rocks, carved out of the tile's navmesh */
+  obstacles: NavObstacle[];
+
+  spawns: SpawnPlacement[];
+
+  pickups: PickupPlacement[];
+}
+
+// ============================================================================
+// WORKER PROTOCOL
+// ============================================================================
+
+/** Main thread -> worker */
+export type TileWorkerRequest =
+  | { type: 'init'; settings: TileGeneratorSettings }
+  | { type: 'generate'; id: number; request: TileRequest };
+
+/** Worker -> main thread */
+export type TileWorkerResponse =
+  | { type: 'tile'; id: number; content: TileContent }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,45 @@
+/**
+ * Tile Generation Worker
+ *
+ * Runs the tile generator off the main thread. Receives the level's
+ * settings once, then one 'generate' message per tile; answers with the
+ * tile's content, transferring its height and colour buffers.
+ */
+
+import { TileGenerator } from '../systems/TileGenerator';
+import type { TileWorkerRequest, TileWorkerResponse } from '../types/tiles.types';
+
+const context = self as unknown as Worker;
+
+let generator: TileGenerator | null = null;
+
+function reply(response: TileWorkerResponse, transfer: Transferable[] = []): void {
+  context.postMessage(response, transfer);
+}
+
+context.onmessage = (event: MessageEvent<TileWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      generator = new TileGenerator(message.settings);
+      break;
+
+    case 'generate': {
+      if (!generator) {
+        reply({ type: 'error', id: message.id, message: 'Tile worker used before init' });
+        return;
+      }
+      try {
+        const content = generator.generate(message.request);
+        reply({ type: 'tile', id: message.id, content }, [
+          content.samples.heights.buffer,
+          content.groundColors.buffer,
+        ]);
+      } catch (e) {
+        reply({ type: 'error', id: message.id, message: e instanceof Error ? e.message : String(e) });
+      }
+      break;
+    }
+  }
+};
@@ -0,0 +1,28 @@
+/**
+ * Runs the headless Node bundle (built by `npm run build:headless`) and
+ * checks that each game mode steps through to the end.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+
+const RUNNER = fileURLToPath(new URL('../dist/headless/headless.mjs', import.meta.url));
+
+function runHeadless(...args) {
+  return spawnSync(process.execPath, [RUNNER, ...args], { encoding: 'utf8', timeout: 120_000 });
+}
+
+for (const mode of ['freeroam', 'wave', 'hunt']) {
+  test(`headless ${mode} run completes`, () => {
+    const result = runHeadless('--ticks', '300', '--mode', mode);
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stdout, /Starting headless run for 300 ticks/);
+    assert.match(result.stdout, /Headless run completed/);
+
+    const entities = Number(/Entities alive: (\d+)/.exec(result.stdout)?.[1]);
+    assert.ok(entities > 0, `expected live entities, got ${entities}`);
+  });
+}
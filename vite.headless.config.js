@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Node bundle of the headless runner (src/headless.ts). Everything is
+// bundled, as three's examples/jsm modules don't load in Node as-is.
+export default defineConfig({
+  root: 'src',
+  publicDir: false,
+  assetsInclude: ['**/*.glb', '**/*.fbx', '**/*.obj', '**/*.tga', '**/*.wav'],
+  ssr: {
+    noExternal: true
+  },
+  build: {
+    ssr: 'headless.ts',
+    outDir: '../dist/headless',
+    emptyOutDir: true
+  }
+});